@@ -10,8 +10,55 @@ import {
   JournalPlan,
   JournalGoal,
   StatsHistoryEntry,
+  ReferenceRange,
+  UserProfile,
+  CustomMarkerInput,
+  MarkerGoal,
+  ActionableTodo,
+  FocusAreaId,
+  Advice,
+  AdviceInput,
+  ImportSource,
 } from './types';
-import { getStatus, safeFloat, formatNumber, parseDate } from './utils';
+import {
+  getStatus,
+  getMeasurementStatus,
+  formatNumber,
+  parseDate,
+  isOutsideGoal,
+  getSeverity,
+  severityRank,
+  relativeDeviation,
+  FOCUS_AREAS,
+  focusAreaMeta,
+  getFocusAreasForMarker,
+} from './utils';
+import { toMarkerUnit } from './units';
+import { resolveMeasurementRanges } from './referenceRanges';
+import { computeDerivedMeasurements } from './derivedMarkers';
+import { AreaScore, computeHealthScore, sameAreaScores, toAreaScores } from './healthScore';
+import { adviceForFocusArea, adviceForMarker } from './advice';
+import { RestorePlan } from './dataRestore';
+import {
+  DataChange,
+  MeasurementPatch,
+  NewMeasurement,
+  PLAN_CONFLICT,
+  PlanInput,
+  Repository,
+  RepositoryError,
+  SyncStatus,
+  UserData,
+} from './repository';
+import {
+  applyPlanChange,
+  newestMeasurementFirst,
+  newestNoteFirst,
+  oldestTodoFirst,
+  removeRow,
+  unlinkTodos,
+  upsertRow,
+} from './dataChanges';
 import BloodMarkerCard from './components/BloodMarkerCard';
 import DetailView from './components/DetailView';
 import NewMeasurementModal from './components/NewMeasurementModal';
@@ -27,13 +74,13 @@ import AccountView from './components/AccountView';
 import ActivePlanView from './components/ActivePlanView'; 
 import Header, { NavTab } from './components/Header';
 import Footer from './components/Footer';
-import { supabase } from './supabaseClient';
 import { Session } from '@supabase/supabase-js';
 
 const cx = (...classes: Array<string | false | null | undefined>) => classes.filter(Boolean).join(' ');
 
-type StatusFilter = 'all' | 'attention' | 'normal';
+type StatusFilter = 'all' | 'attention' | 'normal' | 'offTarget';
 type SortMode = 'attention' | 'recent' | 'az';
+type GroupMode = 'category' | 'focusArea';
 
 const ts = (iso?: string | null) => {
   if (!iso) return 0;
@@ -42,17 +89,8 @@ const ts = (iso?: string | null) => {
   return Number.isFinite(t) ? t : 0;
 };
 
-const statusRank = (status: string | undefined) => {
-  switch ((status ?? '').toLowerCase()) {
-    case 'high':
-    case 'low':
-      return 1;
-    case 'normal':
-      return 4;
-    default:
-      return 3;
-  }
-};
+// Latest value outside the user's own target range (independent of the reference range)
+const isOffTarget = (m: MarkerHistory) => Boolean(m.latestMeasurement) && isOutsideGoal(m.latestMeasurement!.value, m.goal);
 
 type ToastType = 'success' | 'error' | 'info';
 
@@ -74,6 +112,12 @@ const humanizeSupabaseError = (err: any) => {
   if (code === '42P01') {
       return 'Databasfel: Tabellen saknas (t.ex. journal_goals). Kör SQL-migrationen.';
   }
+  if (code === 'PGRST202') {
+      return 'Databasfel: Funktionen saknas (t.ex. save_journal_plan). Kör SQL-migrationen.';
+  }
+  if (code === PLAN_CONFLICT) {
+      return 'Planen har ändrats i en annan flik eller på en annan enhet. Dina ändringar finns kvar i redigeraren.';
+  }
 
   if (lower.includes('row level security') || lower.includes('violates row-level security')) {
     return 'Åtkomst nekad (Row Level Security). Kontrollera policies för tabellen.';
@@ -100,7 +144,7 @@ const Toast: React.FC<ToastState & { onClose: () => void }> = ({ type, title, me
       <div className={cx('rounded-2xl shadow-xl ring-1 ring-black/10 px-4 py-3 flex items-start gap-3', tint)}>
         <div className="flex-1 min-w-0">
           <div className="text-sm font-bold leading-tight">{title}</div>
-          {message && <div className="text-xs opacity-90 mt-1 leading-snug">{message}</div>}
+          {message && <div className="text-xs opacity-90 mt-1 leading-snug whitespace-pre-line">{message}</div>}
         </div>
         <button
           onClick={onClose}
@@ -206,7 +250,131 @@ const CategoryGroup: React.FC<{
   );
 };
 
-const App: React.FC = () => {
+// --- Focus area (organ system) accordion ---
+// A marker can belong to several areas and is then listed under each of them.
+const FocusAreaGroup: React.FC<{
+  areaId: FocusAreaId;
+  markers: MarkerHistory[];
+  score?: AreaScore;
+  advice?: ActionableTodo;
+  adviceAdded: boolean;
+  onAddAdvice: (advice: ActionableTodo) => Promise<void>;
+  onSelectMarker: (id: string) => void;
+  onToggleIgnore: (id: string) => void;
+}> = ({ areaId, markers, score, advice, adviceAdded, onAddAdvice, onSelectMarker, onToggleIgnore }) => {
+  const meta = focusAreaMeta(areaId);
+  const attentionCount = markers.filter((m) => m.status !== 'normal' && !m.isIgnored).length;
+  const criticalCount = markers.filter((m) => m.severity === 'critical' && !m.isIgnored).length;
+
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [adding, setAdding] = useState(false);
+
+  const handleAdd = async () => {
+    if (!advice) return;
+    setAdding(true);
+    try {
+      await onAddAdvice(advice);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const triggeredNames = advice
+    ? advice.triggeredBy.map((id) => markers.find((m) => m.id === id)?.shortName).filter(Boolean).join(', ')
+    : '';
+
+  return (
+    <section className="mb-4">
+      <div className="rounded-3xl bg-white/80 backdrop-blur-sm ring-1 ring-slate-900/5 shadow-sm">
+        <button
+          onClick={() => setIsOpen((v) => !v)}
+          aria-expanded={isOpen}
+          className="w-full flex items-center justify-between p-5 text-left transition-all active:scale-[0.99]"
+        >
+          <div className="min-w-0 flex-1">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+              <span className="text-xl leading-none">{meta.emoji}</span>
+              <h3 className="text-lg font-bold text-slate-900 tracking-tight">{meta.title}</h3>
+              <div
+                className={cx(
+                  'text-xs font-bold px-2.5 py-1 rounded-full flex items-center gap-1.5',
+                  criticalCount > 0
+                    ? 'bg-red-100 text-red-900'
+                    : attentionCount > 0
+                      ? 'bg-amber-100 text-amber-900'
+                      : 'bg-emerald-100 text-emerald-900',
+                )}
+              >
+                <span className={cx('w-1.5 h-1.5 rounded-full', criticalCount > 0 ? 'bg-red-600' : attentionCount > 0 ? 'bg-amber-500' : 'bg-emerald-500')} />
+                {criticalCount > 0 ? `${criticalCount} kritiska` : attentionCount > 0 ? `${attentionCount} avvikande` : 'Allt inom ref'}
+              </div>
+              {score && <div className="text-xs font-semibold text-slate-500">Poäng {score.score}/100</div>}
+            </div>
+            <p className="text-xs text-slate-500 mt-1.5">{meta.description}</p>
+          </div>
+
+          <div
+            className={cx(
+              'ml-4 w-10 h-10 shrink-0 rounded-full flex items-center justify-center transition-all duration-300',
+              'bg-slate-50 ring-1 ring-slate-900/5',
+              isOpen ? 'rotate-180 bg-slate-100' : '',
+            )}
+          >
+            <svg className="w-4 h-4 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </div>
+        </button>
+
+        {advice && (
+          <div className="mx-5 mb-5 -mt-1 rounded-2xl bg-slate-900 text-white p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="min-w-0 flex-1">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Förslag</div>
+              <div className="font-bold leading-tight mt-0.5">{advice.actionTitle}</div>
+              <div className="text-xs text-slate-300 mt-1">{advice.actionDescription}</div>
+              {triggeredNames && <div className="text-[10px] text-slate-400 mt-2">Baserat på {triggeredNames}</div>}
+            </div>
+            <button
+              onClick={handleAdd}
+              disabled={adviceAdded || adding}
+              className="shrink-0 rounded-full px-4 py-2 text-xs font-bold bg-white text-slate-900 hover:bg-slate-100 disabled:bg-white/20 disabled:text-white/70"
+            >
+              {adviceAdded ? '✓ I åtgärdslistan' : adding ? 'Lägger till...' : 'Lägg till i åtgärdslistan'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className={cx('grid transition-all duration-300 ease-in-out', isOpen ? 'grid-rows-[1fr] opacity-100 mt-3' : 'grid-rows-[0fr] opacity-0 mt-0')}>
+        <div className="overflow-hidden">
+          <div className="flex flex-col gap-3 px-1 pb-2">
+            {markers.map((marker) => (
+              <BloodMarkerCard
+                key={marker.id}
+                data={marker}
+                onClick={() => onSelectMarker(marker.id)}
+                onToggleIgnore={() => onToggleIgnore(marker.id)}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+// Note on an imported measurement, so the history shows how the value got in
+const IMPORT_NOTES: Record<ImportSource, string> = {
+  rule: 'Importerat (PDF/text)',
+  ai: 'Importerat via AI',
+  fhir: 'Importerat från FHIR',
+  hl7: 'Importerat från HL7',
+};
+
+// Task text for a todo created from an advice card; also used to tell that it was already added
+const actionableTodoTask = (advice: ActionableTodo) => `${advice.actionTitle}: ${advice.actionDescription}`;
+
+const App: React.FC<{ repository: Repository }> = ({ repository }) => {
   // Landing -> Auth flow
   const [showAuth, setShowAuth] = useState(false);
 
@@ -264,26 +432,45 @@ const App: React.FC = () => {
   const [journalPlans, setJournalPlans] = useState<JournalPlan[]>([]);
   // NEW: Store user specific settings like ignored markers
   const [ignoredMarkers, setIgnoredMarkers] = useState<Set<string>>(new Set());
+  // Personal target ranges per marker id (user_marker_settings.target_min/target_max)
+  const [markerGoals, setMarkerGoals] = useState<Record<string, MarkerGoal>>({});
   
   // NEW: Stats History
   const [statsHistory, setStatsHistory] = useState<StatsHistoryEntry[]>([]);
+  const [areaScoresSupported, setAreaScoresSupported] = useState(true);
+
+  // Sex/age-specific reference ranges + the profile they are resolved against
+  const [referenceRanges, setReferenceRanges] = useState<ReferenceRange[]>([]);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  // Admins also see other users' private markers, kept apart so they never reach the dashboard
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [reviewMarkers, setReviewMarkers] = useState<BloodMarker[]>([]);
+
+  // Advice library (public.advice); null until loaded or when the table is missing
+  const [adviceLibrary, setAdviceLibrary] = useState<Advice[] | null>(null);
 
   const [loadingData, setLoadingData] = useState(false);
   const [dataError, setDataError] = useState<string | null>(null);
+  // Migration files the database has not recorded (schemaVersion.ts), checked once per sign-in
+  const [missingMigrations, setMissingMigrations] = useState<string[]>([]);
+  // Offline cache and outbox state; null for backends without one
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  // User whose data is in state, so the cached copy is only shown before the first load
+  const loadedUserId = useRef<string | null>(null);
 
   // UX
   const [query, setQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('attention'); // Default to attention
   const [sortMode, setSortMode] = useState<SortMode>('attention');
+  const [groupMode, setGroupMode] = useState<GroupMode>('category');
   const searchRef = useRef<HTMLInputElement | null>(null);
 
   // Auth init
   useEffect(() => {
     const initSession = async () => {
       try {
-        const { data, error } = await supabase.auth.getSession();
-        if (error) throw error;
-        setSession(data.session ?? null);
+        setSession(await repository.getSession());
       } catch (err) {
         console.warn('Supabase init warning:', err);
       } finally {
@@ -293,13 +480,11 @@ const App: React.FC = () => {
 
     initSession();
 
-    const { data } = supabase.auth.onAuthStateChange((_event, s) => {
+    return repository.onAuthStateChange((s) => {
       setSession(s);
       if (s) setShowAuth(false);
     });
-
-    return () => data.subscription.unsubscribe();
-  }, []);
+  }, [repository]);
 
   // Cmd/Ctrl + K => search
   useEffect(() => {
@@ -320,193 +505,42 @@ const App: React.FC = () => {
     setDataError(null);
 
     const userId = session.user.id;
-    const missing: string[] = [];
+
+    const applyUserData = (data: UserData) => {
+      setDbCapabilities({ markerNotes: data.notes !== null, todos: data.todos !== null, journal: data.plans !== null });
+
+      // Admins also get other users' private markers; those only go to the review list
+      setBloodMarkers(data.markers.filter((m) => !m.ownerId || m.ownerId === userId));
+      setReviewMarkers(data.markers.filter((m) => m.ownerId && m.ownerId !== userId));
+      setIsAdmin(data.isAdmin);
+      setAdviceLibrary(data.advice);
+      setMeasurements(data.measurements);
+      setMarkerNotes(data.notes ?? []);
+      setTodos(data.todos ?? []);
+      setJournalPlans(data.plans ?? []);
+      setIgnoredMarkers(new Set(data.ignoredMarkerIds));
+      setMarkerGoals(data.markerGoals);
+      setStatsHistory(data.statsHistory);
+      setReferenceRanges(data.referenceRanges);
+      setProfile(data.profile);
+      loadedUserId.current = userId;
+    };
 
     try {
-      const [
-          markersRes, 
-          measurementsRes, 
-          notesRes, 
-          todosRes, 
-          journalRes, 
-          settingsRes, 
-          historyRes // NEW
-      ] = await Promise.all([
-        supabase.from('blood_markers').select('*'),
-        supabase.from('measurements').select('*').eq('user_id', userId).order('measured_at', { ascending: false }),
-        supabase.from('marker_notes').select('*').eq('user_id', userId).order('created_at', { ascending: false }),
-        supabase.from('measurement_todos').select('*').eq('user_id', userId).order('created_at', { ascending: true }),
-        // We fetch plans ordered by updated_at to easily determine the "Active" one
-        supabase.from('journal_entries').select('*').eq('user_id', userId).order('updated_at', { ascending: false }),
-        supabase.from('user_marker_settings').select('*').eq('user_id', userId),
-        supabase.from('user_stats_history').select('*').eq('user_id', userId).order('log_date', { ascending: true }) // NEW
-      ]);
-
-      if (markersRes.error) throw markersRes.error;
-      if (measurementsRes.error) throw measurementsRes.error;
-
-      const notesOk = !notesRes.error;
-      const todosOk = !todosRes.error;
-      const journalOk = !journalRes.error;
-      const settingsOk = !settingsRes.error;
-      const historyOk = !historyRes.error;
-
-      setDbCapabilities({ markerNotes: notesOk, todos: todosOk, journal: journalOk });
-
-      if (notesRes.error) missing.push(`marker_notes (${notesRes.error.message})`);
-      if (todosRes.error) missing.push(`measurement_todos (${todosRes.error.message})`);
-      // Journal table might be missing entirely if migration not run, suppress error if so for now but track it
-      if (journalRes.error) {
-        console.warn("Journal table missing:", journalRes.error.message);
-        missing.push(`journal_entries (${journalRes.error.message})`);
-      }
-      if (historyRes.error) console.warn("History table missing:", historyRes.error.message);
-
-      const markersData = markersRes.data ?? [];
-      const measureData = measurementsRes.data ?? [];
-      const notesData = notesOk ? (notesRes.data ?? []) : [];
-      const todosData = todosOk ? (todosRes.data ?? []) : [];
-      const journalData = journalOk ? (journalRes.data ?? []) : [];
-      const settingsData = settingsOk ? (settingsRes.data ?? []) : [];
-      const historyData = historyOk ? (historyRes.data ?? []) : [];
-
-      // Fetch journal relations only for the user's plans
-      const journalIds = journalData.map((j: any) => j.id).filter(Boolean);
-      let journalMarkersRes = { data: [], error: null as any };
-      let goalsRes = { data: [], error: null as any };
-      if (journalIds.length > 0) {
-        [journalMarkersRes, goalsRes] = await Promise.all([
-          supabase.from('journal_entry_markers').select('*').in('journal_id', journalIds),
-          supabase.from('journal_goals').select('*').in('journal_id', journalIds),
-        ]);
+      // The cached copy renders at once (and is all there is offline); the fresh load replaces it
+      if (loadedUserId.current !== userId) {
+        const cached = await repository.loadCachedUserData?.(userId);
+        if (cached) applyUserData(cached);
       }
 
-      const journalMarkersOk = !journalMarkersRes.error;
-      const goalsOk = !goalsRes.error;
-
-      if (journalMarkersRes.error) missing.push(`journal_entry_markers (${journalMarkersRes.error.message})`);
-      if (goalsRes.error) missing.push(`journal_goals (${goalsRes.error.message})`);
-
-      const journalMarkersData = journalMarkersOk ? (journalMarkersRes.data ?? []) : [];
-      const goalsData = goalsOk ? (goalsRes.data ?? []) : [];
-
-      const mappedMarkers: BloodMarker[] = markersData.map((m: any) => {
-        const minRef = safeFloat(m.min_ref);
-        const maxRef = safeFloat(m.max_ref);
-        const displayMinRaw = safeFloat(m.display_min);
-        const displayMaxRaw = safeFloat(m.display_max);
-
-        const displayMin = displayMinRaw > 0 
-           ? displayMinRaw 
-           : (minRef > 0 ? minRef * 0.5 : maxRef > 0 ? maxRef * 0.1 : 0);
-
-        const displayMax = displayMaxRaw > 0
-           ? displayMaxRaw
-           : (maxRef > 0 ? maxRef * 1.5 : (minRef > 0 ? minRef * 2 : 100));
-
-        return {
-          id: m.id,
-          name: m.name,
-          shortName: m.short_name || String(m.name ?? '').substring(0, 3),
-          unit: m.unit,
-          minRef,
-          maxRef,
-          category: m.category || 'Övrigt',
-          description: m.description || 'Ingen beskrivning tillgänglig.',
-          displayMin,
-          displayMax,
-          recommendationLow: m.recommendation_low ?? undefined,
-          recommendationHigh: m.recommendation_high ?? undefined,
-          riskLow: m.risk_low ?? undefined,
-          riskHigh: m.risk_high ?? undefined,
-        };
-      });
-
-      const mappedMeasurements: Measurement[] = measureData.map((item: any) => ({
-        id: item.id,
-        markerId: item.marker_id,
-        value: safeFloat(item.value),
-        date: item.measured_at,
-        note: item.note ?? null,
-      }));
-
-      const mappedNotes: MarkerNote[] = notesData.map((n: any) => ({
-        id: n.id,
-        markerId: n.marker_id,
-        note: n.note ?? '',
-        date: n.created_at,
-      }));
-
-      const mappedTodos: MeasurementTodo[] = todosData.map((t: any) => {
-        let ids: string[] = [];
-        if (Array.isArray(t.marker_ids)) {
-            ids = t.marker_ids;
-        } else if (t.measurement_id) {
-           const m = mappedMeasurements.find(meas => meas.id === t.measurement_id);
-           if (m) ids = [m.markerId];
-        }
+      const data = await repository.loadUserData(userId);
+      applyUserData(data);
 
-        return {
-          id: t.id,
-          measurementId: t.measurement_id,
-          markerIds: ids,
-          task: t.task ?? '',
-          done: Boolean(t.is_done),
-          dueDate: t.due_date, 
-          linkedJournalId: t.linked_journal_id, // New Field
-          createdAt: t.created_at,
-          updatedAt: t.updated_at,
-        };
-      });
-
-      const mappedPlans: JournalPlan[] = journalData.map((j: any) => {
-         const linkedMarkers = journalMarkersData
-            .filter((jm: any) => jm.journal_id === j.id)
-            .map((jm: any) => jm.marker_id);
-         
-         const goals = goalsData
-            .filter((g: any) => g.journal_id === j.id)
-            .map((g: any) => ({
-                id: g.id,
-                markerId: g.marker_id,
-                direction: g.direction,
-                targetValue: g.target_value,
-                targetValueUpper: g.target_value_upper // New Mapping
-            }));
-
-         return {
-            id: j.id,
-            title: j.title || '',
-            content: j.content || '',
-            isPinned: j.is_pinned,
-            createdAt: j.created_at,
-            updatedAt: j.updated_at,
-            startDate: j.start_date, // Map from DB
-            targetDate: j.target_date, // Map from DB
-            linkedMarkerIds: linkedMarkers,
-            goals: goals
-         }
-      });
-
-      // Parse settings
-      const ignored = new Set<string>();
-      settingsData.forEach((s: any) => {
-          if (s.is_ignored) ignored.add(s.marker_id);
-      });
-
-      setBloodMarkers(mappedMarkers);
-      setMeasurements(mappedMeasurements);
-      setMarkerNotes(mappedNotes);
-      setTodos(mappedTodos);
-      setJournalPlans(mappedPlans);
-      setIgnoredMarkers(ignored);
-      setStatsHistory(historyData); // Set History
-
-      if (missing.length) {
+      if (data.missing.length) {
         setDataError(
           'DB saknar tabeller/policies för vissa funktioner.\n' +
             'Kör SQL-migrationen och kontrollera RLS-policies.\n\n' +
-            missing.join('\n'),
+            data.missing.join('\n'),
         );
       } else {
         setDataError(null);
@@ -520,39 +554,153 @@ const App: React.FC = () => {
     } finally {
       setLoadingData(false);
     }
-  }, [session?.user?.id]);
+  }, [session?.user?.id, repository]);
 
   useEffect(() => {
     if (session?.user) fetchData();
   }, [session?.user?.id, fetchData]);
 
+  useEffect(() => {
+    if (!session?.user) return;
+    let cancelled = false;
+    repository
+      .missingMigrations()
+      .then((files) => {
+        if (!cancelled) setMissingMigrations(files);
+      })
+      .catch((err) => console.warn('Schema version check failed:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [session?.user?.id, repository]);
+
+  useEffect(() => repository.onSyncStatusChange?.(setSyncStatus), [repository]);
+
+  // Queued writes the server refused on replay; the data has already been reloaded
+  useEffect(() => {
+    const conflicts = syncStatus?.conflicts ?? [];
+    if (conflicts.length === 0) return;
+    showToast(
+      {
+        type: 'error',
+        title: conflicts.length === 1 ? 'En ändring kunde inte synkas' : `${conflicts.length} ändringar kunde inte synkas`,
+        message: conflicts.map((c) => `${c.label}: ${c.reason}`).join('\n'),
+      },
+      9000,
+    );
+  }, [syncStatus?.conflicts, showToast]);
+
+  // Applies one changed row to local state: realtime events and the rows returned by our own writes.
+  // Both arrive for the same write, so every branch is idempotent.
+  const applyChange = useCallback(
+    (change: DataChange) => {
+      switch (change.table) {
+        case '*':
+          fetchData();
+          return;
+        case 'measurements':
+          setMeasurements((prev) =>
+            change.type === 'delete' ? removeRow(prev, change.id) : upsertRow(prev, change.row, newestMeasurementFirst),
+          );
+          return;
+        case 'notes':
+          setMarkerNotes((prev) =>
+            change.type === 'delete' ? removeRow(prev, change.id) : upsertRow(prev, change.row, newestNoteFirst),
+          );
+          return;
+        case 'todos':
+          setTodos((prev) => {
+            if (change.type === 'delete') return removeRow(prev, change.id);
+            // Old todos only point at a measurement; keep the marker ids resolved on load
+            const row = change.row;
+            const markerIds =
+              row.markerIds.length === 0 && row.measurementId ? prev.find((t) => t.id === row.id)?.markerIds ?? [] : row.markerIds;
+            return upsertRow(prev, { ...row, markerIds }, oldestTodoFirst);
+          });
+          return;
+        case 'plans':
+        case 'planMarkers':
+        case 'planGoals':
+          setJournalPlans((prev) => applyPlanChange(prev, change));
+          if (change.table === 'plans' && change.type === 'delete') setTodos((prev) => unlinkTodos(prev, change.id));
+          return;
+        case 'markerSettings': {
+          const { markerId } = change;
+          const goal = change.type === 'upsert' ? change.goal : null;
+          setIgnoredMarkers((prev) => {
+            const next = new Set(prev);
+            if (change.type === 'upsert' && change.isIgnored) next.add(markerId);
+            else next.delete(markerId);
+            return next;
+          });
+          setMarkerGoals((prev) => {
+            const next = { ...prev };
+            if (goal) next[markerId] = goal;
+            else delete next[markerId];
+            return next;
+          });
+          return;
+        }
+        case 'statsHistory':
+          setStatsHistory((prev) =>
+            [...prev.filter((h) => h.log_date !== change.row.log_date), change.row].sort((a, b) => a.log_date.localeCompare(b.log_date)),
+          );
+          return;
+        case 'profile':
+          setProfile(change.row);
+          return;
+        case 'markers': {
+          if (change.type === 'delete') {
+            setBloodMarkers((prev) => removeRow(prev, change.id));
+            setReviewMarkers((prev) => removeRow(prev, change.id));
+            return;
+          }
+          // Same split as fetchData: other users' private markers only go to the review list
+          const row = change.row;
+          const visible = !row.ownerId || row.ownerId === session?.user?.id;
+          setBloodMarkers((prev) => (visible ? upsertRow(prev, row) : removeRow(prev, row.id)));
+          setReviewMarkers((prev) => (visible ? removeRow(prev, row.id) : upsertRow(prev, row)));
+          return;
+        }
+        case 'advice':
+          setAdviceLibrary((prev) =>
+            prev && (change.type === 'delete' ? removeRow(prev, change.id) : upsertRow(prev, change.row, (a, b) => a.sortOrder - b.sortOrder)),
+          );
+          return;
+      }
+    },
+    [session?.user?.id, fetchData],
+  );
+
   // Realtime sync
   useEffect(() => {
     if (!session?.user) return;
-    const userId = session.user.id;
+    return repository.subscribe(session.user.id, applyChange);
+  }, [session?.user?.id, applyChange, repository]);
 
-    const channel = supabase
-      .channel(`hj:realtime:${userId}`)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'measurements', filter: `user_id=eq.${userId}` }, fetchData)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'marker_notes', filter: `user_id=eq.${userId}` }, fetchData)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'measurement_todos', filter: `user_id=eq.${userId}` }, fetchData)
-      // Listen to journal table too if possible
-      .subscribe();
+  // Values of calculated markers (non-HDL, eGFR, ...); read-only, never written back
+  const derivedMeasurements = useMemo(
+    () => computeDerivedMeasurements(bloodMarkers, measurements, profile),
+    [bloodMarkers, measurements, profile],
+  );
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [session?.user?.id, fetchData]);
+  const allMeasurements = useMemo(
+    () => (derivedMeasurements.length > 0 ? [...measurements, ...derivedMeasurements] : measurements),
+    [measurements, derivedMeasurements],
+  );
+
+  // Calculated markers can't be entered or imported
+  const measurableMarkers = useMemo(() => bloodMarkers.filter((m) => !m.formula), [bloodMarkers]);
 
   const measurementsByMarkerId = useMemo(() => {
     const map = new Map<string, Measurement[]>();
-    for (const m of measurements) {
+    for (const m of allMeasurements) {
       const arr = map.get(m.markerId);
       if (arr) arr.push(m);
       else map.set(m.markerId, [m]);
     }
     return map;
-  }, [measurements]);
+  }, [allMeasurements]);
 
   const notesByMarkerId = useMemo(() => {
     const map = new Map<string, MarkerNote[]>();
@@ -564,6 +712,17 @@ const App: React.FC = () => {
     return map;
   }, [markerNotes]);
 
+  const measurementRanges = useMemo(() => {
+    const markersById = new Map<string, BloodMarker>(bloodMarkers.map((m) => [m.id, m]));
+    const rangesByMarkerId = new Map<string, ReferenceRange[]>();
+    for (const r of referenceRanges) {
+      const arr = rangesByMarkerId.get(r.markerId);
+      if (arr) arr.push(r);
+      else rangesByMarkerId.set(r.markerId, [r]);
+    }
+    return resolveMeasurementRanges(allMeasurements, markersById, rangesByMarkerId, profile);
+  }, [allMeasurements, bloodMarkers, referenceRanges, profile]);
+
   const dashboardData: MarkerHistory[] = useMemo(() => {
     if (bloodMarkers.length === 0) return [];
 
@@ -581,19 +740,28 @@ const App: React.FC = () => {
 
       const markerNotesList = [...(notesByMarkerId.get(marker.id) ?? [])].sort((a, b) => ts(b.date) - ts(a.date));
 
+      // The card shows the range that applies to the user today (i.e. at the latest measurement)
+      const latestRange = measurementRanges[latest.id] ?? { minRef: marker.minRef, maxRef: marker.maxRef };
+
       out.push({
         ...marker,
+        minRef: latestRange.minRef,
+        maxRef: latestRange.maxRef,
+        rangeLabel: latestRange.label,
+        measurementRanges,
         measurements: markerMeasurements,
         notes: markerNotesList,
         latestMeasurement: latest,
-        status: latest ? getStatus(latest.value, marker.minRef, marker.maxRef) : 'normal',
+        status: getStatus(latest.value, latestRange.minRef, latestRange.maxRef),
+        severity: getSeverity(latest.value, latestRange.minRef, latestRange.maxRef, marker),
+        goal: markerGoals[marker.id],
         isIgnored: ignoredMarkers.has(marker.id),
         hasActivePlan: activePlanIds.includes(marker.id) // Check linkage
       });
     }
 
     return out;
-  }, [bloodMarkers, measurementsByMarkerId, notesByMarkerId, ignoredMarkers, journalPlans]);
+  }, [bloodMarkers, measurementsByMarkerId, notesByMarkerId, ignoredMarkers, markerGoals, journalPlans, measurementRanges]);
 
   const activeTodos = useMemo(() => todos.filter(t => !t.done), [todos]);
 
@@ -649,8 +817,8 @@ const App: React.FC = () => {
         const prev = historyAsc[i - 1];
         const curr = historyAsc[i];
 
-        const prevStatus = getStatus(prev.value, marker.minRef, marker.maxRef);
-        const currStatus = getStatus(curr.value, marker.minRef, marker.maxRef);
+        const prevStatus = getMeasurementStatus(marker, prev);
+        const currStatus = getMeasurementStatus(marker, curr);
 
         if (prevStatus !== 'normal' && currStatus === 'normal') {
           optimizedEvents.push({
@@ -671,6 +839,8 @@ const App: React.FC = () => {
     
     attentionMarkers.sort((a, b) => {
         if (a.isIgnored !== b.isIgnored) return a.isIgnored ? 1 : -1;
+        const s = severityRank(a.severity) - severityRank(b.severity);
+        if (s !== 0) return s;
         return a.name.localeCompare(b.name);
     });
 
@@ -679,11 +849,15 @@ const App: React.FC = () => {
         activeTodos.some(todo => todo.markerIds.includes(marker.id))
     ).length;
 
+    const score = computeHealthScore(dashboardData);
+
     return { 
       optimizedEvents, 
       attentionMarkers, 
       normalCount, 
       totalCount: dashboardData.length,
+      healthScore: score.score,
+      areaScores: score.areas,
       coveredAttentionCount
     };
   }, [dashboardData, activeTodos]);
@@ -693,6 +867,14 @@ const App: React.FC = () => {
     [dashboardData, selectedMarkerId],
   );
 
+  const goalStats = useMemo(
+    () => ({
+      withGoal: dashboardData.filter((m) => m.goal).length,
+      offTarget: dashboardData.filter(isOffTarget).length,
+    }),
+    [dashboardData],
+  );
+
   const filteredDashboardData = useMemo(() => {
     const q = query.trim().toLowerCase();
 
@@ -708,7 +890,9 @@ const App: React.FC = () => {
         ? byQuery
         : statusFilter === 'attention'
           ? byQuery.filter((m) => m.status !== 'normal' || m.isIgnored) // Include ignored here so we can see them in attention list
-          : byQuery.filter((m) => m.status === 'normal' && !m.isIgnored);
+          : statusFilter === 'offTarget'
+            ? byQuery.filter(isOffTarget)
+            : byQuery.filter((m) => m.status === 'normal' && !m.isIgnored);
 
     const sorted = [...byStatus];
 
@@ -721,8 +905,13 @@ const App: React.FC = () => {
         // ALWAYS put ignored markers at the bottom regardless of rank, unless filtering specifically
         if (a.isIgnored !== b.isIgnored) return a.isIgnored ? 1 : -1;
 
-        const s = statusRank(a.status) - statusRank(b.status);
+        const s = severityRank(a.severity) - severityRank(b.severity);
         if (s !== 0) return s;
+        // Within a grade, the value furthest outside its range first
+        const dev =
+          relativeDeviation(b.latestMeasurement?.value ?? 0, b.minRef, b.maxRef) -
+          relativeDeviation(a.latestMeasurement?.value ?? 0, a.minRef, a.maxRef);
+        if (dev !== 0) return dev;
         const rec = ts(b.latestMeasurement?.date) - ts(a.latestMeasurement?.date);
         if (rec !== 0) return rec;
         return a.name.localeCompare(b.name, 'sv');
@@ -754,12 +943,58 @@ const App: React.FC = () => {
     return entries;
   }, [filteredDashboardData]);
 
+  // Same as groupedData, but per focus area and in FOCUS_AREAS order
+  const focusAreaGroups = useMemo(() => {
+    const map = new Map<FocusAreaId, MarkerHistory[]>();
+    filteredDashboardData.forEach((m) => {
+      getFocusAreasForMarker(m).forEach((id) => {
+        const arr = map.get(id) ?? [];
+        arr.push(m);
+        map.set(id, arr);
+      });
+    });
+    return FOCUS_AREAS.filter((a) => map.has(a.id)).map((a) => ({ areaId: a.id, markers: map.get(a.id)! }));
+  }, [filteredDashboardData]);
+
+  // One advice per focus area with deviating markers, tagged with the markers behind it
+  const actionableTodos = useMemo<ActionableTodo[]>(() => {
+    const map = new Map<FocusAreaId, MarkerHistory[]>();
+    dashboardData.forEach((m) => {
+      if (m.status === 'normal' || m.isIgnored) return;
+      getFocusAreasForMarker(m).forEach((id) => {
+        const arr = map.get(id) ?? [];
+        arr.push(m);
+        map.set(id, arr);
+      });
+    });
+    const todos: ActionableTodo[] = [];
+    FOCUS_AREAS.forEach((a) => {
+      const markers = map.get(a.id);
+      if (!markers) return;
+      // Direction-specific advice only when all deviations in the area point the same way
+      const directions = new Set(markers.map((m) => m.status));
+      const direction = directions.size === 1 && !directions.has('normal') ? (markers[0].status as 'low' | 'high') : undefined;
+      const advice = adviceForFocusArea(adviceLibrary ?? [], a.id, direction)[0];
+      if (!advice) return;
+      todos.push({
+        systemId: a.id,
+        systemName: a.title,
+        systemEmoji: a.emoji,
+        actionTitle: advice.title,
+        actionDescription: advice.description,
+        triggeredBy: markers.map((m) => m.id),
+      });
+    });
+    return todos;
+  }, [dashboardData, adviceLibrary]);
+
   // --- AUTOMATIC HISTORY UPDATE (Sync current stats to DB) ---
   useEffect(() => {
     if (!session?.user || stats.totalCount === 0 || loadingData) return;
 
     const updateHistory = async () => {
-       const currentScore = Math.round((stats.normalCount / stats.totalCount) * 100);
+       const currentScore = stats.healthScore;
+       const areaScores = toAreaScores(stats.areaScores);
        const today = new Date();
        const logDate = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-01`;
 
@@ -768,32 +1003,35 @@ const App: React.FC = () => {
        // 2. Is the score different?
        const existingEntry = statsHistory.find(h => h.log_date === logDate);
        
-       if (!existingEntry || existingEntry.score !== currentScore || existingEntry.total_markers !== stats.totalCount) {
+       if (
+          !existingEntry ||
+          existingEntry.score !== currentScore ||
+          existingEntry.total_markers !== stats.totalCount ||
+          (areaScoresSupported && !sameAreaScores(existingEntry.area_scores, areaScores))
+       ) {
+          const entry = {
+             log_date: logDate,
+             score: currentScore,
+             total_markers: stats.totalCount
+          };
           try {
-             const { error } = await supabase.from('user_stats_history').upsert({
-                user_id: session.user.id,
-                log_date: logDate,
-                score: currentScore,
-                total_markers: stats.totalCount
-             }, { onConflict: 'user_id, log_date' });
-
-             if (error) {
-                // If table doesn't exist yet, suppress error silently or log warn
-                if (error.code !== '42P01') console.warn("Failed to sync stats history", error);
-             } else {
-                 // Refresh history locally without full refetch if possible, or just refetch
-                 // Simple refetch of history table
-                 const { data } = await supabase.from('user_stats_history').select('*').eq('user_id', session.user.id).order('log_date', { ascending: true });
-                 if(data) setStatsHistory(data);
+             try {
+                setStatsHistory(await repository.saveStatsHistory(session.user.id, areaScoresSupported ? { ...entry, area_scores: areaScores } : entry));
+             } catch (err) {
+                // area_scores needs 0011_focus_area_scores.sql; keep syncing the total without it
+                if (!(err instanceof RepositoryError) || (err.code !== '42703' && err.code !== 'PGRST204')) throw err;
+                setAreaScoresSupported(false);
+                setStatsHistory(await repository.saveStatsHistory(session.user.id, entry));
              }
-          } catch(e) {
-             console.warn(e);
+          } catch (err) {
+             // If table doesn't exist yet, suppress error silently or log warn
+             if (!(err instanceof RepositoryError) || err.code !== '42P01') console.warn("Failed to sync stats history", err);
           }
        }
     };
 
     updateHistory();
-  }, [session?.user, stats.totalCount, stats.normalCount, statsHistory, loadingData]);
+  }, [session?.user, stats.totalCount, stats.healthScore, stats.areaScores, statsHistory, loadingData, areaScoresSupported, repository]);
 
   // Open Optimized Modal (no more tracking "seen")
   const handleOpenOptimizedEvents = () => {
@@ -844,15 +1082,7 @@ const App: React.FC = () => {
     const newValue = !isCurrentlyIgnored;
 
     try {
-        const { error } = await supabase
-            .from('user_marker_settings')
-            .upsert({ 
-                user_id: session.user.id, 
-                marker_id: markerId, 
-                is_ignored: newValue 
-            }, { onConflict: 'user_id, marker_id' });
-        
-        if (error) throw error;
+        await repository.saveMarkerSettings(session.user.id, markerId, { isIgnored: newValue });
         
         // Optimistic update / refresh
         const next = new Set(ignoredMarkers);
@@ -874,29 +1104,195 @@ const App: React.FC = () => {
              showToast({ type: 'error', title: 'Fel', message: 'Kunde inte ändra inställning.' });
         }
     }
-  }, [session?.user, ignoredMarkers, showToast]);
+  }, [session?.user, ignoredMarkers, showToast, repository]);
+
+  // null clears the target
+  const handleSaveMarkerGoal = useCallback(
+    async (markerId: string, goal: MarkerGoal | null) => {
+      if (!session?.user) return;
+      try {
+        await repository.saveMarkerSettings(session.user.id, markerId, { goal });
+
+        setMarkerGoals((prev) => {
+          const next = { ...prev };
+          if (goal) next[markerId] = goal;
+          else delete next[markerId];
+          return next;
+        });
+        showToast({ type: 'success', title: goal ? 'Mål sparat' : 'Mål borttaget' });
+      } catch (err: any) {
+        console.error('Error saving target range:', err);
+        if (err?.code === '42703' || err?.code === 'PGRST204') {
+          showToast({ type: 'error', title: 'Funktionen saknas', message: 'Kör migrationen 0009_personal_targets.sql.' });
+        } else {
+          showToast({ type: 'error', title: 'Kunde inte spara målet', message: humanizeSupabaseError(err) });
+        }
+        throw err;
+      }
+    },
+    [session?.user, showToast, repository],
+  );
+
+  const handleSaveProfile = useCallback(
+    async (next: UserProfile) => {
+      if (!session?.user) return;
+
+      try {
+        await repository.saveProfile(session.user.id, next);
+
+        setProfile({ birthDate: next.birthDate || null, sex: next.sex || null });
+        showToast({ type: 'success', title: 'Profil sparad', message: 'Referensintervallen anpassas efter din profil.' });
+      } catch (err) {
+        console.error('Error saving profile:', err);
+        showToast({ type: 'error', title: 'Kunde inte spara profilen', message: humanizeSupabaseError(err) });
+        throw err;
+      }
+    },
+    [session?.user, showToast, repository],
+  );
 
   // -----------------------------
   // Writes (DB-only)
   // -----------------------------
   // ... (Other handlers unchanged) ...
+  // Converts a reading into the marker's unit before it is written
+  const convertForSave = useCallback(
+    (markerId: string, value: number, unit?: string) => {
+      const marker = bloodMarkers.find((m) => m.id === markerId);
+      if (!marker) {
+        return { value, originalValue: null, originalUnit: null, convertBound: (b?: number | null) => b ?? null };
+      }
+
+      const converted = toMarkerUnit(value, unit, marker);
+      if (!converted) {
+        throw new Error(`Kan inte räkna om ${unit} till ${marker.unit} för ${marker.name}.`);
+      }
+      // Lab reference bounds are printed in the same unit as the value
+      const convertBound = (b?: number | null) =>
+        b == null || !Number.isFinite(b) ? null : (toMarkerUnit(b, unit, marker)?.value ?? null);
+
+      return { ...converted, convertBound };
+    },
+    [bloodMarkers],
+  );
+
+  const handleCreateCustomMarker = useCallback(
+    async (input: CustomMarkerInput): Promise<string> => {
+      if (!session?.user) throw new Error('No user');
+
+      try {
+        const marker = await repository.createMarker(session.user.id, input);
+
+        applyChange({ table: 'markers', type: 'upsert', row: marker });
+        showToast({ type: 'success', title: 'Markör skapad', message: `${input.name} syns bara för dig.` });
+        return marker.id;
+      } catch (err) {
+        console.error('Error creating marker:', err);
+        showToast({ type: 'error', title: 'Kunde inte skapa markören', message: humanizeSupabaseError(err) });
+        throw err;
+      }
+    },
+    [session?.user, applyChange, showToast, repository],
+  );
+
+  const handleDeleteCustomMarker = useCallback(
+    async (markerId: string) => {
+      if (!session?.user) return;
+
+      // Measurements would block the delete; notes, plan links and goals would go with it (on delete
+      // cascade) and todos would keep a dangling id in marker_ids, so all of them have to go first
+      const uses = [
+        measurements.some((m) => m.markerId === markerId) && 'mätningar',
+        markerNotes.some((n) => n.markerId === markerId) && 'anteckningar',
+        journalPlans.some((p) => p.linkedMarkerIds.includes(markerId) || (p.goals ?? []).some((g) => g.markerId === markerId)) &&
+          'planer och mål',
+        todos.some((t) => t.markerIds.includes(markerId)) && 'att göra-punkter',
+      ].filter((use): use is string => Boolean(use));
+      if (uses.length > 0) {
+        const list = uses.length > 1 ? `${uses.slice(0, -1).join(', ')} och ${uses[uses.length - 1]}` : uses[0];
+        showToast({ type: 'error', title: 'Markören används', message: `Ta bort eller ändra markörens ${list} först.` });
+        return;
+      }
+
+      try {
+        await repository.deleteMarker(session.user.id, markerId);
+
+        applyChange({ table: 'markers', type: 'delete', id: markerId });
+        showToast({ type: 'success', title: 'Markör borttagen' });
+      } catch (err) {
+        console.error('Error deleting marker:', err);
+        showToast({ type: 'error', title: 'Kunde inte ta bort markören', message: humanizeSupabaseError(err) });
+      }
+    },
+    [session?.user, measurements, markerNotes, journalPlans, todos, applyChange, showToast, repository],
+  );
+
+  const handlePromoteMarker = useCallback(
+    async (markerId: string) => {
+      if (!session?.user) return;
+      try {
+        await repository.promoteMarker(markerId);
+
+        const promoted = [...reviewMarkers, ...bloodMarkers].find((m) => m.id === markerId);
+        if (promoted) applyChange({ table: 'markers', type: 'upsert', row: { ...promoted, ownerId: null } });
+        showToast({ type: 'success', title: 'Tillagd i katalogen', message: 'Markören är nu synlig för alla.' });
+      } catch (err) {
+        console.error('Error promoting marker:', err);
+        showToast({ type: 'error', title: 'Kunde inte flytta markören', message: humanizeSupabaseError(err) });
+      }
+    },
+    [session?.user, bloodMarkers, reviewMarkers, applyChange, showToast, repository],
+  );
+
+  const handleSaveAdvice = useCallback(
+    async (input: AdviceInput, adviceId?: string) => {
+      if (!session?.user) return;
+      try {
+        const saved = await repository.saveAdvice(input, adviceId);
+
+        applyChange({ table: 'advice', type: 'upsert', row: saved });
+        showToast({ type: 'success', title: 'Rådet är sparat' });
+      } catch (err) {
+        console.error('Error saving advice:', err);
+        showToast({ type: 'error', title: 'Kunde inte spara rådet', message: humanizeSupabaseError(err) });
+        throw err;
+      }
+    },
+    [session?.user, applyChange, showToast, repository],
+  );
+
+  const handleDeleteAdvice = useCallback(
+    async (adviceId: string) => {
+      if (!session?.user) return;
+      try {
+        await repository.deleteAdvice(adviceId);
+
+        applyChange({ table: 'advice', type: 'delete', id: adviceId });
+        showToast({ type: 'success', title: 'Rådet är borttaget' });
+      } catch (err) {
+        console.error('Error deleting advice:', err);
+        showToast({ type: 'error', title: 'Kunde inte ta bort rådet', message: humanizeSupabaseError(err) });
+      }
+    },
+    [session?.user, applyChange, showToast, repository],
+  );
+
   const handleSaveMeasurement = useCallback(
-    async (markerId: string, value: number, date: string, note?: string) => {
+    async (markerId: string, value: number, date: string, note?: string, unit?: string) => {
       if (!session?.user) return;
 
       try {
-        const payload: any = {
-          user_id: session.user.id,
-          marker_id: markerId,
-          value,
-          measured_at: date,
+        const converted = convertForSave(markerId, value, unit);
+        const saved = await repository.addMeasurements(session.user.id, [{
+          markerId,
+          value: converted.value,
+          originalValue: converted.originalValue,
+          originalUnit: converted.originalUnit,
+          date,
           note: note?.trim() ? note.trim() : null,
-        };
-
-        const { error } = await supabase.from('measurements').insert([payload]);
-        if (error) throw error;
+        }]);
 
-        await fetchData();
+        saved.forEach((row) => applyChange({ table: 'measurements', type: 'upsert', row }));
         showToast({ type: 'success', title: 'Sparat', message: 'Mätningen är sparad.' });
       } catch (err) {
         console.error('Error saving measurement:', err);
@@ -904,7 +1300,7 @@ const App: React.FC = () => {
         throw err;
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, applyChange, showToast, convertForSave, repository],
   );
 
   const handleDeleteMeasurement = useCallback(
@@ -912,14 +1308,8 @@ const App: React.FC = () => {
       if (!session?.user) return;
 
       try {
-        const { error } = await supabase
-          .from('measurements')
-          .delete()
-          .eq('id', measurementId)
-          .eq('user_id', session.user.id);
-
-        if (error) throw error;
-        await fetchData();
+        await repository.deleteMeasurement(session.user.id, measurementId);
+        applyChange({ table: 'measurements', type: 'delete', id: measurementId });
         showToast({ type: 'success', title: 'Borttaget', message: 'Mätningen togs bort.' });
       } catch (err) {
         console.error('Error deleting measurement:', err);
@@ -927,7 +1317,7 @@ const App: React.FC = () => {
         throw err;
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, applyChange, showToast, repository],
   );
 
   const handleUpdateMeasurement = useCallback(
@@ -935,14 +1325,16 @@ const App: React.FC = () => {
       if (!session?.user) return;
 
       try {
-        const { error } = await supabase
-          .from('measurements')
-          .update({ value: value, measured_at: date })
-          .eq('id', measurementId)
-          .eq('user_id', session.user.id);
+        // Edits are made in the marker's unit, so a changed value no longer matches the lab original
+        const existing = measurements.find((m) => m.id === measurementId);
+        const patch: MeasurementPatch = { value, date };
+        if (existing && existing.value !== value) {
+          patch.originalValue = null;
+          patch.originalUnit = null;
+        }
 
-        if (error) throw error;
-        await fetchData();
+        const saved = await repository.updateMeasurement(session.user.id, measurementId, patch);
+        applyChange({ table: 'measurements', type: 'upsert', row: saved });
         showToast({ type: 'success', title: 'Uppdaterat', message: 'Mätningen är uppdaterad.' });
       } catch (err) {
         console.error('Error updating measurement:', err);
@@ -950,35 +1342,80 @@ const App: React.FC = () => {
         throw err;
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, measurements, applyChange, showToast, repository],
   );
 
   const handleBulkSaveMeasurements = useCallback(
-    async (items: Array<{ markerId: string; value: number; date: string }>) => {
+    async (
+      items: Array<{
+        markerId: string;
+        value: number;
+        date: string;
+        unit?: string;
+        labMinRef?: number | null;
+        labMaxRef?: number | null;
+        labName?: string | null;
+        replaceId?: string | null;
+        source: ImportSource;
+      }>,
+    ) => {
       if (!session?.user) return;
       if (items.length === 0) return;
 
+      // Rows already inserted when a later step fails, so the error can say what was kept
+      let added: Measurement[] = [];
       try {
-        const payload = items.map((item) => ({
-          user_id: session.user.id,
-          marker_id: item.markerId,
-          value: item.value,
-          measured_at: item.date,
-          note: 'Importerat via AI',
-        }));
+        const rows = items.map((item) => {
+          const converted = convertForSave(item.markerId, item.value, item.unit);
+          return {
+            replaceId: item.replaceId ?? null,
+            row: {
+              markerId: item.markerId,
+              value: converted.value,
+              originalValue: converted.originalValue,
+              originalUnit: converted.originalUnit,
+              labMinRef: converted.convertBound(item.labMinRef),
+              labMaxRef: converted.convertBound(item.labMaxRef),
+              labName: item.labName?.trim() ? item.labName.trim() : null,
+              date: item.date,
+              note: IMPORT_NOTES[item.source],
+            } as NewMeasurement,
+          };
+        });
 
-        const { error } = await supabase.from('measurements').insert(payload);
-        if (error) throw error;
+        added = await repository.addMeasurements(session.user.id, rows.filter((r) => !r.replaceId).map((r) => r.row));
+        added.forEach((row) => applyChange({ table: 'measurements', type: 'upsert', row }));
 
-        await fetchData();
-        showToast({ type: 'success', title: 'Import klart', message: 'Mätningarna är sparade.' });
+        // Overwrites keep the existing row (and its note), only the reading changes; all or none
+        const replacements = rows
+          .filter((r) => r.replaceId)
+          .map(({ replaceId, row: { note: _note, ...reading } }) => ({ ...reading, id: replaceId as string }));
+        const replaced = await repository.replaceMeasurements(session.user.id, replacements);
+        replaced.forEach((row) => applyChange({ table: 'measurements', type: 'upsert', row }));
+        const dateCount = new Set(items.map((item) => item.date)).size;
+        showToast({
+          type: 'success',
+          title: 'Import klart',
+          message: dateCount > 1 ? `${items.length} mätningar från ${dateCount} provtillfällen är sparade.` : 'Mätningarna är sparade.',
+        });
       } catch (err) {
         console.error('Error bulk saving measurements:', err);
-        showToast({ type: 'error', title: 'Kunde inte importera', message: humanizeSupabaseError(err) });
+        if (added.length > 0) {
+          showToast(
+            {
+              type: 'error',
+              title: 'Importen sparades bara delvis',
+              message: `${added.length} nya mätningar sparades, men ingen befintlig skrevs över. ${humanizeSupabaseError(err)}`,
+            },
+            9000,
+          );
+        } else {
+          showToast({ type: 'error', title: 'Kunde inte importera', message: humanizeSupabaseError(err) });
+        }
         throw err;
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, applyChange, showToast, convertForSave, repository],
   );
 
   const handleCreateMarkerNote = useCallback(
@@ -998,12 +1435,9 @@ const App: React.FC = () => {
       if (!clean) return;
 
       try {
-        const { error } = await supabase.from('marker_notes').insert([
-          { user_id: session.user.id, marker_id: markerId, note: clean },
-        ]);
-        if (error) throw error;
+        const saved = await repository.addNote(session.user.id, markerId, clean);
 
-        await fetchData();
+        applyChange({ table: 'notes', type: 'upsert', row: saved });
         showToast({ type: 'success', title: 'Sparat', message: 'Anteckningen är sparad.' });
       } catch (err) {
         console.error('Error creating marker note:', err);
@@ -1011,7 +1445,7 @@ const App: React.FC = () => {
         throw err;
       }
     },
-    [session?.user, fetchData, showToast, dbCapabilities.markerNotes],
+    [session?.user, applyChange, showToast, dbCapabilities.markerNotes, repository],
   );
 
   const handleUpdateMarkerNote = useCallback(
@@ -1030,14 +1464,8 @@ const App: React.FC = () => {
       const clean = note.trim();
 
       try {
-        const { error } = await supabase
-          .from('marker_notes')
-          .update({ note: clean })
-          .eq('id', noteId)
-          .eq('user_id', session.user.id);
-
-        if (error) throw error;
-        await fetchData();
+        const saved = await repository.updateNote(session.user.id, noteId, clean);
+        applyChange({ table: 'notes', type: 'upsert', row: saved });
         showToast({ type: 'success', title: 'Uppdaterat', message: 'Anteckningen är uppdaterad.' });
       } catch (err) {
         console.error('Error updating marker note:', err);
@@ -1045,7 +1473,7 @@ const App: React.FC = () => {
         throw err;
       }
     },
-    [session?.user, fetchData, showToast, dbCapabilities.markerNotes],
+    [session?.user, applyChange, showToast, dbCapabilities.markerNotes, repository],
   );
 
   const handleDeleteMarkerNote = useCallback(
@@ -1062,14 +1490,8 @@ const App: React.FC = () => {
       }
 
       try {
-        const { error } = await supabase
-          .from('marker_notes')
-          .delete()
-          .eq('id', noteId)
-          .eq('user_id', session.user.id);
-
-        if (error) throw error;
-        await fetchData();
+        await repository.deleteNote(session.user.id, noteId);
+        applyChange({ table: 'notes', type: 'delete', id: noteId });
         showToast({ type: 'success', title: 'Borttaget', message: 'Anteckningen är borttagen.' });
       } catch (err) {
         console.error('Error deleting marker note:', err);
@@ -1077,7 +1499,7 @@ const App: React.FC = () => {
         throw err;
       }
     },
-    [session?.user, fetchData, showToast, dbCapabilities.markerNotes],
+    [session?.user, applyChange, showToast, dbCapabilities.markerNotes, repository],
   );
 
   const handleUpdateMeasurementNote = useCallback(
@@ -1087,14 +1509,8 @@ const App: React.FC = () => {
       const value = noteOrNull?.trim() ? noteOrNull.trim() : null;
 
       try {
-        const { error } = await supabase
-          .from('measurements')
-          .update({ note: value })
-          .eq('id', measurementId)
-          .eq('user_id', session.user.id);
-
-        if (error) throw error;
-        await fetchData();
+        const saved = await repository.updateMeasurement(session.user.id, measurementId, { note: value });
+        applyChange({ table: 'measurements', type: 'upsert', row: saved });
         showToast({ type: 'success', title: 'Sparat', message: 'Kommentaren är sparad.' });
       } catch (err) {
         console.error('Error updating measurement note:', err);
@@ -1102,7 +1518,7 @@ const App: React.FC = () => {
         throw err;
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, applyChange, showToast, repository],
   );
 
   const handleAddTodo = useCallback(
@@ -1113,62 +1529,58 @@ const App: React.FC = () => {
       if (!clean) return;
 
       try {
-        const payload: any = { 
-            user_id: session.user.id, 
-            task: clean,
-            marker_ids: [] // Default empty
-        };
-        
-        if (journalId) payload.linked_journal_id = journalId;
+        const saved = await repository.addTodo(session.user.id, { task: clean, markerIds: [], linkedJournalId: journalId });
 
-        const { error } = await supabase.from('measurement_todos').insert([payload]);
-        if (error) throw error;
-
-        await fetchData();
+        applyChange({ table: 'todos', type: 'upsert', row: saved });
         showToast({ type: 'success', title: 'Sparat', message: 'Uppgiften är sparad.' });
       } catch (err) {
         console.error('Error adding todo:', err);
         showToast({ type: 'error', title: 'Kunde inte spara', message: humanizeSupabaseError(err) });
       }
     },
-    [session?.user, fetchData, showToast, dbCapabilities.todos],
+    [session?.user, applyChange, showToast, dbCapabilities.todos, repository],
   );
 
   // Wrapper for the simpler marker-based add todo
   const handleAddTodoMarker = useCallback(async (markerId: string, task: string) => {
       if (!session?.user) return;
       try {
-        const { error } = await supabase.from('measurement_todos').insert([{
-            user_id: session.user.id,
-            task: task.trim(),
-            marker_ids: [markerId]
-        }]);
-        if (error) throw error;
-        await fetchData();
+        const saved = await repository.addTodo(session.user.id, { task: task.trim(), markerIds: [markerId] });
+        applyChange({ table: 'todos', type: 'upsert', row: saved });
         showToast({ type: 'success', title: 'Sparat', message: 'Uppgiften är sparad.' });
       } catch (err) {
           showToast({ type: 'error', title: 'Fel', message: String(err) });
       }
-  }, [session?.user, fetchData, showToast]);
+  }, [session?.user, applyChange, showToast, repository]);
+
+  // Turns a focus area advice into a real todo, tagged with the markers that triggered it
+  const handleAddActionableTodo = useCallback(
+    async (advice: ActionableTodo) => {
+      if (!session?.user) return;
+      try {
+        const saved = await repository.addTodo(session.user.id, { task: actionableTodoTask(advice), markerIds: advice.triggeredBy });
+        applyChange({ table: 'todos', type: 'upsert', row: saved });
+        showToast({ type: 'success', title: 'Tillagd i åtgärdslistan', message: advice.actionTitle });
+      } catch (err) {
+        console.error('Error adding todo from advice:', err);
+        showToast({ type: 'error', title: 'Kunde inte spara', message: humanizeSupabaseError(err) });
+      }
+    },
+    [session?.user, applyChange, showToast, repository],
+  );
 
   const handleUpdateTodoTags = useCallback(
     async (todoId: string, markerIds: string[]) => {
       if (!session?.user) return;
       try {
-         const { error } = await supabase
-           .from('measurement_todos')
-           .update({ marker_ids: markerIds })
-           .eq('id', todoId)
-           .eq('user_id', session.user.id);
-         
-         if(error) throw error;
-         await fetchData();
+         const saved = await repository.updateTodo(session.user.id, todoId, { markerIds });
+         applyChange({ table: 'todos', type: 'upsert', row: saved });
       } catch (err) {
          console.error(err);
          showToast({ type:'error', title:'Kunde inte uppdatera taggar', message: humanizeSupabaseError(err) });
       }
     },
-    [session?.user, fetchData, showToast]
+    [session?.user, applyChange, showToast, repository]
   );
 
   const handleToggleTodo = useCallback(
@@ -1176,62 +1588,44 @@ const App: React.FC = () => {
       if (!session?.user) return;
 
       try {
-        const { error } = await supabase
-          .from('measurement_todos')
-          .update({ is_done: done })
-          .eq('id', todoId)
-          .eq('user_id', session.user.id);
-
-        if (error) throw error;
-        await fetchData();
+        const saved = await repository.updateTodo(session.user.id, todoId, { done });
+        applyChange({ table: 'todos', type: 'upsert', row: saved });
       } catch (err) {
         console.error('Error toggling todo:', err);
         showToast({ type: 'error', title: 'Kunde inte uppdatera', message: humanizeSupabaseError(err) });
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, applyChange, showToast, repository],
   );
 
   const handleUpdateTodoTask = useCallback(
     async (todoId: string, task: string, dueDate: string | null) => {
       if (!session?.user) return;
       try {
-        const { error } = await supabase
-          .from('measurement_todos')
-          .update({ task: task.trim(), due_date: dueDate })
-          .eq('id', todoId)
-          .eq('user_id', session.user.id);
-
-        if (error) throw error;
-        await fetchData();
+        const saved = await repository.updateTodo(session.user.id, todoId, { task: task.trim(), dueDate });
+        applyChange({ table: 'todos', type: 'upsert', row: saved });
         showToast({ type: 'success', title: 'Uppdaterat', message: 'Uppgiften är uppdaterad.' });
       } catch (err) {
         console.error('Error updating todo:', err);
         showToast({ type: 'error', title: 'Kunde inte uppdatera', message: humanizeSupabaseError(err) });
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, applyChange, showToast, repository],
   );
 
   const handleDeleteTodo = useCallback(
     async (todoId: string) => {
       if (!session?.user) return;
       try {
-        const { error } = await supabase
-          .from('measurement_todos')
-          .delete()
-          .eq('id', todoId)
-          .eq('user_id', session.user.id);
-
-        if (error) throw error;
-        await fetchData();
+        await repository.deleteTodo(session.user.id, todoId);
+        applyChange({ table: 'todos', type: 'delete', id: todoId });
         showToast({ type: 'success', title: 'Borttaget', message: 'Uppgiften är borttagen.' });
       } catch (err) {
         console.error('Error deleting todo:', err);
         showToast({ type: 'error', title: 'Kunde inte ta bort', message: humanizeSupabaseError(err) });
       }
     },
-    [session?.user, fetchData, showToast],
+    [session?.user, applyChange, showToast, repository],
   );
 
   // --- JOURNAL ACTIONS ---
@@ -1242,7 +1636,8 @@ const App: React.FC = () => {
     markerIds: string[], 
     startDate: string | undefined, 
     targetDate: string | undefined,
-    goals: JournalGoal[]
+    goals: JournalGoal[],
+    expectedUpdatedAt?: string
   ) => {
       if (!session?.user) throw new Error("No user");
       
@@ -1251,98 +1646,115 @@ const App: React.FC = () => {
         const isCreating = planId === 'temp-new' || !planId;
         const idToUpsert = isCreating ? undefined : planId;
 
-        let savedId = idToUpsert;
-
-        // 1. Upsert Plan
-        const payload: any = {
-            user_id: session.user.id,
+        const input: PlanInput = {
+            id: idToUpsert,
             title,
             content,
-            start_date: startDate || null,
-            target_date: targetDate || null,
-            updated_at: new Date().toISOString()
+            startDate,
+            targetDate,
+            markerIds,
+            goals,
+            expectedUpdatedAt: isCreating ? undefined : expectedUpdatedAt
         };
-        if (idToUpsert) payload.id = idToUpsert;
 
-        const { data, error } = await supabase
-          .from('journal_entries')
-          .upsert(payload)
-          .select()
-          .single();
-        
-        if (error) throw error;
-        savedId = data.id;
-
-        // 2. Sync Markers (Delete old, insert new)
-        if (savedId) {
-            await supabase.from('journal_entry_markers').delete().eq('journal_id', savedId);
-            if (markerIds.length > 0) {
-                await supabase.from('journal_entry_markers').insert(
-                    markerIds.map(mid => ({ journal_id: savedId, marker_id: mid }))
-                );
-            }
-
-            // 3. Sync Goals (New)
-            await supabase.from('journal_goals').delete().eq('journal_id', savedId);
-            if (goals.length > 0) {
-                await supabase.from('journal_goals').insert(
-                    goals.map(g => ({
-                        journal_id: savedId,
-                        marker_id: g.markerId,
-                        direction: g.direction,
-                        target_value: g.targetValue,
-                        target_value_upper: g.targetValueUpper
-                    }))
-                );
-            }
+        let saved: JournalPlan;
+        try {
+          saved = await repository.savePlan(session.user.id, input);
+        } catch (err) {
+          if (!(err instanceof RepositoryError && err.code === PLAN_CONFLICT)) throw err;
+          // Saved from another tab or device since this edit started
+          const overwrite = window.confirm(
+            'Planen har sparats i en annan flik eller på en annan enhet sedan du började redigera.\n\n' +
+              'OK skriver över den med dina ändringar. Avbryt låter dig fortsätta redigera.',
+          );
+          // Not an error: the editor stays open with the user's changes
+          if (!overwrite) return null;
+          saved = await repository.savePlan(session.user.id, { ...input, expectedUpdatedAt: undefined });
         }
 
-        await fetchData();
+        applyChange({ table: 'plans', type: 'upsert', row: saved });
         
         // If we just created a new one from the dashboard flow, update state
-        if (editingPlanId === 'new' && savedId) {
-            setEditingPlanId(savedId);
+        if (editingPlanId === 'new') {
+            setEditingPlanId(saved.id);
         }
 
         showToast({ type: 'success', title: 'Plan sparad', message: 'Din plan har uppdaterats.' });
-        return savedId as string;
+        return saved.id;
       } catch (err: any) {
         console.error('Error saving plan:', err);
         showToast({ type: 'error', title: 'Kunde inte spara', message: humanizeSupabaseError(err) });
         throw err;
       }
-  }, [session?.user, editingPlanId, fetchData, showToast]);
+  }, [session?.user, editingPlanId, applyChange, showToast, repository]);
 
   const handleDeleteJournalPlan = useCallback(async (id: string) => {
       if (!session?.user) return;
       try {
-          const { error } = await supabase.from('journal_entries').delete().eq('id', id).eq('user_id', session.user.id);
-          if (error) throw error;
-          await fetchData();
+          await repository.deletePlan(session.user.id, id);
+          applyChange({ table: 'plans', type: 'delete', id });
           showToast({ type: 'success', title: 'Plan borttagen', message: 'Din plan är borta.' });
       } catch (err) {
           console.error(err);
           showToast({ type: 'error', title: 'Fel', message: 'Kunde inte ta bort planen' });
       }
-  }, [session?.user, fetchData, showToast]);
+  }, [session?.user, applyChange, showToast, repository]);
+
 
+  // Restore from our own export; rows that already exist are left alone, so a second run is a no-op
+  const handleRestoreData = useCallback(
+    async (plan: RestorePlan) => {
+      if (!session?.user) return;
+      try {
+        await repository.restore(session.user.id, plan, dbCapabilities);
+
+        // A restore can touch hundreds of rows in every table; one reload is cheaper than applying each
+        await fetchData();
+        showToast({
+          type: 'success',
+          title: 'Återställning klar',
+          message: `${plan.counts.measurements.new} mätningar, ${plan.counts.marker_notes.new} anteckningar och ${plan.counts.journal_entries.new} planer återställda.`,
+        });
+      } catch (err) {
+        console.error('Error restoring data:', err);
+        showToast({ type: 'error', title: 'Kunde inte återställa', message: humanizeSupabaseError(err) });
+        throw err;
+      }
+    },
+    [session?.user, fetchData, showToast, dbCapabilities, repository],
+  );
 
   const handleSignOut = useCallback(async () => {
+    // Signing out clears the offline cache, outbox included
+    if (
+      syncStatus?.pending &&
+      !window.confirm(`${syncStatus.pending} ändringar är inte synkade än och försvinner om du loggar ut. Logga ut ändå?`)
+    ) {
+      return;
+    }
     try {
-      await supabase.auth.signOut();
+      await repository.signOut();
     } finally {
       setMeasurements([]);
       setBloodMarkers([]);
+      setReviewMarkers([]);
+      setAdviceLibrary(null);
+      setMarkerGoals({});
+      setIsAdmin(false);
       setMarkerNotes([]);
       setTodos([]);
       setJournalPlans([]);
       setSelectedMarkerId(null);
       setShowAuth(false);
       setStatsHistory([]); // Clear History
+      setReferenceRanges([]);
+      setProfile(null);
       setDbCapabilities({ markerNotes: true, todos: true, journal: true });
       setToast(null);
+      setMissingMigrations([]);
+      loadedUserId.current = null;
     }
-  }, []);
+  }, [repository, syncStatus?.pending]);
 
   const handleRefresh = useCallback(async () => {
     await fetchData();
@@ -1358,7 +1770,7 @@ const App: React.FC = () => {
   }
 
   if (!session) {
-    if (showAuth) return <Auth />;
+    if (showAuth) return <Auth repository={repository} />;
     
     return (
       <LandingPage
@@ -1399,6 +1811,7 @@ const App: React.FC = () => {
           loading={loadingData}
           onSignOut={handleSignOut}
           onOpenTimeline={() => { /* No-op in header, timeline is in Account */ }}
+          syncStatus={syncStatus ?? undefined}
         />
         <main className="flex-1 pt-16">
           <DetailView
@@ -1422,6 +1835,8 @@ const App: React.FC = () => {
             onToggleIgnore={handleToggleIgnore}
             allMarkers={bloodMarkers}
             onUpdateTags={handleUpdateTodoTags}
+            onSaveGoal={handleSaveMarkerGoal}
+            advice={adviceLibrary ? adviceForMarker(adviceLibrary, selectedMarkerData.id) : undefined}
           />
         </main>
         <Footer />
@@ -1434,7 +1849,8 @@ const App: React.FC = () => {
             setPrefillMarkerId(null);
           }}
           onSave={handleSaveMeasurement}
-          availableMarkers={bloodMarkers}
+          onCreateMarker={handleCreateCustomMarker}
+          availableMarkers={measurableMarkers}
           initialMarkerId={prefillMarkerId ?? undefined}
         />
         {toast && <Toast type={toast.type} title={toast.title} message={toast.message} onClose={() => setToast(null)} />}
@@ -1459,11 +1875,35 @@ const App: React.FC = () => {
         loading={loadingData} 
         onOpenTimeline={() => { /* No-op */ }}
         onSignOut={handleSignOut}
+        syncStatus={syncStatus ?? undefined}
       />
 
       <main className="flex-1 max-w-6xl mx-auto px-4 pt-24 pb-12 w-full relative z-10" id="marker-list-top">
         
         {/* DATA / DB WARNINGS */}
+        {missingMigrations.length > 0 && (
+          <div className="mb-5 px-1">
+            <div className="rounded-3xl bg-amber-50 ring-1 ring-amber-900/10 p-4">
+              <div className="flex items-start gap-3">
+                <div className="w-9 h-9 rounded-2xl bg-white ring-1 ring-amber-900/10 flex items-center justify-center">
+                  <span className="text-amber-700 font-extrabold">!</span>
+                </div>
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-amber-900">Databasen behöver uppdateras</div>
+                  <div className="text-xs text-amber-900/80 mt-1">
+                    Kör de här filerna från supabase/migrations i SQL-editorn, i den här ordningen:
+                  </div>
+                  <ul className="mt-2 space-y-0.5 text-xs font-mono text-amber-900">
+                    {missingMigrations.map((file) => (
+                      <li key={file}>{file}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {dataError && (
           <div className="mb-5 px-1">
             <div className="rounded-3xl bg-amber-50 ring-1 ring-amber-900/10 p-4">
@@ -1486,6 +1926,24 @@ const App: React.FC = () => {
                 measurements={measurements}
                 notes={markerNotes}
                 markers={bloodMarkers}
+                todos={todos}
+                plans={journalPlans}
+                ignoredMarkerIds={Array.from(ignoredMarkers)}
+                markerGoals={markerGoals}
+                statsHistory={statsHistory}
+                measurementRanges={measurementRanges}
+                profile={profile}
+                onSaveProfile={handleSaveProfile}
+                onUpdatePassword={repository.updatePassword}
+                onRestore={handleRestoreData}
+                isAdmin={isAdmin}
+                reviewMarkers={reviewMarkers}
+                onCreateMarker={handleCreateCustomMarker}
+                onDeleteMarker={handleDeleteCustomMarker}
+                onPromoteMarker={handlePromoteMarker}
+                adviceLibrary={adviceLibrary}
+                onSaveAdvice={handleSaveAdvice}
+                onDeleteAdvice={handleDeleteAdvice}
                 onSelectMarker={(id) => {
                     setSelectedMarkerId(id);
                     setView('dashboard');
@@ -1539,6 +1997,8 @@ const App: React.FC = () => {
                 <StatsOverview
                   totalMarkers={stats.totalCount}
                   normalCount={stats.normalCount}
+                  healthScore={stats.healthScore}
+                  areaScores={stats.areaScores}
                   attentionMarkers={stats.attentionMarkers}
                   optimizedCount={stats.optimizedEvents.length}
                   coveredAttentionCount={stats.coveredAttentionCount}
@@ -1612,7 +2072,33 @@ const App: React.FC = () => {
                         Alla värden
                      </button>
 
+                     {(goalStats.withGoal > 0 || statusFilter === 'offTarget') && (
+                       <button
+                          onClick={() => setStatusFilter('offTarget')}
+                          className={cx(
+                             'px-4 h-11 rounded-2xl text-xs font-bold whitespace-nowrap transition-colors flex items-center gap-1.5',
+                             statusFilter === 'offTarget' ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 ring-1 ring-slate-900/10 hover:bg-slate-50'
+                          )}
+                       >
+                          Utanför mitt mål
+                          {goalStats.offTarget > 0 && (
+                            <span className={cx("px-1.5 py-0.5 rounded-full text-[10px]", statusFilter === 'offTarget' ? 'bg-black/20 text-white' : 'bg-indigo-100 text-indigo-800')}>
+                              {goalStats.offTarget}
+                            </span>
+                          )}
+                       </button>
+                     )}
+
                      <div className="w-px bg-slate-300 mx-1 h-6 self-center" />
+                     <select
+                       value={groupMode}
+                       onChange={(e) => setGroupMode(e.target.value as GroupMode)}
+                       aria-label="Gruppering"
+                       className="h-11 rounded-2xl bg-white ring-1 ring-slate-900/10 px-4 text-xs font-bold text-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-900"
+                     >
+                       <option value="category">Kategorier</option>
+                       <option value="focusArea">Fokusområden</option>
+                     </select>
                      <select
                        value={sortMode}
                        onChange={(e) => setSortMode(e.target.value as SortMode)}
@@ -1676,6 +2162,12 @@ const App: React.FC = () => {
                            <p className="text-slate-600 mt-1 text-sm">Alla dina registrerade värden ligger inom referensintervallet.</p>
                            <button onClick={() => setStatusFilter('all')} className="mt-6 px-6 py-3 bg-slate-900 rounded-full text-sm font-bold text-white shadow-lg shadow-slate-900/20 hover:bg-slate-800">Visa alla värden</button>
                         </div>
+                     ) : statusFilter === 'offTarget' && !query ? (
+                        <div className="text-center py-16 px-4 animate-in fade-in slide-in-from-bottom-4">
+                           <h3 className="text-lg font-bold text-slate-900">Alla värden inom dina mål</h3>
+                           <p className="text-slate-600 mt-1 text-sm">Senaste värdet för varje markör med ett eget mål ligger inom målintervallet.</p>
+                           <button onClick={() => setStatusFilter('all')} className="mt-6 px-6 py-3 bg-slate-900 rounded-full text-sm font-bold text-white shadow-lg shadow-slate-900/20 hover:bg-slate-800">Visa alla värden</button>
+                        </div>
                      ) : (
                         <div className="text-center py-16 px-4">
                           <h3 className="text-lg font-bold text-slate-900">Inga träffar</h3>
@@ -1684,7 +2176,24 @@ const App: React.FC = () => {
                      )
                   ) : (
                     <div className="flex flex-col gap-2 animate-in fade-in slide-in-from-bottom-2 duration-500">
-                      {statusFilter === 'all' ? (
+                      {groupMode === 'focusArea' ? (
+                        focusAreaGroups.map(({ areaId, markers }) => {
+                          const advice = actionableTodos.find((a) => a.systemId === areaId);
+                          return (
+                            <FocusAreaGroup
+                              key={areaId}
+                              areaId={areaId}
+                              markers={markers}
+                              score={stats.areaScores.find((a) => a.id === areaId)}
+                              advice={advice}
+                              adviceAdded={!!advice && activeTodos.some((t) => t.task === actionableTodoTask(advice))}
+                              onAddAdvice={handleAddActionableTodo}
+                              onSelectMarker={setSelectedMarkerId}
+                              onToggleIgnore={handleToggleIgnore}
+                            />
+                          );
+                        })
+                      ) : statusFilter === 'all' ? (
                         groupedData.map(({ category, markers }) => (
                           <CategoryGroup key={category} title={category} markers={markers} onSelectMarker={setSelectedMarkerId} onToggleIgnore={handleToggleIgnore} />
                         ))
@@ -1758,15 +2267,18 @@ const App: React.FC = () => {
           setPrefillMarkerId(null);
         }}
         onSave={handleSaveMeasurement}
-        availableMarkers={bloodMarkers}
+        onCreateMarker={handleCreateCustomMarker}
+        availableMarkers={measurableMarkers}
         initialMarkerId={prefillMarkerId ?? undefined}
       />
       
       <ImportModal 
         isOpen={isImportModalOpen}
         onClose={() => setIsImportModalOpen(false)}
-        availableMarkers={bloodMarkers}
+        availableMarkers={measurableMarkers}
+        existingMeasurements={measurements}
         onSave={handleBulkSaveMeasurements}
+        getAccessToken={repository.getAccessToken}
       />
 
       <OptimizedListModal
@@ -0,0 +1,65 @@
+import { Advice, AdviceDirection, AdviceSource, EvidenceLevel, FocusAreaId } from './types';
+import { FOCUS_AREAS } from './utils';
+
+/**
+ * Advice library (public.advice, 0012_advice_library.sql).
+ * Rows are maintained by admins on the account page and shown on the marker
+ * page (marker rows) and on the focus area advice cards (area rows).
+ */
+
+export const EVIDENCE_LEVELS: Array<{ id: EvidenceLevel; label: string; className: string }> = [
+  { id: 'strong', label: 'Stark evidens', className: 'bg-emerald-50 text-emerald-700 ring-emerald-200' },
+  { id: 'moderate', label: 'Måttlig evidens', className: 'bg-sky-50 text-sky-700 ring-sky-200' },
+  { id: 'limited', label: 'Begränsad evidens', className: 'bg-amber-50 text-amber-700 ring-amber-200' },
+  { id: 'expert', label: 'Expertbedömning', className: 'bg-slate-100 text-slate-600 ring-slate-200' },
+];
+
+export const evidenceMeta = (id: EvidenceLevel) => EVIDENCE_LEVELS.find((e) => e.id === id) ?? EVIDENCE_LEVELS[EVIDENCE_LEVELS.length - 1];
+
+const isFocusArea = (v: unknown): v is FocusAreaId => FOCUS_AREAS.some((a) => a.id === v);
+const isEvidenceLevel = (v: unknown): v is EvidenceLevel => EVIDENCE_LEVELS.some((e) => e.id === v);
+
+// Only http(s) links are kept, anything else could run script when clicked
+export const parseAdviceSources = (raw: unknown): AdviceSource[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((s): s is Record<string, unknown> => typeof s === 'object' && s !== null)
+    .map((s) => ({ label: String(s.label ?? '').trim(), url: String(s.url ?? '').trim() }))
+    .filter((s) => /^https?:\/\//i.test(s.url))
+    .map((s) => ({ label: s.label || s.url, url: s.url }));
+};
+
+export const mapAdviceRow = (row: any): Advice => ({
+  id: row.id,
+  focusArea: isFocusArea(row.focus_area) ? row.focus_area : null,
+  markerId: row.marker_id ?? null,
+  direction: row.direction === 'low' || row.direction === 'high' ? row.direction : null,
+  title: row.title ?? '',
+  description: row.description ?? '',
+  evidenceLevel: isEvidenceLevel(row.evidence_level) ? row.evidence_level : 'expert',
+  sources: parseAdviceSources(row.sources),
+  sortOrder: Number.isFinite(Number(row.sort_order)) ? Number(row.sort_order) : 0,
+});
+
+export const toAdviceRow = (a: Omit<Advice, 'id'>) => ({
+  focus_area: a.focusArea,
+  marker_id: a.markerId,
+  direction: a.direction,
+  title: a.title.trim(),
+  description: a.description.trim(),
+  evidence_level: a.evidenceLevel,
+  sources: a.sources,
+  sort_order: a.sortOrder,
+});
+
+const byOrder = (a: Advice, b: Advice) => a.sortOrder - b.sortOrder || a.title.localeCompare(b.title, 'sv');
+
+const matchesDirection = (a: Advice, direction?: AdviceDirection) => !direction || !a.direction || a.direction === direction;
+
+// Advice written for this marker, for the given direction (or both when omitted)
+export const adviceForMarker = (library: Advice[], markerId: string, direction?: AdviceDirection) =>
+  library.filter((a) => a.markerId === markerId && matchesDirection(a, direction)).sort(byOrder);
+
+// Area-wide advice, i.e. rows without a marker
+export const adviceForFocusArea = (library: Advice[], areaId: FocusAreaId, direction?: AdviceDirection) =>
+  library.filter((a) => a.focusArea === areaId && !a.markerId && matchesDirection(a, direction)).sort(byOrder);
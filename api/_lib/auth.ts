@@ -0,0 +1,31 @@
+import type { VercelRequest } from '@vercel/node';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+import { ApiError } from './errors.js';
+
+// Server-side names first; the VITE_ ones are what most deployments already have
+const env = (...keys: string[]) => keys.map((k) => process.env[k]).find(Boolean) || '';
+
+/**
+ * Verifies the caller's Supabase access token and returns a client that acts
+ * as that user, so row level security applies to everything the route reads
+ * or writes.
+ */
+export const authenticate = async (req: VercelRequest): Promise<{ user: User; supabase: SupabaseClient }> => {
+  const header = req.headers.authorization;
+  const token = typeof header === 'string' && /^Bearer\s+/i.test(header) ? header.replace(/^Bearer\s+/i, '').trim() : '';
+  if (!token) throw new ApiError(401, 'UNAUTHORIZED', 'Missing bearer token');
+
+  const url = env('SUPABASE_URL', 'VITE_SUPABASE_URL');
+  const anonKey = env('SUPABASE_ANON_KEY', 'VITE_SUPABASE_ANON_KEY');
+  if (!url || !anonKey) throw new ApiError(500, 'INTERNAL', 'Missing SUPABASE_URL / SUPABASE_ANON_KEY');
+
+  const supabase = createClient(url, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) throw new ApiError(401, 'UNAUTHORIZED', 'Invalid or expired session');
+
+  return { user: data.user, supabase };
+};
@@ -0,0 +1,42 @@
+import type { VercelResponse } from '@vercel/node';
+
+/**
+ * Error codes returned by the API routes as { error, code }.
+ * The client maps the code to a user-facing message; `error` is for logs.
+ */
+export type ApiErrorCode =
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'INVALID_PAYLOAD'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'RATE_LIMITED'
+  | 'RATE_LIMIT_UNAVAILABLE'
+  | 'AI_NOT_CONFIGURED'
+  | 'AI_OVERLOADED'
+  | 'AI_UNAVAILABLE'
+  | 'AI_INVALID_RESPONSE'
+  | 'INTERNAL';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly retryAfter?: number, // seconds, for RATE_LIMITED
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const sendError = (res: VercelResponse, err: unknown) => {
+  const apiError = err instanceof ApiError ? err : new ApiError(500, 'INTERNAL', String((err as any)?.message || err));
+  if (apiError.status >= 500) console.error(`[${apiError.code}]`, apiError.message);
+
+  if (apiError.retryAfter != null) res.setHeader('Retry-After', String(apiError.retryAfter));
+  res.status(apiError.status).json({
+    error: apiError.message,
+    code: apiError.code,
+    ...(apiError.retryAfter != null ? { retryAfter: apiError.retryAfter } : {}),
+  });
+};
@@ -0,0 +1,43 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getUnitOptions } from '../../units.js';
+import type { BloodMarker } from '../../types.js';
+import { ApiError } from './errors.js';
+import type { MarkerContext } from './aiImportSchema.js';
+
+const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+
+/**
+ * Loads the requested markers from blood_markers with the caller's client, so
+ * only markers the user can see under RLS reach the prompt. Ids the user
+ * cannot see are ignored.
+ */
+export const loadMarkerContext = async (supabase: SupabaseClient, ids: string[]): Promise<MarkerContext[]> => {
+  // The whole visible catalog is small; one select avoids an id list in the URL
+  const { data, error } = await supabase
+    .from('blood_markers')
+    .select('id, name, short_name, unit, molar_mass, synonyms');
+  if (error) throw new ApiError(500, 'INTERNAL', `Could not load markers: ${error.message}`);
+
+  const wanted = new Set(ids);
+  const markers = (data ?? [])
+    .filter((m: any) => wanted.has(m.id) && text(m.name) && text(m.unit))
+    .map((m: any): MarkerContext => {
+      const marker = {
+        name: text(m.name),
+        shortName: text(m.short_name),
+        unit: text(m.unit),
+        molarMass: Number(m.molar_mass) > 0 ? Number(m.molar_mass) : undefined,
+      } as BloodMarker;
+      return {
+        id: m.id,
+        name: marker.name,
+        shortName: marker.shortName,
+        unit: marker.unit,
+        alternativeUnits: getUnitOptions(marker).slice(1),
+        synonyms: Array.isArray(m.synonyms) ? m.synonyms.map(text).filter(Boolean) : [],
+      };
+    });
+
+  if (markers.length === 0) throw new ApiError(400, 'INVALID_PAYLOAD', '`markerIds` matched no known markers');
+  return markers;
+};
@@ -0,0 +1,69 @@
+/**
+ * Canned model answers for AI_PROVIDER=mock. Markers are referenced by name
+ * (or shortName) and resolved against the markers of the request, so the
+ * fixtures work with any database.
+ */
+
+export interface MockFixtureResult {
+  marker: string;
+  value: number;
+  unit?: string;
+  refMin?: number | null;
+  refMax?: number | null;
+}
+
+export interface MockFixture {
+  lab: string | null;
+  groups: Array<{ date: string | null; results: MockFixtureResult[] }>;
+}
+
+export const MOCK_FIXTURES: Record<string, MockFixture> = {
+  werlabs: {
+    lab: 'Werlabs',
+    groups: [
+      {
+        date: '2024-03-05',
+        results: [
+          { marker: 'Hemoglobin', value: 145, unit: 'g/L', refMin: 134, refMax: 170 },
+          { marker: 'Ferritin', value: 120, unit: 'µg/L', refMin: 30, refMax: 350 },
+          { marker: 'Glukos', value: 5.4, unit: 'mmol/L', refMin: 4.0, refMax: 6.0 },
+          { marker: 'Kolesterol', value: 5.1, unit: 'mmol/L', refMin: null, refMax: 5.0 },
+          { marker: 'TSH', value: 2.1, unit: 'mIU/L', refMin: 0.4, refMax: 4.0 },
+        ],
+      },
+    ],
+  },
+  cumulative: {
+    lab: '1177',
+    groups: [
+      {
+        date: '2023-09-12',
+        results: [
+          { marker: 'Hemoglobin', value: 138, unit: 'g/L' },
+          { marker: 'Ferritin', value: 45, unit: 'µg/L' },
+        ],
+      },
+      {
+        date: '2024-03-05',
+        results: [
+          { marker: 'Hemoglobin', value: 145, unit: 'g/L' },
+          { marker: 'Ferritin', value: 120, unit: 'µg/L' },
+        ],
+      },
+    ],
+  },
+  // Exercises the route's validation: unknown marker and a non-numeric value get dropped
+  invalid: {
+    lab: null,
+    groups: [
+      {
+        date: 'not-a-date',
+        results: [
+          { marker: 'Hemoglobin', value: 145 },
+          { marker: 'Finns inte', value: 1 },
+          { marker: 'Ferritin', value: Number.NaN },
+        ],
+      },
+    ],
+  },
+};
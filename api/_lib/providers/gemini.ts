@@ -0,0 +1,28 @@
+import { GoogleGenAI } from '@google/genai';
+import { ApiError } from '../errors.js';
+import { ExtractionProvider, upstreamError, userMessage } from './types.js';
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+export const createGeminiProvider = (): ExtractionProvider => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new ApiError(500, 'AI_NOT_CONFIGURED', 'Missing GEMINI_API_KEY');
+  const model = process.env.AI_MODEL || DEFAULT_MODEL;
+
+  return {
+    name: `gemini:${model}`,
+    extract: async ({ prompt, text }) => {
+      try {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+          model,
+          contents: [{ text: prompt }, { text: userMessage(text) }],
+          config: { responseMimeType: 'application/json' },
+        });
+        return response.text ?? '';
+      } catch (err: any) {
+        throw upstreamError(Number(err?.status ?? err?.code), String(err?.message || err));
+      }
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import { ApiError } from '../errors.js';
+import { createGeminiProvider } from './gemini.js';
+import { createMockProvider } from './mock.js';
+import { createOpenAiCompatibleProvider } from './openaiCompatible.js';
+import { ExtractionProvider } from './types.js';
+
+export type { ExtractionProvider, ExtractionRequest } from './types.js';
+
+const PROVIDERS: Record<string, () => ExtractionProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiCompatibleProvider,
+  mock: createMockProvider,
+};
+
+/**
+ * Picks the extraction backend from AI_PROVIDER (gemini | openai | mock).
+ * Defaults to gemini so existing deployments keep working unchanged.
+ */
+export const getExtractionProvider = (): ExtractionProvider => {
+  const name = (process.env.AI_PROVIDER || 'gemini').trim().toLowerCase();
+  const create = PROVIDERS[name];
+  if (!create) {
+    throw new ApiError(500, 'AI_NOT_CONFIGURED', `Unknown AI_PROVIDER "${name}" (${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return create();
+};
@@ -0,0 +1,49 @@
+import { ApiError } from '../errors.js';
+import { MOCK_FIXTURES } from './fixtures.js';
+import { ExtractionProvider } from './types.js';
+
+const norm = (s: string) => s.trim().toLowerCase();
+
+/**
+ * Offline provider for local development and tests. Answers with the fixture
+ * named by AI_MOCK_FIXTURE (default "werlabs"), after resolving marker names
+ * to the ids of the request. Unknown names are passed through as-is so the
+ * route's validation drops them, like it would for a real model.
+ * localAiImport.ts runs it in the browser for the local backend.
+ */
+export const createMockProvider = (fixtureName: string = process.env.AI_MOCK_FIXTURE || 'werlabs'): ExtractionProvider => {
+  const fixture = MOCK_FIXTURES[fixtureName];
+  if (!fixture) {
+    throw new ApiError(500, 'AI_NOT_CONFIGURED', `Unknown AI_MOCK_FIXTURE "${fixtureName}" (${Object.keys(MOCK_FIXTURES).join(', ')})`);
+  }
+
+  return {
+    name: `mock:${fixtureName}`,
+    extract: async ({ text, markers }) => {
+      const lines = text.split('\n');
+      const idFor = (name: string) =>
+        markers.find((m) => norm(m.name) === norm(name) || norm(m.shortName) === norm(name))?.id ?? name;
+      // Line numbers come from the "N| " prefix of the first line mentioning the marker
+      const lineFor = (name: string) => {
+        const hit = lines.find((l) => norm(l).includes(norm(name)));
+        const n = hit ? Number(/^(\d+)\|/.exec(hit)?.[1]) : NaN;
+        return Number.isFinite(n) ? n : null;
+      };
+
+      return JSON.stringify({
+        lab: fixture.lab,
+        groups: fixture.groups.map((g) => ({
+          date: g.date,
+          results: g.results.map((r) => ({
+            markerId: idFor(r.marker),
+            value: Number.isFinite(r.value) ? r.value : String(r.value),
+            unit: r.unit ?? null,
+            refMin: r.refMin ?? null,
+            refMax: r.refMax ?? null,
+            line: lineFor(r.marker),
+          })),
+        })),
+      });
+    },
+  };
+};
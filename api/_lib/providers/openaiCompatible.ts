@@ -0,0 +1,55 @@
+import { ApiError } from '../errors.js';
+import { ExtractionProvider, upstreamError, userMessage } from './types.js';
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local llama.cpp / Ollama server (AI_BASE_URL=http://localhost:11434/v1).
+ */
+export const createOpenAiCompatibleProvider = (): ExtractionProvider => {
+  const baseUrl = (process.env.AI_BASE_URL || '').replace(/\/+$/, '');
+  const model = process.env.AI_MODEL;
+  if (!baseUrl || !model) {
+    throw new ApiError(500, 'AI_NOT_CONFIGURED', 'AI_PROVIDER=openai needs AI_BASE_URL and AI_MODEL');
+  }
+  const apiKey = process.env.AI_API_KEY; // optional for local servers
+  const timeoutMs = Number(process.env.AI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+  return {
+    name: `openai:${model}`,
+    extract: async ({ prompt, text }) => {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            temperature: 0,
+            response_format: { type: 'json_object' },
+            messages: [
+              { role: 'system', content: prompt },
+              { role: 'user', content: userMessage(text) },
+            ],
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (err: any) {
+        throw new ApiError(502, 'AI_UNAVAILABLE', `Could not reach ${baseUrl}: ${String(err?.message || err)}`);
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw upstreamError(response.status, `Provider answered ${response.status}: ${detail.slice(0, 200)}`);
+      }
+
+      const data: any = await response.json().catch(() => null);
+      const content = data?.choices?.[0]?.message?.content;
+      return typeof content === 'string' ? content : '';
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import { ApiError } from '../errors.js';
+import type { MarkerContext } from '../aiImportSchema.js';
+
+export interface ExtractionRequest {
+  prompt: string; // built by buildPrompt from the markers
+  text: string; // line-numbered report text
+  markers: MarkerContext[];
+}
+
+/**
+ * A model backend for /api/ai-import. `extract` returns the raw JSON text the
+ * model produced; validation happens in the route, the same for every provider.
+ */
+export interface ExtractionProvider {
+  name: string;
+  extract: (request: ExtractionRequest) => Promise<string>;
+}
+
+export const userMessage = (text: string) => `Analyze this text:\n\n${text}`;
+
+// Maps an upstream HTTP status to our error codes
+export const upstreamError = (status: number, message: string) =>
+  status === 429 || status === 503
+    ? new ApiError(503, 'AI_OVERLOADED', message)
+    : new ApiError(502, 'AI_UNAVAILABLE', message);
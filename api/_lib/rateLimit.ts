@@ -0,0 +1,60 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError } from './errors.js';
+
+const WINDOW_MS = 60 * 60 * 1000;
+const MAX_PER_WINDOW = Number(process.env.AI_IMPORT_RATE_LIMIT) || 20;
+
+// Per-instance store for local development only (AI_IMPORT_RATE_LIMIT_STORE=memory).
+// Never a fallback: without ai_import_requests the route refuses to run.
+const memory = new Map<string, number[]>();
+const useMemory = () => process.env.AI_IMPORT_RATE_LIMIT_STORE === 'memory';
+
+const unavailable = (message: string) =>
+  new ApiError(503, 'RATE_LIMIT_UNAVAILABLE', `Rate limit unavailable (ai_import_requests): ${message}`);
+
+// `counted`: ascending timestamps a next request would be counted against (at least MAX_PER_WINDOW)
+const rateLimited = (counted: number[], now: number) => {
+  const retryAfter = Math.max(1, Math.ceil((counted[counted.length - MAX_PER_WINDOW] + WINDOW_MS - now) / 1000));
+  return new ApiError(429, 'RATE_LIMITED', `More than ${MAX_PER_WINDOW} imports in the last hour`, retryAfter);
+};
+
+/**
+ * Sliding one-hour window per user, counted in ai_import_requests
+ * (see 0005_ai_import_requests.sql). The request is recorded before it is
+ * counted, so concurrent requests see each other; each one only counts rows up
+ * to its own, and rejected requests stay recorded (there is no delete policy).
+ * Fails closed: if the table cannot be read or written the request is
+ * rejected with 503 instead of running unlimited.
+ */
+export const checkRateLimit = async (supabase: SupabaseClient, userId: string) => {
+  const now = Date.now();
+
+  if (useMemory()) {
+    const timestamps = (memory.get(userId) ?? []).filter((t) => t > now - WINDOW_MS);
+    if (timestamps.length >= MAX_PER_WINDOW) throw rateLimited(timestamps, now);
+    memory.set(userId, [...timestamps, now]);
+    return;
+  }
+
+  const { data: own, error: insertError } = await supabase
+    .from('ai_import_requests')
+    .insert({ user_id: userId })
+    .select('created_at')
+    .single();
+  if (insertError) throw unavailable(insertError.message);
+  if (!own) throw unavailable('inserted row not returned');
+
+  // Rows at or before our own; a tie with a concurrent request counts against both
+  const ownAt = Date.parse(own.created_at);
+  const { data, error } = await supabase
+    .from('ai_import_requests')
+    .select('created_at')
+    .eq('user_id', userId)
+    .gt('created_at', new Date(ownAt - WINDOW_MS).toISOString())
+    .lte('created_at', own.created_at)
+    .order('created_at', { ascending: true });
+  if (error) throw unavailable(error.message);
+
+  const counted = (data ?? []).map((r: any) => Date.parse(r.created_at)).filter(Number.isFinite);
+  if (counted.length > MAX_PER_WINDOW) throw rateLimited(counted, now);
+};
@@ -1,46 +1,41 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
+import { ApiError, sendError } from './_lib/errors.js';
+import { authenticate } from './_lib/auth.js';
+import { checkRateLimit } from './_lib/rateLimit.js';
+import { loadMarkerContext } from './_lib/markers.js';
+import { buildPrompt, parsePayload, validateAiResponse } from './_lib/aiImportSchema.js';
+import { getExtractionProvider } from './_lib/providers/index.js';
 
-const MODEL = 'gemini-3-flash-preview';
+// Some local models wrap their JSON in a markdown code fence
+const stripCodeFence = (s: string) => s.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'POST') {
-    res.status(405).json({ error: 'Method not allowed' });
-    return;
-  }
-
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    res.status(500).json({ error: 'Missing GEMINI_API_KEY' });
-    return;
-  }
-
   try {
-    const { prompt, text, markers } = req.body || {};
-    if (!prompt || !text || !Array.isArray(markers)) {
-      res.status(400).json({ error: 'Invalid payload' });
-      return;
+    if (req.method !== 'POST') {
+      throw new ApiError(405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-      model: MODEL,
-      contents: [
-        { text: String(prompt) },
-        { text: `Analyze this text:\n\n${String(text)}` },
-      ],
-      config: { responseMimeType: 'application/json' },
-    });
+    const provider = getExtractionProvider();
+
+    const { user, supabase } = await authenticate(req);
+    const { text, markerIds } = parsePayload(req.body);
+    await checkRateLimit(supabase, user.id);
+    const markers = await loadMarkerContext(supabase, markerIds);
+
+    const rawJson = await provider.extract({ prompt: buildPrompt(markers), text, markers });
+    if (!rawJson.trim()) {
+      throw new ApiError(502, 'AI_INVALID_RESPONSE', `No response from ${provider.name}`);
+    }
 
-    const rawJson = response.text;
-    if (!rawJson) {
-      res.status(502).json({ error: 'No response from AI' });
-      return;
+    let data: unknown;
+    try {
+      data = JSON.parse(stripCodeFence(rawJson));
+    } catch {
+      throw new ApiError(502, 'AI_INVALID_RESPONSE', `${provider.name} did not return valid JSON`);
     }
 
-    const data = JSON.parse(rawJson);
-    res.status(200).json(data);
-  } catch (err: any) {
-    res.status(500).json({ error: String(err?.message || err) });
+    res.status(200).json(validateAiResponse(data, markers));
+  } catch (err) {
+    sendError(res, err);
   }
 }
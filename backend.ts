@@ -0,0 +1,13 @@
+import { Repository } from './repository';
+import { createLocalRepository } from './localRepository';
+import { createOfflineRepository } from './offlineRepository';
+import { createOfflineStore } from './offlineStore';
+import { createSupabaseRepository } from './supabaseRepository';
+import { isLocalBackend, supabase } from './supabaseClient';
+
+// VITE_DATA_BACKEND=local keeps everything in this browser (localStorage); anything else uses
+// Supabase behind the offline cache and outbox
+export const createRepository = (): Repository =>
+  isLocalBackend
+    ? createLocalRepository({ storage: window.localStorage, isAdmin: true })
+    : createOfflineRepository(createSupabaseRepository(supabase), createOfflineStore());
@@ -1,15 +1,51 @@
 
-import React, { useMemo, useState } from 'react';
-import { BloodMarker, MarkerNote, Measurement } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Advice,
+  AdviceInput,
+  BloodMarker,
+  CustomMarkerInput,
+  JournalPlan,
+  MarkerGoal,
+  MarkerNote,
+  Measurement,
+  MeasurementTodo,
+  ResolvedRange,
+  Sex,
+  StatsHistoryEntry,
+  UserProfile,
+} from '../types';
 import { formatDateTime, formatNumber, getStatus, parseDate } from '../utils';
+import { SEX_OPTIONS } from '../referenceRanges';
+import { buildExportArchive, downloadBlob } from '../dataExport';
+import { RESTORE_TABLES, RestoreError, RestorePlan, planRestore, readExportFile, restoreIsEmpty } from '../dataRestore';
+import CustomMarkerModal from './CustomMarkerModal';
+import AdviceLibrary from './AdviceLibrary';
 import { Session } from '@supabase/supabase-js';
-import { supabase } from '../supabaseClient';
 
 interface Props {
   session: Session;
   measurements: Measurement[];
   notes: MarkerNote[];
   markers: BloodMarker[];
+  todos: MeasurementTodo[];
+  plans: JournalPlan[];
+  ignoredMarkerIds: string[];
+  markerGoals: Record<string, MarkerGoal>;
+  statsHistory: StatsHistoryEntry[];
+  measurementRanges?: Record<string, ResolvedRange>;
+  profile: UserProfile | null;
+  onSaveProfile: (profile: UserProfile) => Promise<void>;
+  onUpdatePassword: (password: string) => Promise<void>;
+  onRestore: (plan: RestorePlan) => Promise<void>;
+  isAdmin: boolean;
+  reviewMarkers: BloodMarker[]; // other users' private markers, only loaded for admins
+  onCreateMarker: (input: CustomMarkerInput) => Promise<string>;
+  onDeleteMarker: (markerId: string) => Promise<void>;
+  onPromoteMarker: (markerId: string) => Promise<void>;
+  adviceLibrary: Advice[] | null;
+  onSaveAdvice: (input: AdviceInput, adviceId?: string) => Promise<void>;
+  onDeleteAdvice: (adviceId: string) => Promise<void>;
   onSelectMarker: (markerId: string) => void;
   onSignOut: () => void;
 }
@@ -21,6 +57,24 @@ const AccountView: React.FC<Props> = ({
   measurements, 
   notes, 
   markers, 
+  todos,
+  plans,
+  ignoredMarkerIds,
+  markerGoals,
+  statsHistory,
+  measurementRanges,
+  profile,
+  onSaveProfile,
+  onUpdatePassword,
+  onRestore,
+  isAdmin,
+  reviewMarkers,
+  onCreateMarker,
+  onDeleteMarker,
+  onPromoteMarker,
+  adviceLibrary,
+  onSaveAdvice,
+  onDeleteAdvice,
   onSelectMarker,
   onSignOut
 }) => {
@@ -28,6 +82,34 @@ const AccountView: React.FC<Props> = ({
   const [newPassword, setNewPassword] = useState('');
   const [pwMsg, setPwMsg] = useState('');
 
+  // Profile (used to pick sex/age-specific reference ranges)
+  const [birthDate, setBirthDate] = useState(profile?.birthDate ?? '');
+  const [sex, setSex] = useState<Sex | ''>(profile?.sex ?? '');
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  useEffect(() => {
+    setBirthDate(profile?.birthDate ?? '');
+    setSex(profile?.sex ?? '');
+  }, [profile?.birthDate, profile?.sex]);
+
+  const [exporting, setExporting] = useState(false);
+  const [exportMsg, setExportMsg] = useState('');
+
+  // Restore: the file is read and previewed first, nothing is written until confirmed
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const [restoreFileName, setRestoreFileName] = useState('');
+  const [restoring, setRestoring] = useState(false);
+  const [restoreMsg, setRestoreMsg] = useState('');
+
+  const [isCreatingMarker, setIsCreatingMarker] = useState(false);
+  const ownMarkers = useMemo(
+    () => markers.filter((m) => m.ownerId === session.user.id).sort((a, b) => a.name.localeCompare(b.name, 'sv')),
+    [markers, session.user.id],
+  );
+  const markerCategories = useMemo(() => Array.from(new Set(markers.map((m) => m.category))).sort(), [markers]);
+
+  const profileDirty = (birthDate || '') !== (profile?.birthDate ?? '') || (sex || '') !== (profile?.sex ?? '');
+
   // Combine timeline events (Moved from GlobalTimelineDrawer)
   const timelineEvents = useMemo(() => {
     const combined = [];
@@ -36,6 +118,7 @@ const AccountView: React.FC<Props> = ({
     for (const m of measurements) {
       const marker = markers.find(x => x.id === m.markerId);
       if (marker) {
+        const range = measurementRanges?.[m.id] ?? { minRef: marker.minRef, maxRef: marker.maxRef };
         combined.push({
           type: 'measurement' as const,
           id: m.id,
@@ -45,7 +128,7 @@ const AccountView: React.FC<Props> = ({
           unit: marker.unit,
           value: m.value,
           note: m.note,
-          status: getStatus(m.value, marker.minRef, marker.maxRef)
+          status: getStatus(m.value, range.minRef, range.maxRef)
         });
       }
     }
@@ -70,7 +153,78 @@ const AccountView: React.FC<Props> = ({
 
     // Sort descending (newest first)
     return combined.sort((a, b) => parseDate(b.date).getTime() - parseDate(a.date).getTime());
-  }, [measurements, notes, markers]);
+  }, [measurements, notes, markers, measurementRanges]);
+
+  const handleSaveProfile = async () => {
+      setSavingProfile(true);
+      try {
+          await onSaveProfile({ birthDate: birthDate || null, sex: sex || null });
+      } catch {
+          // Toast is shown by the parent
+      } finally {
+          setSavingProfile(false);
+      }
+  };
+
+  const handleExportAll = () => {
+      setExporting(true);
+      setExportMsg('');
+      try {
+          const archive = buildExportArchive({
+              userId: session.user.id,
+              email: session.user.email,
+              profile,
+              markers,
+              measurements,
+              notes,
+              todos,
+              plans,
+              ignoredMarkerIds,
+              markerGoals,
+              statsHistory,
+              measurementRanges,
+          });
+          const stamp = new Date().toISOString().split('T')[0];
+          downloadBlob(archive, `minablodprov-export-${stamp}.zip`);
+          setExportMsg(`${measurements.length} mätningar, ${notes.length} anteckningar, ${todos.length} att göra och ${plans.length} planer exporterade.`);
+      } catch (e: any) {
+          console.error('Export failed:', e);
+          setExportMsg("Kunde inte skapa exporten: " + (e?.message || e));
+      } finally {
+          setExporting(false);
+      }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      setRestorePlan(null);
+      setRestoreMsg('');
+      try {
+          const data = await readExportFile(file);
+          setRestoreFileName(file.name);
+          setRestorePlan(planRestore(data, { markers, measurements, notes, todos, plans, profile, markerGoals }));
+      } catch (err: any) {
+          console.error('Could not read export:', err);
+          setRestoreMsg(err instanceof RestoreError ? err.message : 'Kunde inte läsa filen.');
+      }
+  };
+
+  const handleConfirmRestore = async () => {
+      if (!restorePlan) return;
+      setRestoring(true);
+      try {
+          await onRestore(restorePlan);
+          setRestorePlan(null);
+          setRestoreMsg('Återställningen är klar.');
+      } catch {
+          // App shows the error toast; keep the preview so the user can retry
+      } finally {
+          setRestoring(false);
+      }
+  };
 
   const handleUpdatePassword = async () => {
       if(newPassword.length < 6) {
@@ -78,8 +232,7 @@ const AccountView: React.FC<Props> = ({
           return;
       }
       try {
-          const { error } = await supabase.auth.updateUser({ password: newPassword });
-          if(error) throw error;
+          await onUpdatePassword(newPassword);
           setPwMsg("Lösenord uppdaterat!");
           setTimeout(() => { setPasswordMode(false); setPwMsg(''); setNewPassword(''); }, 2000);
       } catch(e:any) {
@@ -88,6 +241,7 @@ const AccountView: React.FC<Props> = ({
   };
 
   return (
+    <>
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 pb-20">
       
       {/* 1. Header Section */}
@@ -148,6 +302,222 @@ const AccountView: React.FC<Props> = ({
                     </button>
                 </div>
             </div>
+
+            {/* Health Profile Card */}
+            <div className="bg-white rounded-3xl p-6 shadow-sm ring-1 ring-slate-900/5">
+                <h3 className="text-sm font-bold text-slate-900">Hälsoprofil</h3>
+                <p className="text-xs text-slate-500 mt-1 mb-4">
+                    Kön och ålder styr vilka referensintervall som gäller för dig, t.ex. för Hb, ferritin och kreatinin.
+                </p>
+
+                <div className="space-y-3">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Födelsedatum</label>
+                        <input
+                            type="date"
+                            value={birthDate}
+                            onChange={e => setBirthDate(e.target.value)}
+                            className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-900 outline-none"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Kön</label>
+                        <div className="flex gap-2">
+                            {SEX_OPTIONS.map(opt => (
+                                <button
+                                    key={opt.id}
+                                    type="button"
+                                    onClick={() => setSex(sex === opt.id ? '' : opt.id)}
+                                    className={cx(
+                                        "flex-1 py-2 text-xs font-bold rounded-lg ring-1 transition-colors",
+                                        sex === opt.id ? "bg-slate-900 text-white ring-slate-900" : "bg-white text-slate-600 ring-slate-300 hover:bg-slate-50"
+                                    )}
+                                >
+                                    {opt.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <button
+                        onClick={handleSaveProfile}
+                        disabled={!profileDirty || savingProfile}
+                        className="w-full py-2.5 text-xs font-bold bg-slate-900 text-white rounded-lg disabled:opacity-40"
+                    >
+                        {savingProfile ? 'Sparar...' : 'Spara profil'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Custom Markers Card */}
+            <div className="bg-white rounded-3xl p-6 shadow-sm ring-1 ring-slate-900/5">
+                <div className="flex items-center justify-between mb-1">
+                    <h3 className="text-sm font-bold text-slate-900">Mina egna markörer</h3>
+                    <button
+                        onClick={() => setIsCreatingMarker(true)}
+                        className="text-xs font-bold text-emerald-700 hover:text-emerald-800"
+                    >
+                        + Ny markör
+                    </button>
+                </div>
+                <p className="text-xs text-slate-500 mb-4">
+                    För sådant som saknas i katalogen. Egna markörer syns bara för dig.
+                </p>
+                {ownMarkers.length === 0 ? (
+                    <div className="text-xs text-slate-400">Inga egna markörer ännu.</div>
+                ) : (
+                    <ul className="divide-y divide-slate-100">
+                        {ownMarkers.map((m) => {
+                            const count = measurements.filter((x) => x.markerId === m.id).length;
+                            return (
+                                <li key={m.id} className="py-2 flex items-center justify-between gap-2">
+                                    <button onClick={() => onSelectMarker(m.id)} className="text-left min-w-0">
+                                        <div className="text-sm font-bold text-slate-800 truncate">{m.name}</div>
+                                        <div className="text-[11px] text-slate-400">
+                                            {m.unit} · ref {formatNumber(m.minRef)}–{formatNumber(m.maxRef)} · {count} mätningar
+                                        </div>
+                                    </button>
+                                    <button
+                                        onClick={() => onDeleteMarker(m.id)}
+                                        disabled={count > 0}
+                                        title={count > 0 ? 'Ta bort mätningarna först' : 'Ta bort markören'}
+                                        className="text-xs font-bold text-slate-400 hover:text-rose-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                                    >
+                                        Ta bort
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                {isAdmin && reviewMarkers.length > 0 && (
+                    <div className="mt-5 pt-4 border-t border-slate-100">
+                        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">Admin: användarnas markörer</h4>
+                        <ul className="divide-y divide-slate-100">
+                            {reviewMarkers.map((m) => (
+                                <li key={m.id} className="py-2 flex items-center justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-bold text-slate-800 truncate">{m.name}</div>
+                                        <div className="text-[11px] text-slate-400">
+                                            {m.unit} · ref {formatNumber(m.minRef)}–{formatNumber(m.maxRef)} · {m.category}
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => onPromoteMarker(m.id)}
+                                        className="text-xs font-bold text-emerald-700 hover:text-emerald-800 whitespace-nowrap"
+                                    >
+                                        Lägg i katalogen
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+
+            {/* Advice Library Card (admins) */}
+            {isAdmin && (
+              <div className="bg-white rounded-3xl p-6 shadow-sm ring-1 ring-slate-900/5">
+                  <h3 className="text-sm font-bold text-slate-900">Admin: rådbibliotek</h3>
+                  <p className="text-xs text-slate-500 mt-1 mb-4">
+                      Råd per fokusområde och markör. Visas på markörsidan och i dashboardens rådkort för alla användare.
+                  </p>
+                  <AdviceLibrary library={adviceLibrary} markers={markers} onSave={onSaveAdvice} onDelete={onDeleteAdvice} />
+              </div>
+            )}
+
+            {/* Data Export Card */}
+            <div className="bg-white rounded-3xl p-6 shadow-sm ring-1 ring-slate-900/5">
+                <h3 className="text-sm font-bold text-slate-900">Exportera all min data</h3>
+                <p className="text-xs text-slate-500 mt-1 mb-4">
+                    En zip-fil med mätningar, anteckningar, att göra, planer och mål som CSV, JSON och FHIR R4 (med LOINC-koder där de finns).
+                </p>
+                {exportMsg && <div className="text-xs font-bold mb-3 text-slate-600">{exportMsg}</div>}
+                <button
+                    onClick={handleExportAll}
+                    disabled={exporting}
+                    className="w-full py-2.5 text-xs font-bold bg-slate-900 text-white rounded-lg disabled:opacity-40"
+                >
+                    {exporting ? 'Skapar export...' : 'Ladda ner export (.zip)'}
+                </button>
+            </div>
+
+            {/* Restore Card */}
+            <div className="bg-white rounded-3xl p-6 shadow-sm ring-1 ring-slate-900/5">
+                <h3 className="text-sm font-bold text-slate-900">Återställ från export</h3>
+                <p className="text-xs text-slate-500 mt-1 mb-4">
+                    Läs in en export (.zip eller minablodprov-export.json). Markörer matchas på namn om katalogen skiljer sig, och sådant som redan finns sparas inte igen.
+                </p>
+                {restoreMsg && <div className="text-xs font-bold mb-3 text-slate-600">{restoreMsg}</div>}
+
+                {restorePlan ? (
+                    <div className="space-y-3">
+                        <div className="text-xs text-slate-500">
+                            <span className="font-bold text-slate-700">{restoreFileName}</span>
+                            {restorePlan.exportedAt && <> · exporterad {formatDateTime(restorePlan.exportedAt)}</>}
+                        </div>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-slate-400 text-left">
+                                    <th className="font-bold py-1">Tabell</th>
+                                    <th className="font-bold py-1 text-right">Nya</th>
+                                    <th className="font-bold py-1 text-right">Finns</th>
+                                    <th className="font-bold py-1 text-right">Hoppas över</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {RESTORE_TABLES.map((t) => {
+                                    const c = restorePlan.counts[t.id];
+                                    return (
+                                        <tr key={t.id} className="border-t border-slate-100">
+                                            <td className="py-1.5 text-slate-700 font-medium">{t.label}</td>
+                                            <td className="py-1.5 text-right font-bold text-slate-900">{c.new}</td>
+                                            <td className="py-1.5 text-right text-slate-500">{c.existing}</td>
+                                            <td className={cx('py-1.5 text-right', c.skipped > 0 ? 'text-amber-600 font-bold' : 'text-slate-400')}>{c.skipped}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        {restorePlan.markerGoals.length > 0 && (
+                            <div className="text-xs text-slate-500">
+                                {restorePlan.markerGoals.length} egna mål läggs till.
+                            </div>
+                        )}
+                        {restorePlan.remappedMarkers > 0 && (
+                            <div className="text-xs text-slate-500">
+                                {restorePlan.remappedMarkers} markörer matchades på namn mot den här katalogen.
+                            </div>
+                        )}
+                        {restorePlan.unmatchedMarkers.length > 0 && (
+                            <div className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2">
+                                Saknas i katalogen, hoppas över: {restorePlan.unmatchedMarkers.map((m) => m.name).join(', ')}
+                            </div>
+                        )}
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setRestorePlan(null)}
+                                disabled={restoring}
+                                className="flex-1 py-2.5 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg"
+                            >
+                                Avbryt
+                            </button>
+                            <button
+                                onClick={handleConfirmRestore}
+                                disabled={restoring || restoreIsEmpty(restorePlan)}
+                                className="flex-1 py-2.5 text-xs font-bold bg-slate-900 text-white rounded-lg disabled:opacity-40"
+                            >
+                                {restoring ? 'Återställer...' : restoreIsEmpty(restorePlan) ? 'Inget nytt att återställa' : 'Återställ'}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <label className="block w-full py-2.5 text-xs font-bold text-center border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 cursor-pointer">
+                        Välj exportfil...
+                        <input type="file" accept=".zip,.json,application/zip,application/json" className="hidden" onChange={handleRestoreFile} />
+                    </label>
+                )}
+            </div>
         </div>
 
         {/* RIGHT COLUMN: Full Timeline */}
@@ -228,6 +598,14 @@ const AccountView: React.FC<Props> = ({
 
       </div>
     </div>
+
+    <CustomMarkerModal
+      isOpen={isCreatingMarker}
+      onClose={() => setIsCreatingMarker(false)}
+      onSave={onCreateMarker}
+      categories={markerCategories}
+    />
+    </>
   );
 };
 
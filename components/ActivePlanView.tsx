@@ -25,8 +25,9 @@ interface Props {
     markerIds: string[],
     startDate: string | undefined,
     targetDate: string | undefined,
-    goals: JournalGoal[]
-  ) => Promise<string>;
+    goals: JournalGoal[],
+    expectedUpdatedAt: string | undefined // updatedAt the edit started from, for the conflict check
+  ) => Promise<string | null>; // null: the user chose to keep editing after a conflict
 }
 
 const cx = (...classes: Array<string | false | null | undefined>) => classes.filter(Boolean).join(' ');
@@ -194,11 +195,14 @@ const ActivePlanView: React.FC<Props> = ({
   const [newGoalValueUpper, setNewGoalValueUpper] = useState('');
 
   const contentRef = useRef<HTMLDivElement>(null);
+  const editBaseUpdatedAt = useRef<string | undefined>(undefined);
   const markerMap = useMemo(() => new Map(allMarkers.map(m => [m.id, m])), [allMarkers]);
 
-  // Sync internal state when plan changes or edit mode toggles
+  // Sync internal state when another plan is shown or edit mode toggles. Not on every
+  // change to the plan: a save from another tab must not wipe an edit in progress.
   useEffect(() => {
       if(plan) {
+          editBaseUpdatedAt.current = plan.id === 'temp-new' ? undefined : plan.updatedAt;
           setTitle(plan.title || '');
           setStartDate(plan.startDate || todayLocalISO());
           setTargetDate(plan.targetDate || '');
@@ -209,7 +213,7 @@ const ActivePlanView: React.FC<Props> = ({
               contentRef.current.innerHTML = sanitizeHtmlUnsafe(plan.content || '');
           }
       }
-  }, [plan, isEditing]);
+  }, [plan?.id, isEditing]);
 
   const execCmd = (command: string, value?: string) => {
     document.execCommand(command, false, value);
@@ -222,16 +226,17 @@ const ActivePlanView: React.FC<Props> = ({
       setIsSaving(true);
       try {
           const content = contentRef.current ? sanitizeHtmlUnsafe(contentRef.current.innerHTML) : '';
-          await onSave(
+          const savedId = await onSave(
               plan?.id,
               title,
               content,
               markerIds,
               normalizeOptionalDate(startDate),
               normalizeOptionalDate(targetDate),
-              goals
+              goals,
+              editBaseUpdatedAt.current
           );
-          setIsEditing(false);
+          if (savedId !== null) setIsEditing(false);
       } catch(e) {
           console.error(e);
       } finally {
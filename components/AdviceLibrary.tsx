@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { Advice, AdviceDirection, AdviceInput, AdviceSource, BloodMarker, EvidenceLevel, FocusAreaId } from '../types';
+import { FOCUS_AREAS, focusAreaMeta } from '../utils';
+import { EVIDENCE_LEVELS, evidenceMeta, parseAdviceSources } from '../advice';
+
+interface Props {
+  library: Advice[] | null; // null when the advice table is missing
+  markers: BloodMarker[];
+  onSave: (input: AdviceInput, adviceId?: string) => Promise<void>;
+  onDelete: (adviceId: string) => Promise<void>;
+}
+
+type Draft = {
+  focusArea: FocusAreaId | '';
+  markerId: string;
+  direction: AdviceDirection | '';
+  title: string;
+  description: string;
+  evidenceLevel: EvidenceLevel;
+  sources: string; // one per line: "Label | https://..."
+  sortOrder: string;
+};
+
+const emptyDraft = (): Draft => ({
+  focusArea: '',
+  markerId: '',
+  direction: '',
+  title: '',
+  description: '',
+  evidenceLevel: 'expert',
+  sources: '',
+  sortOrder: '0',
+});
+
+const toDraft = (a: Advice): Draft => ({
+  focusArea: a.focusArea ?? '',
+  markerId: a.markerId ?? '',
+  direction: a.direction ?? '',
+  title: a.title,
+  description: a.description,
+  evidenceLevel: a.evidenceLevel,
+  sources: a.sources.map((s) => (s.label && s.label !== s.url ? `${s.label} | ${s.url}` : s.url)).join('\n'),
+  sortOrder: String(a.sortOrder),
+});
+
+const parseSourceLines = (text: string): AdviceSource[] =>
+  parseAdviceSources(
+    text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        const i = line.lastIndexOf('|');
+        return i === -1 ? { label: '', url: line } : { label: line.slice(0, i).trim(), url: line.slice(i + 1).trim() };
+      }),
+  );
+
+const DIRECTION_LABEL: Record<AdviceDirection | '', string> = { '': 'Låga och höga', low: 'Låga värden', high: 'Höga värden' };
+
+const inputClass =
+  'w-full bg-slate-50 border border-slate-200 text-slate-900 text-xs rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent p-2';
+const labelClass = 'block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1';
+
+const AdviceLibrary: React.FC<Props> = ({ library, markers, onSave, onDelete }) => {
+  const [filter, setFilter] = useState<FocusAreaId | 'markers' | 'all'>('all');
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const catalogMarkers = useMemo(
+    () => markers.filter((m) => !m.ownerId).sort((a, b) => a.name.localeCompare(b.name, 'sv')),
+    [markers],
+  );
+  const markerName = (id: string | null) => (id ? markers.find((m) => m.id === id)?.name ?? 'Okänd markör' : '');
+
+  const rows = useMemo(() => {
+    const list = (library ?? []).filter((a) =>
+      filter === 'all' ? true : filter === 'markers' ? Boolean(a.markerId) : a.focusArea === filter && !a.markerId,
+    );
+    return list.sort((a, b) => {
+      const ta = a.markerId ? markerName(a.markerId) : focusAreaMeta(a.focusArea ?? 'other').title;
+      const tb = b.markerId ? markerName(b.markerId) : focusAreaMeta(b.focusArea ?? 'other').title;
+      return ta.localeCompare(tb, 'sv') || a.sortOrder - b.sortOrder;
+    });
+  }, [library, filter, markers]);
+
+  if (!library) {
+    return (
+      <div className="text-xs text-slate-400">
+        Rådbiblioteket saknas i databasen. Kör <code>0012_advice_library.sql</code>.
+      </div>
+    );
+  }
+
+  const startEdit = (a?: Advice) => {
+    setEditingId(a ? a.id : 'new');
+    setDraft(a ? toDraft(a) : emptyDraft());
+    setError(null);
+  };
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.focusArea && !draft.markerId) return setError('Välj ett fokusområde eller en markör.');
+    if (!draft.title.trim() || !draft.description.trim()) return setError('Ange rubrik och text.');
+    const sourceLines = draft.sources.split('\n').filter((l) => l.trim()).length;
+    const sources = parseSourceLines(draft.sources);
+    if (sources.length !== sourceLines) return setError('Källor måste vara länkar som börjar med http:// eller https://.');
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(
+        {
+          focusArea: draft.focusArea || null,
+          markerId: draft.markerId || null,
+          direction: draft.direction || null,
+          title: draft.title,
+          description: draft.description,
+          evidenceLevel: draft.evidenceLevel,
+          sources,
+          sortOrder: Number.parseInt(draft.sortOrder, 10) || 0,
+        },
+        editingId && editingId !== 'new' ? editingId : undefined,
+      );
+      setEditingId(null);
+    } catch {
+      setError('Kunde inte spara rådet.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as typeof filter)}
+          className="flex-1 h-8 rounded-lg bg-slate-50 border border-slate-200 px-2 text-xs font-semibold text-slate-600"
+        >
+          <option value="all">Alla råd ({library.length})</option>
+          <option value="markers">Markörspecifika</option>
+          {FOCUS_AREAS.map((a) => (
+            <option key={a.id} value={a.id}>{a.emoji} {a.title}</option>
+          ))}
+        </select>
+        {editingId === null && (
+          <button onClick={() => startEdit()} className="text-xs font-bold text-emerald-700 hover:text-emerald-800 whitespace-nowrap">
+            + Nytt råd
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="mb-4 p-3 rounded-xl bg-slate-50/60 ring-1 ring-slate-900/5 grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Fokusområde</label>
+            <select value={draft.focusArea} onChange={(e) => set('focusArea', e.target.value as FocusAreaId | '')} className={inputClass}>
+              <option value="">—</option>
+              {FOCUS_AREAS.map((a) => <option key={a.id} value={a.id}>{a.title}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Markör</label>
+            <select value={draft.markerId} onChange={(e) => set('markerId', e.target.value)} className={inputClass}>
+              <option value="">—</option>
+              {catalogMarkers.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Gäller</label>
+            <select value={draft.direction} onChange={(e) => set('direction', e.target.value as AdviceDirection | '')} className={inputClass}>
+              {(['', 'low', 'high'] as const).map((d) => <option key={d} value={d}>{DIRECTION_LABEL[d]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Evidens</label>
+            <select value={draft.evidenceLevel} onChange={(e) => set('evidenceLevel', e.target.value as EvidenceLevel)} className={inputClass}>
+              {EVIDENCE_LEVELS.map((l) => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Rubrik</label>
+            <input value={draft.title} onChange={(e) => set('title', e.target.value)} className={inputClass} />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Text</label>
+            <textarea value={draft.description} onChange={(e) => set('description', e.target.value)} rows={3} className={`${inputClass} resize-none`} />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Källor (en per rad: Namn | https://...)</label>
+            <textarea value={draft.sources} onChange={(e) => set('sources', e.target.value)} rows={2} className={`${inputClass} resize-none font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>Ordning</label>
+            <input inputMode="numeric" value={draft.sortOrder} onChange={(e) => set('sortOrder', e.target.value)} className={inputClass} />
+          </div>
+
+          {error && (
+            <div className="col-span-2 text-rose-600 text-xs font-semibold bg-rose-50 p-2 rounded-lg border border-rose-100">{error}</div>
+          )}
+
+          <div className="col-span-2 flex gap-2">
+            <button type="button" onClick={() => setEditingId(null)} className="flex-1 py-2 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg">
+              Avbryt
+            </button>
+            <button type="submit" disabled={saving} className="flex-1 py-2 text-xs font-bold bg-slate-900 text-white rounded-lg disabled:opacity-40">
+              {saving ? 'Sparar...' : 'Spara råd'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="text-xs text-slate-400">Inga råd här ännu.</div>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+          {rows.map((a) => (
+            <li key={a.id} className="py-2 flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-slate-800 truncate">{a.title}</div>
+                <div className="text-[11px] text-slate-400">
+                  {a.markerId ? markerName(a.markerId) : focusAreaMeta(a.focusArea ?? 'other').title}
+                  {' · '}{DIRECTION_LABEL[a.direction ?? '']}
+                  {' · '}{evidenceMeta(a.evidenceLevel).label}
+                  {a.sources.length > 0 && ` · ${a.sources.length} källor`}
+                </div>
+              </div>
+              <div className="flex gap-3 shrink-0">
+                <button onClick={() => startEdit(a)} className="text-xs font-bold text-slate-500 hover:text-slate-900">
+                  Ändra
+                </button>
+                <button onClick={() => onDelete(a.id)} className="text-xs font-bold text-slate-400 hover:text-rose-600">
+                  Ta bort
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AdviceLibrary;
@@ -1,6 +1,6 @@
 
 import React, { useMemo, useState } from 'react';
-import { supabase } from '../supabaseClient';
+import { Repository } from '../repository';
 import { Logo } from './Logo';
 
 const cx = (...classes: Array<string | false | null | undefined>) => classes.filter(Boolean).join(' ');
@@ -8,7 +8,11 @@ const cx = (...classes: Array<string | false | null | undefined>) => classes.fil
 type Mode = 'password' | 'magic';
 type Message = { type: 'success' | 'error'; text: string } | null;
 
-const Auth: React.FC = () => {
+interface Props {
+  repository: Repository;
+}
+
+const Auth: React.FC<Props> = ({ repository }) => {
   const [loading, setLoading] = useState(false);
   const [isSignUp, setIsSignUp] = useState(false);
   const [mode, setMode] = useState<Mode>('password');
@@ -47,12 +51,7 @@ const Auth: React.FC = () => {
         // Passwordless / Magic Link
         const redirectTo = typeof window !== 'undefined' ? window.location.origin : undefined;
 
-        const { error } = await supabase.auth.signInWithOtp({
-          email: emailTrimmed,
-          options: redirectTo ? { emailRedirectTo: redirectTo } : undefined,
-        });
-
-        if (error) throw error;
+        await repository.signInWithMagicLink(emailTrimmed, redirectTo);
 
         setMessage({
           type: 'success',
@@ -64,26 +63,16 @@ const Auth: React.FC = () => {
 
       // Password flow
       if (isSignUp) {
-        const { data, error } = await supabase.auth.signUp({
-          email: emailTrimmed,
-          password,
-        });
+        const { needsConfirmation } = await repository.signUp(emailTrimmed, password);
 
-        if (error) throw error;
-
-        if (data.user && !data.session) {
+        if (needsConfirmation) {
           setMessage({
             type: 'success',
             text: 'Konto skapat! Om e-postbekräftelse är på: bekräfta via mail. Annars kan du logga in direkt.',
           });
         }
       } else {
-        const { error } = await supabase.auth.signInWithPassword({
-          email: emailTrimmed,
-          password,
-        });
-
-        if (error) throw error;
+        await repository.signInWithPassword(emailTrimmed, password);
         // Vid success: App.tsx tar över via onAuthStateChange
       }
     } catch (err: any) {
@@ -1,13 +1,16 @@
 
 import React, { useMemo } from 'react';
-import { MarkerHistory, Measurement } from '../types';
+import { MarkerGoal, MarkerHistory, Measurement, ResolvedRange } from '../types';
 import {
   clamp,
   computeDelta,
   formatDate,
   formatNumber,
   getStatus,
+  getMeasurementRange,
   getStatusTextColor,
+  getSeverityText,
+  isOutsideGoal,
   isWithinRange,
   distanceToRange
 } from '../utils';
@@ -24,9 +27,11 @@ const MiniHistorySparkline: React.FC<{
   measurements: Measurement[];
   minRef: number;
   maxRef: number;
+  measurementRanges?: Record<string, ResolvedRange>;
+  goal?: MarkerGoal;
   className?: string;
   isIgnored?: boolean;
-}> = ({ measurements, minRef, maxRef, className, isIgnored }) => {
+}> = ({ measurements, minRef, maxRef, measurementRanges, goal, className, isIgnored }) => {
   // measurements are latest-first in our app. 
   // We take the last N points and reverse them to be chronological (oldest -> newest) for plotting.
   const points = useMemo(() => {
@@ -49,6 +54,12 @@ const MiniHistorySparkline: React.FC<{
     activeMax = Math.max(activeMax, ...dataVals);
   }
 
+  // ...and the personal target band
+  if (goal) {
+    activeMin = Math.min(activeMin, goal.targetMin);
+    activeMax = Math.max(activeMax, goal.targetMax);
+  }
+
   // Calculate spread and padding
   let spread = activeMax - activeMin;
   
@@ -142,6 +153,15 @@ const MiniHistorySparkline: React.FC<{
       <line x1="0" y1={yRefMax} x2={W} y2={yRefMax} stroke={isIgnored ? "#cbd5e1" : "#86efac"} strokeWidth="0.5" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
       <line x1="0" y1={yRefMin} x2={W} y2={yRefMin} stroke={isIgnored ? "#cbd5e1" : "#86efac"} strokeWidth="0.5" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
 
+      {/* Personal target band */}
+      {goal && (
+        <>
+          <rect x="0" y={getY(goal.targetMax)} width={W} height={Math.max(0, getY(goal.targetMin) - getY(goal.targetMax))} fill={isIgnored ? "#e2e8f0" : "#c7d2fe"} opacity="0.55" />
+          <line x1="0" y1={getY(goal.targetMax)} x2={W} y2={getY(goal.targetMax)} stroke={isIgnored ? "#cbd5e1" : "#818cf8"} strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+          <line x1="0" y1={getY(goal.targetMin)} x2={W} y2={getY(goal.targetMin)} stroke={isIgnored ? "#cbd5e1" : "#818cf8"} strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+        </>
+      )}
+
       {/* 2. Connection Line */}
       <path 
         d={d} 
@@ -155,7 +175,8 @@ const MiniHistorySparkline: React.FC<{
 
       {/* 3. Data Points */}
       {points.map((p, i) => {
-        const s = getStatus(p.value, minRef, maxRef);
+        const r = measurementRanges?.[p.id];
+        const s = getStatus(p.value, r?.minRef ?? minRef, r?.maxRef ?? maxRef);
         const isLatest = i === points.length - 1;
         
         const fill = s === 'normal' ? dotNormalColor : dotErrorColor; 
@@ -180,7 +201,7 @@ const MiniHistorySparkline: React.FC<{
 };
 
 const BloodMarkerCard: React.FC<Props> = ({ data, onClick, onToggleIgnore }) => {
-  const { name, shortName, unit, latestMeasurement, status, minRef, maxRef, goal, measurements, notes, isIgnored, description, category, hasActivePlan } =
+  const { name, shortName, unit, latestMeasurement, status, severity, minRef, maxRef, goal, measurements, notes, isIgnored, description, category, hasActivePlan, rangeLabel, measurementRanges, ownerId, formula } =
     data;
 
   const deltaInfo = useMemo(() => computeDelta(measurements), [measurements]);
@@ -195,7 +216,8 @@ const BloodMarkerCard: React.FC<Props> = ({ data, onClick, onToggleIgnore }) =>
   let trendColorClass = 'bg-slate-100 text-slate-600'; 
   if (!isIgnored) {
     if (deltaInfo && deltaInfo.prev) {
-      const distPrev = distanceToRange(deltaInfo.prev.value, minRef, maxRef);
+      const prevRange = getMeasurementRange(data, deltaInfo.prev);
+      const distPrev = distanceToRange(deltaInfo.prev.value, prevRange.minRef, prevRange.maxRef);
       const distCurr = distanceToRange(latestMeasurement.value, minRef, maxRef);
       if (distCurr === 0 && distPrev === 0) {
         trendColorClass = 'bg-slate-100 text-slate-600';
@@ -216,11 +238,15 @@ const BloodMarkerCard: React.FC<Props> = ({ data, onClick, onToggleIgnore }) =>
     ? "bg-slate-300" 
     : status === 'normal' 
       ? 'bg-emerald-500' 
-      : 'bg-amber-500';
+      : severity === 'critical'
+        ? 'bg-red-600'
+        : severity === 'borderline'
+          ? 'bg-amber-400'
+          : 'bg-rose-500';
 
   const valueTextColor = isIgnored
     ? "text-slate-500"
-    : getStatusTextColor(status);
+    : getStatusTextColor(status, severity);
 
   return (
     <div
@@ -272,6 +298,16 @@ const BloodMarkerCard: React.FC<Props> = ({ data, onClick, onToggleIgnore }) =>
                       {category}
                     </span>
                   )}
+                  {ownerId && (
+                    <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-sky-50 text-sky-700 uppercase tracking-wide" title="Egen markör, syns bara för dig">
+                      Egen
+                    </span>
+                  )}
+                  {formula && (
+                    <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-violet-50 text-violet-700 uppercase tracking-wide" title="Beräknas från andra markörer">
+                      Beräknad
+                    </span>
+                  )}
                 </div>
                 <h3 className="font-display font-bold text-slate-900 text-lg leading-tight truncate pr-2">
                   {name}
@@ -305,6 +341,18 @@ const BloodMarkerCard: React.FC<Props> = ({ data, onClick, onToggleIgnore }) =>
            )}
 
            <div className="flex flex-wrap gap-2">
+              {!isIgnored && status !== 'normal' && (
+                 <div className={cx(
+                    "text-[10px] font-bold px-2.5 py-1 rounded-md border whitespace-nowrap",
+                    severity === 'critical'
+                      ? "bg-red-600 text-white border-red-700"
+                      : severity === 'borderline'
+                        ? "bg-amber-50 text-amber-700 border-amber-100"
+                        : "bg-rose-50 text-rose-700 border-rose-100"
+                 )}>
+                    {severity === 'critical' ? '⚠ ' : ''}{getSeverityText(severity)}
+                 </div>
+              )}
               {isIgnored && (
                  <div className="text-[10px] font-bold px-2.5 py-1 rounded-md bg-slate-200 text-slate-600 border border-slate-300 whitespace-nowrap">
                     Ignorerad
@@ -325,7 +373,12 @@ const BloodMarkerCard: React.FC<Props> = ({ data, onClick, onToggleIgnore }) =>
            
            <div className="text-[10px] text-slate-400 font-medium pt-2 border-t border-slate-50">
               Ref: {formatNumber(minRef)} – {formatNumber(maxRef)}
-              {goal && <span className="ml-1">• Mål aktivt</span>}
+              {rangeLabel && <span className="ml-1">({rangeLabel})</span>}
+              {goal && (
+                <span className={cx("ml-1", !isIgnored && isOutsideGoal(latestMeasurement.value, goal) && "text-indigo-600 font-bold")}>
+                  • Mål: {formatNumber(goal.targetMin)} – {formatNumber(goal.targetMax)}
+                </span>
+              )}
            </div>
         </div>
       </div>
@@ -338,6 +391,8 @@ const BloodMarkerCard: React.FC<Props> = ({ data, onClick, onToggleIgnore }) =>
               measurements={measurements}
               minRef={minRef}
               maxRef={maxRef}
+              measurementRanges={measurementRanges}
+              goal={goal}
               isIgnored={isIgnored}
               className="w-full h-full"
             />
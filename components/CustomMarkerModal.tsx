@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { CustomMarkerInput } from '../types';
+import { safeFloat } from '../utils';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (input: CustomMarkerInput) => Promise<unknown>;
+  categories: string[];
+  initialName?: string;
+}
+
+const inputClass =
+  'w-full bg-slate-50 border border-slate-200 text-slate-900 text-sm rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent p-3';
+
+const CustomMarkerModal: React.FC<Props> = ({ isOpen, onClose, onSave, categories, initialName }) => {
+  const [name, setName] = useState('');
+  const [shortName, setShortName] = useState('');
+  const [unit, setUnit] = useState('');
+  const [minRef, setMinRef] = useState('');
+  const [maxRef, setMaxRef] = useState('');
+  const [category, setCategory] = useState('');
+  const [displayMin, setDisplayMin] = useState('');
+  const [displayMax, setDisplayMax] = useState('');
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(initialName ?? '');
+    setShortName('');
+    setUnit('');
+    setMinRef('');
+    setMaxRef('');
+    setCategory('');
+    setDisplayMin('');
+    setDisplayMax('');
+    setDescription('');
+    setError(null);
+  }, [isOpen, initialName]);
+
+  if (!isOpen) return null;
+
+  const validate = (): CustomMarkerInput | string => {
+    if (!name.trim()) return 'Ange ett namn.';
+    if (!unit.trim()) return 'Ange en enhet.';
+    if (!minRef.trim() || !maxRef.trim()) return 'Ange referensintervallets min och max.';
+    const min = safeFloat(minRef);
+    const max = safeFloat(maxRef);
+    if (min >= max) return 'Referensintervallets min måste vara lägre än max.';
+
+    const dMin = displayMin.trim() ? safeFloat(displayMin) : undefined;
+    const dMax = displayMax.trim() ? safeFloat(displayMax) : undefined;
+    if (dMin !== undefined && dMin > min) return 'Visningsintervallet måste rymma referensintervallet.';
+    if (dMax !== undefined && dMax < max) return 'Visningsintervallet måste rymma referensintervallet.';
+
+    return {
+      name: name.trim(),
+      shortName: shortName.trim() || name.trim().slice(0, 6),
+      unit: unit.trim(),
+      minRef: min,
+      maxRef: max,
+      category: category.trim() || 'Övrigt',
+      displayMin: dMin,
+      displayMax: dMax,
+      description: description.trim() || undefined,
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation(); // may be rendered inside another form's modal
+    const result = validate();
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(result);
+      onClose();
+    } catch {
+      setError('Kunde inte spara markören.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="px-6 py-5 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-display font-bold text-slate-900">Egen markör</h3>
+            <p className="text-xs text-slate-500">Syns bara för dig. Kan läggas till i den gemensamma katalogen av en admin.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 grid grid-cols-2 gap-4 max-h-[70vh] overflow-y-auto">
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Namn</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="T.ex. Omega-3-index" className={inputClass} autoFocus />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Förkortning</label>
+            <input value={shortName} onChange={(e) => setShortName(e.target.value)} placeholder="O3I" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Enhet</label>
+            <input value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="%" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Ref min</label>
+            <input inputMode="decimal" value={minRef} onChange={(e) => setMinRef(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Ref max</label>
+            <input inputMode="decimal" value={maxRef} onChange={(e) => setMaxRef(e.target.value)} className={inputClass} />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Kategori</label>
+            <input value={category} onChange={(e) => setCategory(e.target.value)} list="custom-marker-categories" placeholder="Övrigt" className={inputClass} />
+            <datalist id="custom-marker-categories">
+              {categories.map((c) => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Visa från</label>
+            <input inputMode="decimal" value={displayMin} onChange={(e) => setDisplayMin(e.target.value)} placeholder="Auto" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Visa till</label>
+            <input inputMode="decimal" value={displayMax} onChange={(e) => setDisplayMax(e.target.value)} placeholder="Auto" className={inputClass} />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Beskrivning</label>
+            <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={`${inputClass} resize-none`} />
+          </div>
+
+          {error && (
+            <div className="col-span-2 text-rose-600 text-sm font-semibold bg-rose-50 p-3 rounded-xl border border-rose-100">{error}</div>
+          )}
+
+          <div className="col-span-2 flex gap-2 pt-1">
+            <button type="button" onClick={onClose} className="flex-1 py-3 text-sm font-bold text-slate-500 hover:bg-slate-100 rounded-xl">
+              Avbryt
+            </button>
+            <button type="submit" disabled={saving} className="flex-1 py-3 text-sm font-bold bg-slate-900 text-white rounded-xl disabled:opacity-40">
+              {saving ? 'Sparar...' : 'Skapa markör'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CustomMarkerModal;
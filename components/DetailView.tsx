@@ -1,9 +1,12 @@
 
 import React, { useCallback, useMemo, useState, useEffect } from 'react';
-import { MarkerHistory, MeasurementTodo, BloodMarker } from '../types';
-import { formatDateTime, formatDate, formatNumber, parseDate } from '../utils';
+import { MarkerHistory, MeasurementTodo, BloodMarker, MarkerGoal, Advice } from '../types';
+import { formatDateTime, formatDate, formatNumber, parseDate, getMeasurementRange, getSeverity, isOutsideGoal, safeFloat } from '../utils';
 import HistoryChart from './HistoryChart';
 import ReferenceVisualizer from './ReferenceVisualizer';
+import { toCsv } from '../dataExport';
+import { resolveFormulaInputs } from '../derivedMarkers';
+import { evidenceMeta } from '../advice';
 import ActionList from './ActionList'; // Import reused component
 
 // --- HJÄLPKOMPONENTER FÖR UI (Inga externa beroenden) ---
@@ -25,6 +28,7 @@ const Icon = ({ name, className }: { name: string; className?: string }) => {
     eyeOff: <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />,
     eye: <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />,
     info: <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />,
+    alert: <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />,
     activity: <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
   };
   return <svg className={cx("w-5 h-5", className)} fill="none" stroke="currentColor" viewBox="0 0 24 24">{icons[name] || icons.eye}</svg>;
@@ -54,8 +58,12 @@ async function copyToClipboard(text: string) {
   document.body.removeChild(el);
 }
 
-function getRangeBadge(value: number, minRef: number, maxRef: number, isIgnored?: boolean) {
+function getRangeBadge(value: number, minRef: number, maxRef: number, isIgnored?: boolean, limits?: Pick<BloodMarker, 'criticalLow' | 'criticalHigh'>) {
   if (isIgnored) return { label: 'Ignorerad', color: 'slate', bg: 'bg-slate-100', text: 'text-slate-500', ring: 'ring-slate-200', dot: 'bg-slate-400' };
+  const severity = getSeverity(value, minRef, maxRef, limits);
+  const side = value < minRef ? 'lågt' : 'högt';
+  if (severity === 'critical') return { label: `Kritiskt ${side}`, color: 'rose', bg: 'bg-red-600', text: 'text-white', ring: 'ring-red-700', dot: 'bg-white' };
+  if (severity === 'borderline') return { label: `Gräns ${side}`, color: 'amber', bg: 'bg-amber-50', text: 'text-amber-800', ring: 'ring-amber-200', dot: 'bg-amber-400' };
   if (value < minRef) return { label: 'Lågt', color: 'amber', bg: 'bg-amber-50', text: 'text-amber-800', ring: 'ring-amber-200', dot: 'bg-amber-400' };
   if (value > maxRef) return { label: 'Högt', color: 'rose', bg: 'bg-rose-50', text: 'text-rose-800', ring: 'ring-rose-200', dot: 'bg-rose-400' };
   return { label: 'Optimalt', color: 'emerald', bg: 'bg-emerald-50', text: 'text-emerald-800', ring: 'ring-emerald-200', dot: 'bg-emerald-400' };
@@ -86,6 +94,39 @@ const InfoCard: React.FC<{ title: string; content?: string; type: 'general' | 'l
   );
 };
 
+// Ett råd ur rådbiblioteket, med evidensnivå och källor
+const AdviceCard: React.FC<{ advice: Advice; type: 'general' | 'low' | 'high' }> = ({ advice, type }) => {
+  const styles = {
+    general: "bg-indigo-50/50 border-indigo-100",
+    low: "bg-amber-50/50 border-amber-100",
+    high: "bg-rose-50/50 border-rose-100"
+  };
+  const evidence = evidenceMeta(advice.evidenceLevel);
+
+  return (
+    <div className={cx("rounded-3xl p-6 border text-slate-700", styles[type])}>
+      <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+        <h4 className="text-sm font-bold text-slate-900">{advice.title}</h4>
+        <span className={cx("px-2 py-0.5 rounded-full text-[10px] font-bold ring-1 ring-inset whitespace-nowrap", evidence.className)}>
+          {evidence.label}
+        </span>
+      </div>
+      <p className="text-sm leading-relaxed whitespace-pre-wrap">{advice.description}</p>
+      {advice.sources.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {advice.sources.map((src) => (
+            <li key={src.url} className="text-xs">
+              <a href={src.url} target="_blank" rel="noopener noreferrer" className="font-semibold text-indigo-700 hover:text-indigo-900 underline underline-offset-2">
+                {src.label}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 // --- MAIN COMPONENT ---
 
 interface Props {
@@ -106,6 +147,8 @@ interface Props {
   onToggleIgnore?: (markerId: string) => Promise<void>; // New prop
   allMarkers?: BloodMarker[];
   onUpdateTags?: (todoId: string, ids: string[]) => void;
+  onSaveGoal?: (markerId: string, goal: MarkerGoal | null) => Promise<void>;
+  advice?: Advice[]; // this marker's rows in the advice library; undefined when the table is missing
 }
 
 type ChartRange = '1m' | '3m' | '6m' | '1y' | 'all';
@@ -127,6 +170,8 @@ const DetailView: React.FC<Props> = ({
   onUpdateMeasurement,
   onToggleIgnore,
   allMarkers,
+  onSaveGoal,
+  advice,
   onUpdateTags
 }) => {
   // Scroll to top on mount
@@ -149,6 +194,10 @@ const DetailView: React.FC<Props> = ({
   const [editMeasValue, setEditMeasValue] = useState('');
   const [editMeasDate, setEditMeasDate] = useState('');
   const [confirmDelete, setConfirmDelete] = useState<{ type: 'meas'|'note'|'todo', id: string, desc: string } | null>(null);
+  const [isEditingGoal, setIsEditingGoal] = useState(false);
+  const [goalMinInput, setGoalMinInput] = useState('');
+  const [goalMaxInput, setGoalMaxInput] = useState('');
+  const [goalError, setGoalError] = useState<string | null>(null);
 
   // --- LOGIC ---
   
@@ -175,6 +224,13 @@ const DetailView: React.FC<Props> = ({
     [...(data.measurements || [])].sort((a, b) => parseDate(b.date).getTime() - parseDate(a.date).getTime()),
   [data.measurements]);
 
+  // Names of the markers a calculated marker is computed from
+  const formulaSources = useMemo(() => {
+    if (!data.formula || !allMarkers) return null;
+    const inputs = resolveFormulaInputs(data, allMarkers);
+    return inputs ? Object.values(inputs).map((m) => m.name).join(', ') : null;
+  }, [data, allMarkers]);
+
   const latest = sortedMeasurements[0] ?? null;
   const previous = sortedMeasurements[1] ?? null;
 
@@ -203,6 +259,39 @@ const DetailView: React.FC<Props> = ({
     return { delta, pct, up: delta > 0 };
   }, [latest, previous]);
 
+  const startEditGoal = () => {
+    setGoalMinInput(data.goal ? String(data.goal.targetMin) : String(data.minRef));
+    setGoalMaxInput(data.goal ? String(data.goal.targetMax) : String(data.maxRef));
+    setGoalError(null);
+    setIsEditingGoal(true);
+  };
+
+  const handleSaveGoal = async () => {
+    if (!onSaveGoal) return;
+    if (!goalMinInput.trim() || !goalMaxInput.trim()) {
+      setGoalError('Ange både min och max.');
+      return;
+    }
+    const targetMin = safeFloat(goalMinInput);
+    const targetMax = safeFloat(goalMaxInput);
+    if (targetMin >= targetMax) {
+      setGoalError('Min måste vara lägre än max.');
+      return;
+    }
+    await run('goal', async () => {
+      await onSaveGoal(data.id, { targetMin, targetMax });
+      setIsEditingGoal(false);
+    });
+  };
+
+  const handleClearGoal = async () => {
+    if (!onSaveGoal) return;
+    await run('goal', async () => {
+      await onSaveGoal(data.id, null);
+      setIsEditingGoal(false);
+    });
+  };
+
   const handleSaveNote = async () => {
     if(!newNoteText.trim()) return;
     await run('addNote', async () => {
@@ -241,7 +330,17 @@ const DetailView: React.FC<Props> = ({
   };
 
   const handleExport = async () => {
-    const csv = ['Datum,Värde,Enhet,Anteckning', ...sortedMeasurements.map(m => `${m.date},${m.value},${data.unit},"${m.note||''}"`)].join('\n');
+    // Calculated values are never exported, like in the full data export
+    const stored = sortedMeasurements.filter(m => !m.derived);
+    if (stored.length === 0) {
+      pushToast({ type: 'error', message: 'Det finns inga sparade mätningar att kopiera' });
+      return;
+    }
+    const csv = toCsv(
+      ['Datum', 'Värde', 'Enhet', 'Anteckning'],
+      stored.map(m => [m.date, m.value, data.unit, m.note]),
+      '\n'
+    );
     await copyToClipboard(csv);
     pushToast({ type: 'success', message: 'Data kopierad som CSV till urklipp' });
   };
@@ -253,10 +352,17 @@ const DetailView: React.FC<Props> = ({
   };
 
   const statusBadge = latest 
-    ? getRangeBadge(latest.value, data.minRef, data.maxRef, data.isIgnored) 
+    ? getRangeBadge(latest.value, data.minRef, data.maxRef, data.isIgnored, data) 
     : { color: 'slate', bg: 'bg-slate-100', text: 'text-slate-600', label: 'Inga data', dot: 'bg-slate-400', ring: 'ring-slate-200' };
 
-  const hasInfo = Boolean(data.description || data.recommendationLow || data.riskLow || data.recommendationHigh || data.riskHigh);
+  // Without the advice library, fall back to the recommendation texts on the marker
+  const generalAdvice = advice?.filter((a) => !a.direction) ?? [];
+  const lowAdvice = advice?.filter((a) => a.direction === 'low') ?? [];
+  const highAdvice = advice?.filter((a) => a.direction === 'high') ?? [];
+  const hasInfo = Boolean(
+    data.description || data.riskLow || data.riskHigh ||
+    (advice ? advice.length > 0 : data.recommendationLow || data.recommendationHigh)
+  );
 
   return (
     <div className="pb-32 bg-slate-50 min-h-screen animate-in fade-in duration-300">
@@ -319,7 +425,21 @@ const DetailView: React.FC<Props> = ({
                    </span>
                 )}
 
-                <span className="text-xs text-slate-400 font-medium ml-1">Ref: {data.minRef}-{data.maxRef}</span>
+                {data.ownerId && (
+                   <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-bold bg-sky-50 text-sky-700 ring-1 ring-inset ring-sky-900/10" title="Syns bara för dig">
+                     Egen markör
+                   </span>
+                )}
+
+                {data.formula && (
+                   <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-bold bg-violet-50 text-violet-700 ring-1 ring-inset ring-violet-900/10" title={formulaSources ? `Beräknas från ${formulaSources}` : 'Beräknas från andra markörer'}>
+                     Beräknad
+                   </span>
+                )}
+
+                <span className="text-xs text-slate-400 font-medium ml-1">
+                  Ref: {data.minRef}-{data.maxRef}{data.rangeLabel ? ` (${data.rangeLabel})` : ''}
+                </span>
               </div>
               
               <div className="flex items-baseline gap-2">
@@ -349,12 +469,25 @@ const DetailView: React.FC<Props> = ({
                      minRef={data.minRef} maxRef={data.maxRef}
                      displayMin={data.displayMin} displayMax={data.displayMax}
                      status={data.status}
+                     rangeLabel={data.rangeLabel}
+                     goalMin={data.goal?.targetMin}
+                     goalMax={data.goal?.targetMax}
                   />
                </div>
             )}
           </div>
         </section>
 
+        {data.severity === 'critical' && !data.isIgnored && (
+          <div role="alert" className="flex items-start gap-3 p-4 rounded-2xl bg-red-50 ring-1 ring-red-200 text-red-900">
+            <Icon name="alert" className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-bold">Värdet ligger långt utanför referensintervallet</p>
+              <p className="mt-0.5 text-red-800">Kontakta vården om du inte redan har gjort det. Ett enstaka prov kan vara felaktigt, men bör tas om snart.</p>
+            </div>
+          </div>
+        )}
+
         {/* 3. TABS */}
         <div className="flex p-1 bg-slate-200/60 rounded-xl w-full sm:w-fit mx-auto sm:mx-0">
            <button 
@@ -402,11 +535,84 @@ const DetailView: React.FC<Props> = ({
                       measurements={chartData} 
                       minRef={data.minRef} maxRef={data.maxRef} unit={data.unit}
                       displayMin={data.displayMin} displayMax={data.displayMax}
+                      measurementRanges={data.measurementRanges}
+                      goalMin={data.goal?.targetMin}
+                      goalMax={data.goal?.targetMax}
                     />
                   </div>
               </section>
             )}
 
+            {/* PERSONAL TARGET */}
+            {onSaveGoal && (
+              <section className="bg-white rounded-2xl p-5 shadow-sm ring-1 ring-slate-900/5">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <h3 className="text-sm font-bold text-slate-900">Mitt mål</h3>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {data.goal
+                        ? `${formatNumber(data.goal.targetMin)} – ${formatNumber(data.goal.targetMax)} ${data.unit}`
+                        : 'Ett eget optimalt intervall, vid sidan av referensintervallet.'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {data.goal && latest && (
+                      <span className={cx(
+                        "px-2 py-0.5 rounded text-[10px] font-bold uppercase",
+                        isOutsideGoal(latest.value, data.goal) ? "bg-indigo-50 text-indigo-700" : "bg-emerald-50 text-emerald-700"
+                      )}>
+                        {isOutsideGoal(latest.value, data.goal) ? 'Utanför mål' : 'Inom mål'}
+                      </span>
+                    )}
+                    {!isEditingGoal && (
+                      <button onClick={startEditGoal} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+                        {data.goal ? 'Ändra' : 'Sätt mål'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {isEditingGoal && (
+                  <div className="mt-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="block">
+                        <span className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Min ({data.unit})</span>
+                        <input
+                          inputMode="decimal"
+                          value={goalMinInput}
+                          onChange={(e) => setGoalMinInput(e.target.value)}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl p-2.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Max ({data.unit})</span>
+                        <input
+                          inputMode="decimal"
+                          value={goalMaxInput}
+                          onChange={(e) => setGoalMaxInput(e.target.value)}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl p-2.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        />
+                      </label>
+                    </div>
+                    {goalError && <div className="text-xs font-semibold text-rose-600">{goalError}</div>}
+                    <div className="flex gap-2 justify-end">
+                      {data.goal && (
+                        <button onClick={handleClearGoal} disabled={busy.goal} className="mr-auto px-3 py-2 text-xs font-bold text-rose-600 hover:bg-rose-50 rounded-lg disabled:opacity-40">
+                          Ta bort mål
+                        </button>
+                      )}
+                      <button onClick={() => setIsEditingGoal(false)} className="px-3 py-2 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg">
+                        Avbryt
+                      </button>
+                      <button onClick={handleSaveGoal} disabled={busy.goal} className="px-4 py-2 text-xs font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-40">
+                        Spara
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </section>
+            )}
+
             {/* ACTIONS & TODOS */}
             <section className="bg-white rounded-2xl p-5 shadow-sm ring-1 ring-slate-900/5">
               <div className="flex items-center justify-between mb-4">
@@ -476,6 +682,7 @@ const DetailView: React.FC<Props> = ({
                                 <div className="text-xs font-bold text-slate-400 mb-1.5 flex items-center gap-2">
                                   {formatDateTime(item.date)}
                                   {!isMeas && <span className="text-[10px] bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded font-bold uppercase">Anteckning</span>}
+                                  {isMeas && dataItem.derived && <span className="text-[10px] bg-violet-50 text-violet-700 px-1.5 py-0.5 rounded font-bold uppercase">Beräknad</span>}
                                 </div>
                                 
                                 {isMeas ? (
@@ -486,6 +693,20 @@ const DetailView: React.FC<Props> = ({
                                               {formatNumber(dataItem.value)} 
                                               <span className="text-sm font-normal text-slate-500 ml-1">{data.unit}</span>
                                             </div>
+                                            {(() => {
+                                              const r = getMeasurementRange(data, dataItem);
+                                              if (!r.fromLab) return null;
+                                              return (
+                                                <div className="text-xs text-slate-400 mt-0.5">
+                                                  {r.label}: {formatNumber(r.minRef)}–{formatNumber(r.maxRef)} {data.unit}
+                                                </div>
+                                              );
+                                            })()}
+                                            {dataItem.originalUnit && dataItem.originalValue != null && (
+                                              <div className="text-xs text-slate-400 mt-0.5">
+                                                Provsvar: {formatNumber(dataItem.originalValue, 3)} {dataItem.originalUnit}
+                                              </div>
+                                            )}
                                             {dataItem.note && (
                                               <div className="mt-2 text-sm text-slate-600 bg-slate-50 px-3 py-2 rounded-lg italic border border-slate-100">
                                                   "{dataItem.note}"
@@ -494,7 +715,8 @@ const DetailView: React.FC<Props> = ({
                                         </div>
                                         <div className="flex flex-col gap-2">
                                             {(() => {
-                                              const b = getRangeBadge(dataItem.value, data.minRef, data.maxRef, data.isIgnored);
+                                              const r = getMeasurementRange(data, dataItem);
+                                              const b = getRangeBadge(dataItem.value, r.minRef, r.maxRef, data.isIgnored, data);
                                               return <span className={cx("px-2 py-0.5 rounded text-[10px] font-bold uppercase text-center", b.bg, b.text)}>{b.label}</span>;
                                             })()}
                                         </div>
@@ -509,7 +731,7 @@ const DetailView: React.FC<Props> = ({
 
                             {/* Quick Actions (Hover) */}
                             <div className="flex sm:flex-col gap-1 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
-                                {isMeas ? (
+                                {isMeas && dataItem.derived ? null : isMeas ? (
                                   <button 
                                     onClick={() => { setEditingMeasId(dataItem.id); setEditMeasValue(String(dataItem.value)); setEditMeasDate(dataItem.date.split('T')[0]); }}
                                     className="p-2 text-slate-300 hover:text-slate-600 hover:bg-slate-100 rounded-lg"
@@ -524,7 +746,7 @@ const DetailView: React.FC<Props> = ({
                                       <Icon name="trash" className="w-4 h-4" />
                                   </button>
                                 )}
-                                {isMeas && onDeleteMeasurement && (
+                                {isMeas && !dataItem.derived && onDeleteMeasurement && (
                                   <button 
                                     onClick={() => setConfirmDelete({type:'meas', id:dataItem.id, desc:`${dataItem.value} ${data.unit}`})}
                                     className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg"
@@ -560,6 +782,8 @@ const DetailView: React.FC<Props> = ({
                     <InfoCard title="Om markören" content={data.description} type="general" />
                   )}
 
+                  {generalAdvice.map((a) => <AdviceCard key={a.id} advice={a} type="general" />)}
+
                   <div className="grid md:grid-cols-2 gap-6">
                      {/* Low Levels */}
                      <div className="space-y-4">
@@ -572,9 +796,11 @@ const DetailView: React.FC<Props> = ({
                         ) : (
                            <p className="text-xs text-slate-400 italic">Ingen information om risker vid låga värden.</p>
                         )}
-                        {data.recommendationLow && (
-                           <InfoCard title="Rekommendationer" content={data.recommendationLow} type="low" />
-                        )}
+                        {advice
+                           ? lowAdvice.map((a) => <AdviceCard key={a.id} advice={a} type="low" />)
+                           : data.recommendationLow && (
+                             <InfoCard title="Rekommendationer" content={data.recommendationLow} type="low" />
+                           )}
                      </div>
 
                      {/* High Levels */}
@@ -588,9 +814,11 @@ const DetailView: React.FC<Props> = ({
                         ) : (
                            <p className="text-xs text-slate-400 italic">Ingen information om risker vid höga värden.</p>
                         )}
-                        {data.recommendationHigh && (
-                           <InfoCard title="Rekommendationer" content={data.recommendationHigh} type="high" />
-                        )}
+                        {advice
+                           ? highAdvice.map((a) => <AdviceCard key={a.id} advice={a} type="high" />)
+                           : data.recommendationHigh && (
+                             <InfoCard title="Rekommendationer" content={data.recommendationHigh} type="high" />
+                           )}
                      </div>
                   </div>
                   
@@ -615,13 +843,15 @@ const DetailView: React.FC<Props> = ({
               <Icon name="note" className="w-5 h-5" />
           </button>
           
-          <button 
-              onClick={() => onAddMeasurement(data.id)}
-              className="w-14 h-14 rounded-full bg-slate-900 text-white shadow-xl shadow-slate-900/20 flex items-center justify-center transition-transform hover:scale-105 active:scale-95"
-              title="Ny mätning"
-          >
-              <Icon name="plus" className="w-6 h-6" />
-          </button>
+          {!data.formula && (
+            <button 
+                onClick={() => onAddMeasurement(data.id)}
+                className="w-14 h-14 rounded-full bg-slate-900 text-white shadow-xl shadow-slate-900/20 flex items-center justify-center transition-transform hover:scale-105 active:scale-95"
+                title="Ny mätning"
+            >
+                <Icon name="plus" className="w-6 h-6" />
+            </button>
+          )}
         </div>
       )}
 
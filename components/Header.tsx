@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { Logo } from './Logo';
+import { SyncStatus } from '../repository';
 
 export type NavTab = 'dashboard' | 'plan' | 'account';
 
@@ -11,6 +12,7 @@ interface Props {
   onRefresh?: () => Promise<void> | void;
   onSignOut?: () => Promise<void> | void;
   onOpenTimeline?: () => void;
+  syncStatus?: SyncStatus; // Offline cache/outbox; no indicator when omitted
 }
 
 const cx = (...classes: Array<string | false | null | undefined>) => classes.filter(Boolean).join(' ');
@@ -38,11 +40,47 @@ const NavIcon = ({ name, active }: { name: string; active: boolean }) => {
   }
 };
 
+// Shown only when something is worth knowing: offline, syncing or writes waiting in the outbox
+const SyncIndicator = ({ status }: { status: SyncStatus }) => {
+  let label: string;
+  let title: string;
+  let tone: string;
+  if (!status.online) {
+    label = 'Offline';
+    title = status.pending > 0
+      ? `${status.pending} ändringar sparas lokalt och synkas när du är online igen`
+      : 'Visar sparad data. Ändringar synkas när du är online igen';
+    tone = 'bg-amber-50 text-amber-800 ring-amber-900/10';
+  } else if (status.syncing) {
+    label = 'Synkar…';
+    title = 'Skickar ändringar som gjordes offline';
+    tone = 'bg-sky-50 text-sky-800 ring-sky-900/10';
+  } else if (status.pending > 0) {
+    label = `${status.pending} osynkade`;
+    title = 'Ändringar som väntar på att skickas';
+    tone = 'bg-amber-50 text-amber-800 ring-amber-900/10';
+  } else {
+    return null;
+  }
+
+  return (
+    <span
+      className={cx('inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-[11px] font-bold ring-1 whitespace-nowrap', tone)}
+      title={title}
+      role="status"
+    >
+      <span className={cx('w-1.5 h-1.5 rounded-full', status.online && status.syncing ? 'bg-sky-500 animate-pulse' : 'bg-amber-500')} />
+      {label}
+    </span>
+  );
+};
+
 const Header: React.FC<Props> = ({ 
   activeTab, 
   onNavigate, 
   loading, 
-  onRefresh
+  onRefresh,
+  syncStatus
 }) => {
   
   const navItems: { id: NavTab; label: string }[] = [
@@ -101,6 +139,8 @@ const Header: React.FC<Props> = ({
 
         {/* RIGHT ACTIONS */}
         <div className="flex items-center justify-end gap-2 shrink-0">
+          {syncStatus && <SyncIndicator status={syncStatus} />}
+
           {onRefresh && (
              <button
                 onClick={onRefresh}
@@ -11,8 +11,8 @@ import {
   ReferenceArea,
   ReferenceLine,
 } from 'recharts';
-import { Measurement } from '../types';
-import { formatDate, formatDateTime, formatNumber, getStatus, parseDate } from '../utils';
+import { Measurement, ResolvedRange } from '../types';
+import { formatDate, formatDateTime, formatNumber, getStatus, isOutsideGoal, parseDate } from '../utils';
 
 interface Props {
   measurements: Measurement[];
@@ -21,9 +21,26 @@ interface Props {
   unit: string;
   displayMin?: number; 
   displayMax?: number;
+  measurementRanges?: Record<string, ResolvedRange>; // Per-measurement range (sex/age at sampling date)
+  goalMin?: number; // personal target range, drawn as a band on top of the reference zones
+  goalMax?: number;
 }
 
-const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) => {
+// recharts' ReferenceArea props do not list the SVG paint attributes, so they go in as a spread
+const GOAL_BAND_STYLE = { fill: '#c7d2fe', fillOpacity: 0.45, stroke: 'none' };
+
+const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit, measurementRanges, goalMin, goalMax }) => {
+  const goal =
+    Number.isFinite(goalMin) && Number.isFinite(goalMax) && (goalMin as number) < (goalMax as number)
+      ? { targetMin: goalMin as number, targetMax: goalMax as number }
+      : undefined;
+
+  // Each point is judged against the range that applied when it was taken
+  const statusFor = (m: Pick<Measurement, 'id' | 'value'>) => {
+    const r = measurementRanges?.[m.id];
+    return getStatus(m.value, r?.minRef ?? minRef, r?.maxRef ?? maxRef);
+  };
+
   const chartData = useMemo(() => {
     const sorted = [...measurements]
       .map((m) => {
@@ -48,6 +65,12 @@ const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) =
       activeMin = Math.min(activeMin, ...dataVals);
       activeMax = Math.max(activeMax, ...dataVals);
     }
+
+    // ...and the personal target band
+    if (goal) {
+      activeMin = Math.min(activeMin, goal.targetMin);
+      activeMax = Math.max(activeMax, goal.targetMax);
+    }
     
     // Calculate the spread (height) of the relevant area
     let spread = activeMax - activeMin;
@@ -88,7 +111,7 @@ const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) =
     }
 
     return { y: [yMin, yMax] as [number, number], x: [xMin, xMax] as [number, number] };
-  }, [chartData, minRef, maxRef]);
+  }, [chartData, minRef, maxRef, goal?.targetMin, goal?.targetMax]);
 
   // Determine needed precision for Y-axis
   const { y: [minY, maxY] } = domains;
@@ -112,7 +135,8 @@ const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) =
     const p = payload[0]?.payload as (Measurement & { t?: number }) | undefined;
     if (!p) return null;
 
-    const status = getStatus(p.value, minRef, maxRef);
+    const status = statusFor(p);
+    const labRange = measurementRanges?.[p.id]?.fromLab ? measurementRanges[p.id] : null;
 
     return (
       <div className="bg-slate-900 text-white p-3 rounded-2xl shadow-xl text-xs max-w-[280px] z-50">
@@ -125,6 +149,16 @@ const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) =
           <div className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-white/10">
             {status === 'normal' ? 'Inom ref' : status === 'high' ? 'Över ref' : 'Under ref'}
           </div>
+          {goal && isOutsideGoal(p.value, goal) ? (
+            <div className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-indigo-500/30 text-indigo-100">
+              Utanför mål
+            </div>
+          ) : null}
+          {p.derived ? (
+            <div className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-violet-500/20 text-violet-100">
+              beräknad
+            </div>
+          ) : null}
           {p.note ? (
             <div className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-100">
               📝 not
@@ -132,6 +166,18 @@ const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) =
           ) : null}
         </div>
 
+        {labRange ? (
+          <div className="mt-1 text-slate-300">
+            {labRange.label}: {formatNumber(labRange.minRef)} – {formatNumber(labRange.maxRef)} {unit}
+          </div>
+        ) : null}
+
+        {p.originalUnit && p.originalValue != null ? (
+          <div className="mt-1 text-slate-300">
+            Provsvar: {formatNumber(p.originalValue, 3)} {p.originalUnit}
+          </div>
+        ) : null}
+
         {p.note ? (
           <div className="mt-2 text-slate-200 whitespace-pre-wrap">
             <span className="text-slate-300 font-semibold">Anteckning:</span> {p.note}
@@ -147,7 +193,7 @@ const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) =
 
     const v = payload.value as number;
     const note = payload.note as string | undefined;
-    const status = getStatus(v, minRef, maxRef);
+    const status = statusFor({ id: payload.id, value: v });
 
     const fill = status === 'normal' ? '#0f172a' : '#e11d48'; // slate-900 vs rose-600
     const innerR = status === 'normal' ? 4 : 5;
@@ -213,6 +259,13 @@ const HistoryChart: React.FC<Props> = ({ measurements, minRef, maxRef, unit }) =
           <ReferenceLine y={minRef} stroke="#86efac" strokeDasharray="4 4" />
           <ReferenceLine y={maxRef} stroke="#86efac" strokeDasharray="4 4" />
 
+          {/* Personal target band */}
+          {goal ? (
+            <ReferenceArea y1={goal.targetMin} y2={goal.targetMax} {...GOAL_BAND_STYLE} />
+          ) : null}
+          {goal ? <ReferenceLine y={goal.targetMin} stroke="#6366f1" strokeOpacity={0.8} /> : null}
+          {goal ? <ReferenceLine y={goal.targetMax} stroke="#6366f1" strokeOpacity={0.8} /> : null}
+
           <Line
             type="monotone"
             dataKey="value"
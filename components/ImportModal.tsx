@@ -1,22 +1,87 @@
 
-import React, { useState } from 'react';
-import { BloodMarker } from '../types';
+import React, { useRef, useState } from 'react';
+import { BloodMarker, ImportSource, Measurement } from '../types';
+import { isLocalBackend } from '../supabaseClient';
+import { formatNumber } from '../utils';
+import { convertValue, getUnitOptions, isSameUnit, normalizeUnit } from '../units';
+import { ExtractedPdf, SourceLine, describeSourceLine, extractPdfText, getSourceLines, isPdfFile } from '../pdfText';
+import { LabFlag, parseLabText } from '../labParser';
+import { ImportConflict, ImportResolution, RESOLUTION_OPTIONS, defaultResolution, findImportConflict } from '../importConflicts';
+import { parseStructuredImport } from '../structuredImport';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   availableMarkers: BloodMarker[];
-  onSave: (measurements: Array<{ markerId: string; value: number; date: string }>) => Promise<void>;
+  existingMeasurements: Measurement[];
+  onSave: (
+    measurements: Array<{
+      markerId: string;
+      value: number;
+      date: string;
+      unit?: string;
+      labMinRef?: number | null;
+      labMaxRef?: number | null;
+      labName?: string | null;
+      replaceId?: string | null; // overwrite this stored measurement instead of inserting
+      source: ImportSource;
+    }>
+  ) => Promise<void>;
+  getAccessToken: () => Promise<string | null>; // sent to the AI proxy
 }
 
 interface ParsedResult {
   markerId: string;
   markerName: string;
   value: number;
-  unit: string;
-  originalText?: string;
+  unit: string; // unit the value is expressed in (converted to the marker's unit on save)
+  labMinRef?: number | null; // reference interval printed next to the value, same unit as value
+  labMaxRef?: number | null;
+  originalText?: string; // source snippet, e.g. "s. 2, rad 14: Hemoglobin 145 g/L 117-153"
+  source: ImportSource;
+  flag?: LabFlag | null; // H/L flag printed by the lab
+  resolution?: ImportResolution; // user's choice when the value collides with a stored measurement
 }
 
+const SOURCE_BADGES: Record<ImportSource, { label: string; title: string; className: string }> = {
+  rule: { label: 'Regel', title: 'Tolkat lokalt av regelparsern', className: 'bg-slate-100 text-slate-600' },
+  ai: { label: 'AI', title: 'Tolkat av AI', className: 'bg-violet-50 text-violet-700' },
+  fhir: { label: 'FHIR', title: 'Läst från en FHIR-fil (LOINC-kod)', className: 'bg-sky-50 text-sky-700' },
+  hl7: { label: 'HL7', title: 'Läst från ett HL7-meddelande (OBX)', className: 'bg-sky-50 text-sky-700' },
+};
+
+// Cumulative reports hold several sampling dates; each becomes its own group
+interface ResultGroup {
+  date: string; // YYYY-MM-DD, saved as measured_at for every result in the group
+  results: ParsedResult[];
+}
+
+// Error codes from /api/ai-import (see api/_lib/errors.ts)
+const AI_ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHORIZED: "Din inloggning har gått ut. Logga in igen och försök på nytt.",
+  INVALID_PAYLOAD: "Texten kunde inte skickas för analys.",
+  PAYLOAD_TOO_LARGE: "Texten är för lång för AI-analys. Dela upp den i mindre delar.",
+  RATE_LIMITED: "Du har gjort många AI-analyser på kort tid.",
+  RATE_LIMIT_UNAVAILABLE: "AI-importen är tillfälligt avstängd på servern. Försök igen senare eller fyll i värdena manuellt.",
+  AI_NOT_CONFIGURED: "AI-importen är inte konfigurerad på servern.",
+  AI_OVERLOADED: "AI-tjänsten är tillfälligt överbelastad. Försök igen om en stund eller fyll i värdena manuellt.",
+  AI_UNAVAILABLE: "AI-tjänsten svarar inte just nu. Försök igen senare eller fyll i värdena manuellt.",
+  AI_INVALID_RESPONSE: "AI-tjänsten gav ett ogiltigt svar. Försök igen eller fyll i värdena manuellt.",
+};
+
+const describeAiError = (err: any): string => {
+  const message = AI_ERROR_MESSAGES[err?.code];
+  if (err?.code === 'RATE_LIMITED' && err.retryAfter) {
+    return `${message} Försök igen om ${Math.ceil(err.retryAfter / 60)} min eller fyll i värdena manuellt.`;
+  }
+  return message ?? "Något gick fel vid analysen. Kontrollera din AI-proxy eller försök igen.";
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+const isIsoDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const describeSource = (src: SourceLine | undefined) => (src ? `${describeSourceLine(src)}: ${src.text}` : undefined);
+
 const cx = (...classes: Array<string | false | null | undefined>) => classes.filter(Boolean).join(' ');
 const getEnv = (key: string) => {
   try {
@@ -27,102 +92,265 @@ const getEnv = (key: string) => {
   }
 };
 
-const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSave }) => {
+// Only the ids go along; the proxy loads names, synonyms and units itself
+const requestAiImport = async (text: string, markerIds: string[], accessToken: string | null) => {
+  const proxyUrl = getEnv('VITE_AI_IMPORT_PROXY_URL') || '/api/ai-import';
+
+  const response = await fetch(proxyUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      // The proxy builds the prompt itself and only accepts signed-in users
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+    },
+    body: JSON.stringify({ text, markerIds })
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    const err: any = new Error(body?.error || `AI proxy failed (${response.status})`);
+    err.status = response.status;
+    err.code = body?.code;
+    err.retryAfter = body?.retryAfter;
+    throw err;
+  }
+
+  return response.json();
+};
+
+const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, existingMeasurements, onSave, getAccessToken }) => {
   const [text, setText] = useState('');
   const [analyzing, setAnalyzing] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [results, setResults] = useState<ParsedResult[] | null>(null);
-  const [detectedDate, setDetectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [groups, setGroups] = useState<ResultGroup[] | null>(null);
+  const [labName, setLabName] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<ExtractedPdf | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [extracting, setExtracting] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
+  const resultCount = groups?.reduce((sum, g) => sum + g.results.length, 0) ?? 0;
+
+  // Collisions with stored measurements are derived, so they follow edits to dates, values and units
+  const conflictFor = (date: string, res: ParsedResult): ImportConflict | null =>
+    findImportConflict({ ...res, date }, availableMarkers.find(m => m.id === res.markerId), existingMeasurements);
+  const reviewed = (groups ?? []).flatMap(g => g.results.map(res => {
+    const conflict = conflictFor(g.date, res);
+    return { date: g.date, res, conflict, resolution: res.resolution ?? defaultResolution(conflict) };
+  }));
+  const saveCount = reviewed.filter(r => r.resolution === 'keep' || r.resolution === 'overwrite').length;
+  const duplicateCount = reviewed.filter(r => r.conflict?.kind === 'duplicate').length;
+  const conflictCount = reviewed.filter(r => r.conflict?.kind === 'conflict').length;
+  const undecidedCount = reviewed.filter(r => r.resolution === null).length;
+
+  // FHIR/HL7 files are already coded: map them directly and skip both the rule parser and the AI
+  const importStructured = (input: string): boolean => {
+    let parsed;
+    try {
+      parsed = parseStructuredImport(input, availableMarkers);
+    } catch (err) {
+      console.error(err);
+      setError("Filen ser ut som FHIR/HL7 men kunde inte tolkas.");
+      return true;
+    }
+    if (!parsed) return false;
+
+    setLabName(parsed.lab ?? '');
+    setNotice(parsed.unmapped.length > 0
+      ? `${parsed.unmapped.length} värden kunde inte kopplas till en markör och hoppades över: ${parsed.unmapped.slice(0, 5).join(', ')}${parsed.unmapped.length > 5 ? ' …' : ''}`
+      : null);
+
+    const found: ResultGroup[] = parsed.groups
+      .map(g => ({
+        date: g.date ?? today(),
+        results: g.results.flatMap(r => {
+          const marker = availableMarkers.find(m => m.id === r.markerId);
+          if (!marker) return [];
+          return [{
+            markerId: marker.id,
+            markerName: marker.name,
+            value: r.value,
+            unit: r.unit,
+            labMinRef: r.refMin,
+            labMaxRef: r.refMax,
+            originalText: r.source,
+            source: parsed.format,
+            flag: r.flag,
+          }];
+        }),
+      }))
+      .filter(g => g.results.length > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    if (found.length === 0) setError("Hittade inga värden som kunde kopplas till kända markörer i filen.");
+    else setGroups(found);
+    return true;
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setGroups(null);
+    setExtracting(true);
+    try {
+      if (isPdfFile(file)) {
+        const extracted = await extractPdfText(file);
+        if (!extracted.text.trim()) {
+          setError("Hittade ingen text i PDF:en. Den kan vara inskannad – skriv in värdena manuellt.");
+          return;
+        }
+        setPdf(extracted);
+        setText(extracted.text);
+      } else {
+        const content = await file.text();
+        setPdf(null);
+        setText(content);
+        setFileName(file.name);
+        setNotice(null);
+        importStructured(content);
+        return;
+      }
+      setFileName(file.name);
+    } catch (err) {
+      console.error(err);
+      setError("Kunde inte läsa filen. Kontrollera att det är en giltig PDF eller textfil.");
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  };
+
   const handleAnalyze = async () => {
     if (!text.trim()) return;
     
     setAnalyzing(true);
     setError(null);
-    setResults(null);
+    setGroups(null);
+    setLabName('');
+    setNotice(null);
 
-    try {
-      // 1. Prepare context for AI
-      const markersContext = availableMarkers.map(m => ({
-        id: m.id,
-        name: m.name,
-        shortName: m.shortName,
-        unit: m.unit
-      }));
-
-      // 2. Call AI proxy (backend)
-      const proxyUrl = getEnv('VITE_AI_IMPORT_PROXY_URL') || '/api/ai-import';
-      
-      const prompt = `
-        You are a medical data assistant. extract blood test results from the text provided by the user.
-        
-        Here is the list of valid markers you can identify:
-        ${JSON.stringify(markersContext)}
-
-        Instructions:
-        1. Find values that match the valid markers (by name or shortName).
-        2. Ignore markers not in the valid list.
-        3. Try to find the date of the test in the text (format YYYY-MM-DD).
-        4. Return ONLY a valid JSON object with this structure:
-        {
-          "date": "YYYY-MM-DD" (or null if not found),
-          "results": [
-            { "markerId": "id_from_valid_list", "value": number }
-          ]
-        }
-        5. Handle Swedish decimal commas (replace with dot).
-      `;
-
-      const response = await fetch(proxyUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt,
-          text,
-          markers: markersContext
-        })
+    if (importStructured(text)) {
+      setAnalyzing(false);
+      return;
+    }
+
+    const sourceLines = getSourceLines(text, pdf);
+
+    // 1. Rule-based pass: clean lines like "Hb 145" never leave the browser
+    const local = parseLabText(sourceLines, availableMarkers);
+    if (local.lab) setLabName(local.lab);
+
+    const ruleResults: ParsedResult[] = [];
+    for (const match of local.matches) {
+      const marker = availableMarkers.find(m => m.id === match.markerId);
+      if (!marker) continue;
+      ruleResults.push({
+        markerId: marker.id,
+        markerName: marker.name,
+        unit: match.unit,
+        value: match.value,
+        labMinRef: match.refMin,
+        labMaxRef: match.refMax,
+        originalText: describeSource(match.source),
+        source: 'rule',
+        flag: match.flag
       });
+    }
 
-      if (!response.ok) {
-        throw new Error(`AI proxy failed (${response.status})`);
-      }
+    const showGroups = (grouped: ResultGroup[]) => {
+      const found = grouped.filter(g => g.results.length > 0).sort((a, b) => a.date.localeCompare(b.date));
+      if (found.length === 0) setError("Kunde inte identifiera några kända markörer i texten.");
+      else setGroups(found);
+    };
+
+    if (local.unresolved.length === 0) {
+      showGroups([{ date: local.date ?? today(), results: ruleResults }]);
+      setAnalyzing(false);
+      return;
+    }
 
-      const data = await response.json();
+    // Only the unresolved lines go to the AI, numbered as in the full text so "line" maps back
+    const numberedText = local.unresolved.map(l => `${sourceLines.indexOf(l) + 1}| ${l.text}`).join('\n');
 
-      // 3. Map back to our UI structure
-      if (data.date) {
-        setDetectedDate(data.date);
+    try {
+      // 2./3. Call the AI proxy, or the in-browser mock when there is no Supabase session to send
+      const data = isLocalBackend
+        ? await (await import('../localAiImport')).localAiImport(numberedText, availableMarkers)
+        : await requestAiImport(numberedText, availableMarkers.map(m => m.id), await getAccessToken());
+
+      // 4. Map back to our UI structure, one group per sampling date
+      if (typeof data.lab === 'string' && !local.lab) {
+        setLabName(data.lab);
       }
 
-      const mappedResults: ParsedResult[] = [];
-      
-      for (const res of (data.results || [])) {
-        const marker = availableMarkers.find(m => m.id === res.markerId);
-        if (marker && typeof res.value === 'number') {
-          mappedResults.push({
-            markerId: marker.id,
-            markerName: marker.name,
-            unit: marker.unit,
-            value: res.value
-          });
+      // Older proxies answer with a single { date, results }
+      const aiGroups: Array<{ date?: unknown; results?: unknown }> = Array.isArray(data.groups)
+        ? data.groups
+        : [{ date: data.date, results: data.results }];
+      const ruleDate = local.date ?? aiGroups.map(g => g.date).find(isIsoDate) ?? today();
+
+      const grouped: ResultGroup[] = [];
+      const groupFor = (date: string) => {
+        let group = grouped.find(g => g.date === date);
+        if (!group) {
+          group = { date, results: [] };
+          grouped.push(group);
+        }
+        return group;
+      };
+      groupFor(ruleDate).results.push(...ruleResults);
+
+      for (const aiGroup of aiGroups) {
+        const group = groupFor(isIsoDate(aiGroup.date) ? aiGroup.date : ruleDate);
+
+        for (const res of (Array.isArray(aiGroup.results) ? aiGroup.results : []) as any[]) {
+          const marker = availableMarkers.find(m => m.id === res?.markerId);
+          // The rule parser wins for markers it already found on this date
+          if (group.results.some(r => r.markerId === res?.markerId)) continue;
+          if (marker && typeof res.value === 'number') {
+            // Keep the reported unit only if we know how to convert it
+            const reported = typeof res.unit === 'string' ? normalizeUnit(res.unit) : '';
+            const unit = (reported && getUnitOptions(marker).find(u => isSameUnit(u, reported))) || marker.unit;
+            const src = typeof res.line === 'number' ? sourceLines[res.line - 1] : undefined;
+
+            group.results.push({
+              markerId: marker.id,
+              markerName: marker.name,
+              unit,
+              value: res.value,
+              labMinRef: typeof res.refMin === 'number' ? res.refMin : null,
+              labMaxRef: typeof res.refMax === 'number' ? res.refMax : null,
+              originalText: describeSource(src),
+              source: 'ai'
+            });
+          }
         }
       }
 
-      if (mappedResults.length === 0) {
-        setError("Kunde inte identifiera några kända markörer i texten.");
-      } else {
-        setResults(mappedResults);
+      if (typeof data.dropped === 'number' && data.dropped > 0) {
+        setNotice(`${data.dropped} värden från AI:n klarade inte valideringen och togs bort. Kontrollera att inga värden saknas.`);
       }
+      showGroups(grouped);
 
     } catch (err: any) {
       console.error(err);
-      if (err.status === 429 || err.code === 429 || err.message?.includes('429') || err.toString().includes('429')) {
-        setError("AI-tjänsten är tillfälligt överbelastad (429). Försök igen om en stund eller fyll i värdena manuellt.");
+      const message = describeAiError(err);
+      if (ruleResults.length > 0) {
+        // Keep what the rule parser found and let the user know something may be missing
+        setNotice(`${local.unresolved.length} rader kunde inte tolkas lokalt. ${message} Kontrollera att inga värden saknas.`);
+        showGroups([{ date: local.date ?? today(), results: ruleResults }]);
       } else {
-        setError("Något gick fel vid analysen. Kontrollera din AI-proxy eller försök igen.");
+        setError(message);
       }
     } finally {
       setAnalyzing(false);
@@ -130,18 +358,29 @@ const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSav
   };
 
   const handleConfirm = async () => {
-    if (!results) return;
+    if (!groups) return;
     setSaving(true);
     try {
-      await onSave(results.map(r => ({
-        markerId: r.markerId,
-        value: r.value,
-        date: detectedDate
-      })));
+      // Every group is saved with its own sampling date as measured_at
+      await onSave(reviewed
+        .filter(({ resolution }) => resolution === 'keep' || resolution === 'overwrite')
+        .map(({ date, res: r, conflict, resolution }) => ({
+          markerId: r.markerId,
+          value: r.value,
+          date,
+          unit: r.unit,
+          labMinRef: r.labMinRef,
+          labMaxRef: r.labMaxRef,
+          labName: labName || null,
+          replaceId: resolution === 'overwrite' && conflict ? conflict.existing.id : null,
+          source: r.source
+        })));
       onClose();
       // Reset
       setText('');
-      setResults(null);
+      setPdf(null);
+      setFileName(null);
+      setGroups(null);
     } catch (e) {
       setError("Kunde inte spara värdena.");
     } finally {
@@ -149,11 +388,24 @@ const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSav
     }
   };
 
-  const removeResult = (idx: number) => {
-    if (!results) return;
-    const next = [...results];
-    next.splice(idx, 1);
-    setResults(next);
+  const updateGroupDate = (groupIdx: number, date: string) => {
+    if (!groups) return;
+    setGroups(groups.map((g, gi) => (gi === groupIdx ? { ...g, date } : g)));
+  };
+
+  const updateResult = (groupIdx: number, idx: number, patch: Partial<ParsedResult>) => {
+    if (!groups) return;
+    setGroups(groups.map((g, gi) => (
+      gi === groupIdx ? { ...g, results: g.results.map((r, ri) => (ri === idx ? { ...r, ...patch } : r)) } : g
+    )));
+  };
+
+  const removeResult = (groupIdx: number, idx: number) => {
+    if (!groups) return;
+    const next = groups
+      .map((g, gi) => (gi === groupIdx ? { ...g, results: g.results.filter((_, ri) => ri !== idx) } : g))
+      .filter(g => g.results.length > 0);
+    setGroups(next);
   };
 
   return (
@@ -175,15 +427,55 @@ const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSav
         </div>
 
         <div className="flex-1 overflow-y-auto p-6">
-          {!results ? (
+          {!groups ? (
             <div className="space-y-4">
                <div className="bg-emerald-50 rounded-2xl p-4 flex gap-3 text-sm text-emerald-900 ring-1 ring-emerald-900/10">
                   <span className="text-xl">🤖</span>
                   <div>
-                    <span className="font-bold">AI-Analys:</span> Skriv t.ex. "Hb 150" eller klistra in en hel text från Werlabs/1177. AI:n hittar värdena automatiskt.
+                    <span className="font-bold">AI-Analys:</span> Skriv t.ex. "Hb 150" eller klistra in en hel text från Werlabs/1177. Raka rader tolkas direkt i webbläsaren, resten hittar AI:n.
                   </div>
                </div>
 
+              <div
+                onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+                onDragLeave={() => setDragOver(false)}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+                className={cx(
+                  "flex items-center justify-center gap-3 p-4 rounded-2xl border-2 border-dashed cursor-pointer text-sm transition-colors",
+                  dragOver ? "border-emerald-400 bg-emerald-50 text-emerald-800" : "border-slate-200 text-slate-500 hover:border-slate-300 hover:bg-slate-50"
+                )}
+              >
+                {extracting ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-slate-300 border-t-slate-700 rounded-full animate-spin" />
+                    <span className="font-semibold">Läser fil...</span>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-xl">📄</span>
+                    <span>
+                      {fileName ? (
+                        <><span className="font-bold text-slate-900">{fileName}</span>{pdf ? ` · ${pdf.pageCount} ${pdf.pageCount === 1 ? 'sida' : 'sidor'}` : ''}</>
+                      ) : (
+                        <><span className="font-bold text-slate-900">Släpp en PDF</span> från Werlabs, 1177 m.fl., en FHIR-/HL7-fil eller klicka för att välja fil</>
+                      )}
+                    </span>
+                  </>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".pdf,application/pdf,.txt,text/plain,.json,application/json,application/fhir+json,.hl7,.oru"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+
               <textarea
                 value={text}
                 onChange={(e) => setText(e.target.value)}
@@ -201,55 +493,181 @@ const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSav
           ) : (
             <div className="space-y-6">
                <div className="flex items-center justify-between bg-slate-50 p-4 rounded-2xl border border-slate-100">
-                  <div>
-                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Datum för provtagning</label>
+                  <div className="flex-1 pr-4">
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Labb</label>
                     <input 
-                      type="date" 
-                      value={detectedDate}
-                      onChange={(e) => setDetectedDate(e.target.value)}
-                      className="bg-white border-slate-200 rounded-lg text-sm font-bold text-slate-900 p-2 focus:ring-2 focus:ring-emerald-500"
+                      type="text" 
+                      value={labName}
+                      onChange={(e) => setLabName(e.target.value)}
+                      placeholder="T.ex. Werlabs"
+                      className="w-full bg-white border-slate-200 rounded-lg text-sm font-bold text-slate-900 p-2 focus:ring-2 focus:ring-emerald-500"
                     />
                   </div>
                   <div className="text-right">
-                    <div className="text-2xl font-bold text-slate-900">{results.length}</div>
-                    <div className="text-xs font-semibold text-slate-500">värden hittade</div>
+                    <div className="text-2xl font-bold text-slate-900">{resultCount}</div>
+                    <div className="text-xs font-semibold text-slate-500">
+                      värden hittade{groups.length > 1 ? ` · ${groups.length} datum` : ''}
+                    </div>
                   </div>
                </div>
 
-               <div className="grid gap-2">
-                 {results.map((res, idx) => (
-                   <div key={idx} className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-xl shadow-sm hover:border-slate-300 transition-colors">
-                      <div className="flex items-center gap-3">
-                         <div className="w-8 h-8 rounded-full bg-emerald-100 flex items-center justify-center text-emerald-700">
-                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                         </div>
-                         <div>
-                           <div className="font-bold text-slate-900 text-sm">{res.markerName}</div>
-                           <div className="text-xs text-slate-500">{res.unit}</div>
-                         </div>
-                      </div>
+               {(duplicateCount > 0 || conflictCount > 0) && (
+                 <div className="text-slate-700 text-sm bg-slate-50 p-3 rounded-xl border border-slate-200">
+                   {duplicateCount > 0 && (
+                     <div><span className="font-bold">{duplicateCount}</span> värden finns redan sparade och hoppas över om du inte väljer annat.</div>
+                   )}
+                   {conflictCount > 0 && (
+                     <div>
+                       <span className="font-bold">{conflictCount}</span> värden skiljer sig från det som redan är sparat samma dag.
+                       {undecidedCount > 0 && ' Välj vad som ska hända innan du sparar.'}
+                     </div>
+                   )}
+                 </div>
+               )}
+
+               {notice && (
+                 <div className="text-amber-800 text-sm font-semibold bg-amber-50 p-3 rounded-xl border border-amber-100">
+                   {notice}
+                 </div>
+               )}
+
+               {groups.map((group, groupIdx) => (
+                 <div key={groupIdx} className="space-y-2">
+                   <div className="flex items-center justify-between gap-3">
+                     <div className="flex items-center gap-2">
+                       <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Provtagning</label>
+                       <input
+                         type="date"
+                         value={group.date}
+                         onChange={(e) => updateGroupDate(groupIdx, e.target.value)}
+                         className="bg-white border-slate-200 rounded-lg text-sm font-bold text-slate-900 p-2 focus:ring-2 focus:ring-emerald-500"
+                       />
+                     </div>
+                     <span className="text-xs font-semibold text-slate-500">{group.results.length} värden</span>
+                   </div>
+
+                   <div className="grid gap-2">
+                     {group.results.map((res, idx) => {
+                       const marker = availableMarkers.find(m => m.id === res.markerId);
+                       const unitOptions = marker ? getUnitOptions(marker) : [res.unit];
+                       const needsConversion = Boolean(marker && !isSameUnit(res.unit, marker.unit));
+                       const converted = marker && needsConversion ? convertValue(res.value, res.unit, marker.unit, marker) : null;
+                       const conflict = conflictFor(group.date, res);
+                       const resolution = res.resolution ?? defaultResolution(conflict);
+
+                       return (
+                       <div
+                         key={idx}
+                         className={cx(
+                           "flex items-center justify-between p-3 bg-white border rounded-xl shadow-sm hover:border-slate-300 transition-colors",
+                           conflict?.kind === 'conflict' && resolution === null ? "border-amber-300" : "border-slate-100",
+                           resolution === 'skip' && "opacity-60"
+                         )}
+                       >
+                          <div className="flex items-center gap-3">
+                             <div className="w-8 h-8 rounded-full bg-emerald-100 flex items-center justify-center text-emerald-700">
+                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+                             </div>
+                             <div>
+                               <div className="flex items-center gap-1.5">
+                                 <span className="font-bold text-slate-900 text-sm">{res.markerName}</span>
+                                 <span
+                                   className={cx(
+                                     "text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded",
+                                     SOURCE_BADGES[res.source].className
+                                   )}
+                                   title={SOURCE_BADGES[res.source].title}
+                                 >
+                                   {SOURCE_BADGES[res.source].label}
+                                 </span>
+                                 {res.flag && (
+                                   <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">
+                                     {res.flag === 'H' ? 'Högt' : 'Lågt'}
+                                   </span>
+                                 )}
+                               </div>
+                               {needsConversion && marker ? (
+                                 <div className="text-xs font-semibold text-emerald-700">
+                                   = {converted !== null ? formatNumber(converted, 3) : '–'} {marker.unit}
+                                 </div>
+                               ) : (
+                                 <div className="text-xs text-slate-500">{res.unit}</div>
+                               )}
+                               {(res.labMinRef != null || res.labMaxRef != null) && (
+                                 <div className="text-[11px] text-slate-400">
+                                   Labbets ref: {res.labMinRef != null ? formatNumber(res.labMinRef) : ''}–{res.labMaxRef != null ? formatNumber(res.labMaxRef) : ''} {res.unit}
+                                 </div>
+                               )}
+                               {res.originalText && (
+                                 <div className="text-[11px] text-slate-400 font-mono truncate max-w-xs" title={res.originalText}>
+                                   {res.originalText}
+                                 </div>
+                               )}
+                               {conflict && marker && (
+                                 <div className="mt-1.5 space-y-1">
+                                   <div className={cx("text-[11px] font-semibold", conflict.kind === 'duplicate' ? "text-slate-500" : "text-amber-700")}>
+                                     {conflict.kind === 'duplicate'
+                                       ? 'Finns redan sparat samma dag'
+                                       : `Redan sparat samma dag: ${formatNumber(conflict.existing.value)} ${marker.unit}`}
+                                   </div>
+                                   <div className="flex gap-1">
+                                     {RESOLUTION_OPTIONS.map(opt => (
+                                       <button
+                                         key={opt.id}
+                                         type="button"
+                                         onClick={() => updateResult(groupIdx, idx, { resolution: opt.id })}
+                                         className={cx(
+                                           "text-[11px] font-bold px-2 py-0.5 rounded-md ring-1 transition-colors",
+                                           resolution === opt.id
+                                             ? "bg-slate-900 text-white ring-slate-900"
+                                             : "bg-white text-slate-600 ring-slate-200 hover:bg-slate-50"
+                                         )}
+                                       >
+                                         {opt.label}
+                                       </button>
+                                     ))}
+                                   </div>
+                                 </div>
+                               )}
+                             </div>
+                          </div>
                       
-                      <div className="flex items-center gap-4">
-                        <input 
-                           type="number" 
-                           value={res.value}
-                           onChange={(e) => {
-                             const next = [...results];
-                             next[idx].value = parseFloat(e.target.value);
-                             setResults(next);
-                           }}
-                           className="w-24 text-right font-bold text-slate-900 bg-slate-50 rounded-lg px-2 py-1 border border-slate-200 focus:ring-2 focus:ring-emerald-500"
-                        />
-                        <button 
-                          onClick={() => removeResult(idx)}
-                          className="text-slate-400 hover:text-rose-500 p-1 rounded-full hover:bg-rose-50"
-                        >
-                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                        </button>
-                      </div>
+                          <div className="flex items-center gap-2">
+                            <input 
+                               type="number" 
+                               value={res.value}
+                               onChange={(e) => {
+                                 updateResult(groupIdx, idx, { value: parseFloat(e.target.value) });
+                               }}
+                               className="w-24 text-right font-bold text-slate-900 bg-slate-50 rounded-lg px-2 py-1 border border-slate-200 focus:ring-2 focus:ring-emerald-500"
+                            />
+                            {unitOptions.length > 1 ? (
+                              <select
+                                value={res.unit}
+                                onChange={(e) => {
+                                  updateResult(groupIdx, idx, { unit: e.target.value });
+                                }}
+                                className="text-xs font-semibold text-slate-600 bg-slate-50 rounded-lg px-2 py-1.5 border border-slate-200 focus:ring-2 focus:ring-emerald-500"
+                                aria-label="Enhet"
+                              >
+                                {unitOptions.map(u => <option key={u} value={u}>{u}</option>)}
+                              </select>
+                            ) : (
+                              <span className="w-20 text-xs font-semibold text-slate-500">{res.unit}</span>
+                            )}
+                            <button 
+                              onClick={() => removeResult(groupIdx, idx)}
+                              className="text-slate-400 hover:text-rose-500 p-1 rounded-full hover:bg-rose-50"
+                            >
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                            </button>
+                          </div>
+                       </div>
+                       );
+                     })}
                    </div>
-                 ))}
-               </div>
+                 </div>
+               ))}
 
                <div className="text-xs text-slate-500 text-center">
                  Kontrollera alltid att värdena stämmer med ditt originaldokument innan du sparar.
@@ -260,7 +678,7 @@ const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSav
 
         {/* Footer */}
         <div className="p-6 border-t border-slate-100 bg-white flex gap-3">
-           {!results ? (
+           {!groups ? (
              <>
                 <button
                   onClick={onClose}
@@ -270,7 +688,7 @@ const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSav
                 </button>
                 <button
                   onClick={handleAnalyze}
-                  disabled={analyzing || !text.trim()}
+                  disabled={analyzing || extracting || !text.trim()}
                   className="flex-[2] py-3.5 rounded-xl bg-slate-900 text-white font-bold shadow-lg shadow-slate-900/20 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {analyzing ? (
@@ -288,17 +706,17 @@ const ImportModal: React.FC<Props> = ({ isOpen, onClose, availableMarkers, onSav
            ) : (
              <>
                 <button
-                  onClick={() => setResults(null)}
+                  onClick={() => setGroups(null)}
                   className="flex-1 py-3.5 rounded-xl font-bold text-slate-600 hover:bg-slate-50 transition-colors"
                 >
                   Backa
                 </button>
                 <button
                   onClick={handleConfirm}
-                  disabled={saving}
+                  disabled={saving || saveCount === 0 || undecidedCount > 0 || groups.some(g => !isIsoDate(g.date))}
                   className="flex-[2] py-3.5 rounded-xl bg-emerald-600 text-white font-bold shadow-lg shadow-emerald-900/20 hover:bg-emerald-700 disabled:opacity-50 flex items-center justify-center gap-2"
                 >
-                   {saving ? 'Sparar...' : `Spara ${results.length} mätningar`}
+                   {saving ? 'Sparar...' : `Spara ${saveCount} mätningar`}
                 </button>
              </>
            )}
@@ -1,24 +1,30 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { BloodMarker } from '../types';
+import { BloodMarker, CustomMarkerInput } from '../types';
+import { formatNumber } from '../utils';
+import { convertValue, getUnitOptions, isSameUnit } from '../units';
+import CustomMarkerModal from './CustomMarkerModal';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (markerId: string, value: number, date: string, note?: string) => Promise<void>;
+  onSave: (markerId: string, value: number, date: string, note?: string, unit?: string) => Promise<void>;
+  onCreateMarker?: (input: CustomMarkerInput) => Promise<string>; // resolves with the new marker's id
   availableMarkers: BloodMarker[];
   initialMarkerId?: string;
 }
 
-const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availableMarkers, initialMarkerId }) => {
+const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, onCreateMarker, availableMarkers, initialMarkerId }) => {
   const [selectedMarkerId, setSelectedMarkerId] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
   const [value, setValue] = useState<string>('');
+  const [unit, setUnit] = useState<string>('');
   const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [note, setNote] = useState<string>('');
 
   const [loading, setLoading] = useState(false);
+  const [isCreatingMarker, setIsCreatingMarker] = useState(false);
 
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -28,12 +34,14 @@ const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availab
     // Reset minimal each time open
     setValue('');
     setNote('');
+    setUnit('');
     setDate(new Date().toISOString().split('T')[0]);
 
     if (initialMarkerId) {
       const m = availableMarkers.find((x) => x.id === initialMarkerId);
       if (m) {
         setSelectedMarkerId(m.id);
+        setUnit(m.unit);
         setSearchTerm(m.name);
         setIsDropdownOpen(false);
       }
@@ -50,22 +58,38 @@ const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availab
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Name and shortName first, then synonyms ("Hb", "haemoglobin") and LOINC/NPU codes
+  const matchedSynonym = (marker: BloodMarker, term: string) =>
+    (marker.synonyms ?? []).find((s) => s.toLowerCase().includes(term)) ??
+    [marker.loincCode, marker.npuCode].find((c) => c && c.toLowerCase().includes(term));
+
   const filteredMarkers = availableMarkers.filter((marker) => {
     if (searchTerm.length < 2) return false;
     const term = searchTerm.toLowerCase();
-    return marker.name.toLowerCase().includes(term) || marker.shortName.toLowerCase().includes(term);
+    return marker.name.toLowerCase().includes(term) || marker.shortName.toLowerCase().includes(term) || Boolean(matchedSynonym(marker, term));
   });
 
   const handleSelectMarker = (marker: BloodMarker) => {
     setSelectedMarkerId(marker.id);
+    setUnit(marker.unit);
     setSearchTerm(marker.name);
     setIsDropdownOpen(false);
   };
 
+  const handleCreateMarker = async (input: CustomMarkerInput) => {
+    if (!onCreateMarker) return;
+    const id = await onCreateMarker(input);
+    setSelectedMarkerId(id);
+    setUnit(input.unit);
+    setSearchTerm(input.name);
+    setIsDropdownOpen(false);
+  };
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const term = e.target.value;
     setSearchTerm(term);
     setSelectedMarkerId('');
+    setUnit('');
     setIsDropdownOpen(term.length >= 2);
   };
 
@@ -75,7 +99,7 @@ const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availab
 
     setLoading(true);
     try {
-      await onSave(selectedMarkerId, parseFloat(value), date, note?.trim() ? note.trim() : undefined);
+      await onSave(selectedMarkerId, parseFloat(value), date, note?.trim() ? note.trim() : undefined, unit || undefined);
 
       setValue('');
       setSearchTerm('');
@@ -93,6 +117,10 @@ const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availab
   if (!isOpen) return null;
 
   const selectedMarker = availableMarkers.find((m) => m.id === selectedMarkerId);
+  const unitOptions = selectedMarker ? getUnitOptions(selectedMarker) : [];
+  const needsConversion = Boolean(selectedMarker && unit && !isSameUnit(unit, selectedMarker.unit));
+  const convertedPreview =
+    needsConversion && selectedMarker && value ? convertValue(parseFloat(value), unit, selectedMarker.unit, selectedMarker) : null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -160,13 +188,34 @@ const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availab
                             {marker.shortName}
                           </span>
                         </div>
-                        <span className="text-xs text-slate-400 mt-0.5">Enhet: {marker.unit}</span>
+                        <span className="text-xs text-slate-400 mt-0.5">
+                          Enhet: {marker.unit}
+                          {(() => {
+                            const term = searchTerm.toLowerCase();
+                            const direct = marker.name.toLowerCase().includes(term) || marker.shortName.toLowerCase().includes(term);
+                            const synonym = direct ? undefined : matchedSynonym(marker, term);
+                            return synonym ? ` · även "${synonym}"` : '';
+                          })()}
+                        </span>
                       </li>
                     ))}
                   </ul>
                 ) : (
                   <div className="px-4 py-4 text-center text-sm text-slate-500">Inga markörer hittades för "{searchTerm}"</div>
                 )}
+                {onCreateMarker && (
+                  <button
+                    type="button"
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      setIsDropdownOpen(false);
+                      setIsCreatingMarker(true);
+                    }}
+                    className="w-full px-4 py-3 text-left text-sm font-bold text-emerald-700 hover:bg-emerald-50 border-t border-slate-100"
+                  >
+                    + Skapa egen markör{filteredMarkers.length === 0 ? ` "${searchTerm}"` : ''}
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -182,14 +231,36 @@ const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availab
                 value={value}
                 onChange={(e) => setValue(e.target.value)}
                 placeholder="0.00"
-                className="bg-slate-50 border border-slate-200 text-slate-900 text-lg font-bold rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent block w-full p-3.5 disabled:opacity-50 disabled:cursor-not-allowed"
+                className="bg-slate-50 border border-slate-200 text-slate-900 text-lg font-bold rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent block w-full p-3.5 pr-28 disabled:opacity-50 disabled:cursor-not-allowed"
               />
               <div className="absolute inset-y-0 right-0 flex items-center pr-4">
-                <span className="text-slate-400 font-medium bg-slate-100 px-2 py-1 rounded text-sm">
-                  {selectedMarker?.unit || '-'}
-                </span>
+                {unitOptions.length > 1 ? (
+                  <select
+                    value={unit}
+                    onChange={(e) => setUnit(e.target.value)}
+                    className="text-slate-500 font-medium bg-slate-100 px-2 py-1 rounded text-sm border-0 focus:ring-2 focus:ring-emerald-500"
+                    aria-label="Enhet"
+                  >
+                    {unitOptions.map((u) => (
+                      <option key={u} value={u}>
+                        {u}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-slate-400 font-medium bg-slate-100 px-2 py-1 rounded text-sm">
+                    {selectedMarker?.unit || '-'}
+                  </span>
+                )}
               </div>
             </div>
+            {needsConversion && selectedMarker && (
+              <p className="mt-2 text-xs font-semibold text-emerald-700 animate-in fade-in slide-in-from-top-1">
+                {convertedPreview !== null
+                  ? `Sparas som ${formatNumber(convertedPreview, 3)} ${selectedMarker.unit}`
+                  : `Räknas om till ${selectedMarker.unit} vid sparning`}
+              </p>
+            )}
             {selectedMarker && (
               <p className="mt-2 text-xs text-slate-400 animate-in fade-in slide-in-from-top-1">
                 Referensintervall: {selectedMarker.minRef} - {selectedMarker.maxRef} {selectedMarker.unit}
@@ -246,6 +317,14 @@ const NewMeasurementModal: React.FC<Props> = ({ isOpen, onClose, onSave, availab
           </div>
         </form>
       </div>
+
+      <CustomMarkerModal
+        isOpen={isCreatingMarker}
+        onClose={() => setIsCreatingMarker(false)}
+        onSave={handleCreateMarker}
+        categories={Array.from(new Set(availableMarkers.map((m) => m.category))).sort()}
+        initialName={filteredMarkers.length === 0 ? searchTerm : ''}
+      />
     </div>
   );
 };
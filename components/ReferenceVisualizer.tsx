@@ -9,6 +9,7 @@ interface Props {
   displayMin: number;
   displayMax: number;
   status: HealthStatus;
+  rangeLabel?: string; // e.g. "Kvinnor 18–50 år" when a sex/age-specific range applies
 
   // NEW: goal overlay inside ref bar
   goalMin?: number;
@@ -26,6 +27,7 @@ const ReferenceVisualizer: React.FC<Props> = ({
   displayMin,
   displayMax,
   status,
+  rangeLabel,
   goalMin,
   goalMax,
   minimal = false,
@@ -85,8 +87,8 @@ const ReferenceVisualizer: React.FC<Props> = ({
       {/* Labels */}
       {!minimal && (
         <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500 mb-2 px-0.5 font-semibold">
-          <span>
-            Ref: {formatNumber(minRef)} – {formatNumber(maxRef)}
+          <span title={rangeLabel}>
+            Ref{rangeLabel ? ` (${rangeLabel})` : ''}: {formatNumber(minRef)} – {formatNumber(maxRef)}
           </span>
 
           {parts.hasGoal && (
@@ -1,13 +1,16 @@
 
 import React, { useMemo } from 'react';
 import { MarkerHistory, ActionableTodo, StatsHistoryEntry, MeasurementTodo, BloodMarker } from '../types';
-import { parseDate } from '../utils';
+import { parseDate, focusAreaMeta } from '../utils';
+import { AreaScore } from '../healthScore';
 import { AreaChart, Area, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
 import ActionList from './ActionList';
 
 interface Props {
   totalMarkers: number;
   normalCount: number;
+  healthScore: number; // 0–100, weighted by severity and clinical importance (healthScore.ts)
+  areaScores?: AreaScore[];
   attentionMarkers: MarkerHistory[];
   optimizedCount: number;
   coveredAttentionCount: number;
@@ -78,6 +81,8 @@ const CircularProgress: React.FC<{ percentage: number; size?: number; strokeWidt
 const StatsOverview: React.FC<Props> = ({ 
   totalMarkers, 
   normalCount, 
+  healthScore,
+  areaScores = [],
   attentionMarkers, 
   optimizedCount,
   coveredAttentionCount,
@@ -96,10 +101,9 @@ const StatsOverview: React.FC<Props> = ({
 }) => {
   const hasData = totalMarkers > 0;
   
-  // Calculate score
-  const healthScore = totalMarkers > 0 ? Math.round((normalCount / totalMarkers) * 100) : 0;
   const isAllOptimal = normalCount === totalMarkers;
   const attentionCount = attentionMarkers.length;
+  const criticalMarkers = attentionMarkers.filter((m) => m.severity === 'critical' && !m.isIgnored);
 
   // Plan coverage percentage (0-100)
   const coveragePercent = attentionCount > 0 
@@ -116,6 +120,16 @@ const StatsOverview: React.FC<Props> = ({
     }));
   }, [history]);
 
+  // Last month's sub-scores, for the change shown next to each area
+  const previousAreaScores = useMemo(() => {
+    const today = new Date();
+    const thisMonth = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-01`;
+    const earlier = history
+      .filter((h) => h.log_date < thisMonth && h.area_scores)
+      .sort((a, b) => b.log_date.localeCompare(a.log_date));
+    return earlier[0]?.area_scores ?? null;
+  }, [history]);
+
   if (!hasData) return null;
 
   // Dynamic Colors based on score
@@ -139,6 +153,25 @@ const StatsOverview: React.FC<Props> = ({
 
   return (
     <div className="w-full mb-8 animate-in fade-in slide-in-from-bottom-3 duration-500">
+      {criticalMarkers.length > 0 && (
+        <div role="alert" className="mb-4 flex items-start gap-3 rounded-3xl bg-red-50 ring-1 ring-red-200 p-5">
+          <div className="shrink-0 w-9 h-9 rounded-full bg-red-600 text-white flex items-center justify-center font-bold">!</div>
+          <div className="min-w-0">
+            <div className="text-sm font-bold text-red-900">
+              {criticalMarkers.length === 1 ? 'Ett värde ligger kritiskt långt från referensintervallet' : `${criticalMarkers.length} värden ligger kritiskt långt från referensintervallet`}
+            </div>
+            <div className="text-sm text-red-800 mt-0.5">
+              {criticalMarkers.map((m) => m.name).join(', ')}. Kontakta vården om du inte redan har gjort det.
+            </div>
+            {onAttentionClick && (
+              <button onClick={onAttentionClick} className="mt-2 text-xs font-bold text-red-700 hover:text-red-900 underline underline-offset-2">
+                Visa avvikelser
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="relative overflow-hidden rounded-[2.5rem] bg-white ring-1 ring-slate-900/5 shadow-sm">
         
         {/* Background Gradients */}
@@ -214,6 +247,46 @@ const StatsOverview: React.FC<Props> = ({
                 </div>
             </div>
 
+            {/* FOCUS AREA BREAKDOWN */}
+            {areaScores.length > 1 && (
+              <div>
+                <h3 className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-3">Per fokusområde</h3>
+                <div className="grid sm:grid-cols-2 gap-x-6 gap-y-2.5">
+                  {areaScores.map((a) => {
+                    const meta = focusAreaMeta(a.id);
+                    const prev = previousAreaScores?.[a.id];
+                    const delta = prev != null ? a.score - prev : 0;
+                    return (
+                      <div
+                        key={a.id}
+                        title={`${a.markerCount} markörer, ${a.attentionCount} avvikande`}
+                        className="flex items-center gap-2 text-xs"
+                      >
+                        <span className="w-4 text-center">{meta.emoji}</span>
+                        <span className="w-28 truncate font-semibold text-slate-700">{meta.title}</span>
+                        <div className="flex-1 h-1.5 bg-slate-200/60 rounded-full overflow-hidden">
+                          <div
+                            className={cx(
+                              "h-full rounded-full transition-all duration-700",
+                              a.score >= 80 ? "bg-emerald-500" : a.score >= 50 ? "bg-amber-500" : "bg-rose-500"
+                            )}
+                            style={{ width: `${a.score}%` }}
+                          />
+                        </div>
+                        <span className="w-8 text-right font-bold text-slate-900 tabular-nums">{a.score}</span>
+                        <span className={cx(
+                          "w-7 text-right text-[10px] font-bold tabular-nums",
+                          delta > 0 ? "text-emerald-600" : delta < 0 ? "text-rose-600" : "text-transparent"
+                        )}>
+                          {delta > 0 ? `+${delta}` : delta < 0 ? delta : '±0'}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Bottom Area: Action Buttons (Cards) */}
             <div className="flex flex-col sm:flex-row gap-4">
                 
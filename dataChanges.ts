@@ -0,0 +1,129 @@
+import { JournalPlan, MarkerNote, Measurement, MeasurementTodo } from './types';
+import { parseDate } from './utils';
+import { DataChange, UserData } from './repository';
+
+/**
+ * Applying DataChange rows (repository.ts) to already loaded lists. Used by
+ * App.tsx for its state and by offlineRepository.ts for the cached dataset.
+ * Every function is idempotent: a write's own row and its realtime echo both
+ * arrive.
+ */
+
+const ts = (iso?: string | null) => {
+  if (!iso) return 0;
+  const t = parseDate(iso).getTime();
+  return Number.isFinite(t) ? t : 0;
+};
+
+// Same orders as the initial load
+export const newestMeasurementFirst = (a: Measurement, b: Measurement) => ts(b.date) - ts(a.date);
+export const newestNoteFirst = (a: MarkerNote, b: MarkerNote) => ts(b.date) - ts(a.date);
+export const oldestTodoFirst = (a: MeasurementTodo, b: MeasurementTodo) => ts(a.createdAt) - ts(b.createdAt);
+export const latestPlanFirst = (a: JournalPlan, b: JournalPlan) => ts(b.updatedAt) - ts(a.updatedAt);
+
+// Replaces the row with the same id or appends it; `order` re-sorts the result
+export const upsertRow = <T extends { id: string }>(list: T[], row: T, order?: (a: T, b: T) => number) => {
+  const next = list.some((r) => r.id === row.id) ? list.map((r) => (r.id === row.id ? row : r)) : [...list, row];
+  return order ? next.sort(order) : next;
+};
+
+export const removeRow = <T extends { id: string }>(list: T[], id: string) => list.filter((r) => r.id !== id);
+
+// Plan rows from realtime come without links and goals; those are kept. Other tables leave the list as is.
+export const applyPlanChange = (plans: JournalPlan[], change: DataChange): JournalPlan[] => {
+  switch (change.table) {
+    case 'plans': {
+      if (change.type === 'delete') return removeRow(plans, change.id);
+      const existing = plans.find((p) => p.id === change.row.id);
+      const plan: JournalPlan = {
+        ...change.row,
+        linkedMarkerIds: change.row.linkedMarkerIds ?? existing?.linkedMarkerIds ?? [],
+        goals: change.row.goals ?? existing?.goals ?? [],
+      };
+      return upsertRow(plans, plan, latestPlanFirst);
+    }
+    case 'planMarkers':
+      return plans.map((p) => {
+        if (p.id !== change.journalId) return p;
+        const others = p.linkedMarkerIds.filter((id) => id !== change.markerId);
+        return { ...p, linkedMarkerIds: change.type === 'delete' ? others : [...others, change.markerId] };
+      });
+    case 'planGoals':
+      return plans.map((p) => {
+        const goals = (p.goals ?? []).filter((g) => g.id !== (change.type === 'delete' ? change.id : change.row.id));
+        if (change.type === 'upsert' && p.id === change.journalId) return { ...p, goals: [...goals, change.row] };
+        return goals.length === (p.goals ?? []).length ? p : { ...p, goals };
+      });
+    default:
+      return plans;
+  }
+};
+
+// journal_entries -> measurement_todos is "on delete set null"
+export const unlinkTodos = (todos: MeasurementTodo[], planId: string) =>
+  todos.map((t) => (t.linkedJournalId === planId ? { ...t, linkedJournalId: null } : t));
+
+export const applyChangeToUserData = (data: UserData, change: DataChange): UserData => {
+  switch (change.table) {
+    case '*':
+      return data;
+    case 'measurements':
+      return {
+        ...data,
+        measurements:
+          change.type === 'delete'
+            ? removeRow(data.measurements, change.id)
+            : upsertRow(data.measurements, change.row, newestMeasurementFirst),
+      };
+    case 'notes':
+      if (!data.notes) return data;
+      return {
+        ...data,
+        notes: change.type === 'delete' ? removeRow(data.notes, change.id) : upsertRow(data.notes, change.row, newestNoteFirst),
+      };
+    case 'todos':
+      if (!data.todos) return data;
+      return {
+        ...data,
+        todos: change.type === 'delete' ? removeRow(data.todos, change.id) : upsertRow(data.todos, change.row, oldestTodoFirst),
+      };
+    case 'plans':
+    case 'planMarkers':
+    case 'planGoals': {
+      if (!data.plans) return data;
+      const unlinked = change.table === 'plans' && change.type === 'delete' && data.todos ? unlinkTodos(data.todos, change.id) : data.todos;
+      return { ...data, plans: applyPlanChange(data.plans, change), todos: unlinked };
+    }
+    case 'markerSettings': {
+      const { markerId } = change;
+      const ignored = data.ignoredMarkerIds.filter((id) => id !== markerId);
+      const markerGoals = { ...data.markerGoals };
+      delete markerGoals[markerId];
+      if (change.type === 'upsert') {
+        if (change.isIgnored) ignored.push(markerId);
+        if (change.goal) markerGoals[markerId] = change.goal;
+      }
+      return { ...data, ignoredMarkerIds: ignored, markerGoals };
+    }
+    case 'statsHistory':
+      return {
+        ...data,
+        statsHistory: [...data.statsHistory.filter((h) => h.log_date !== change.row.log_date), change.row].sort((a, b) =>
+          a.log_date.localeCompare(b.log_date),
+        ),
+      };
+    case 'profile':
+      return { ...data, profile: change.row };
+    case 'markers':
+      return { ...data, markers: change.type === 'delete' ? removeRow(data.markers, change.id) : upsertRow(data.markers, change.row) };
+    case 'advice':
+      if (!data.advice) return data;
+      return {
+        ...data,
+        advice:
+          change.type === 'delete'
+            ? removeRow(data.advice, change.id)
+            : upsertRow(data.advice, change.row, (a, b) => a.sortOrder - b.sortOrder),
+      };
+  }
+};
@@ -0,0 +1,227 @@
+import { strToU8, zipSync } from 'fflate';
+import {
+  BloodMarker,
+  JournalPlan,
+  MarkerGoal,
+  MarkerNote,
+  Measurement,
+  MeasurementTodo,
+  ResolvedRange,
+  StatsHistoryEntry,
+  UserProfile,
+} from './types';
+import { buildObservationBundle } from './fhir';
+import { formatNpuCode, getLoincCode } from './loinc';
+
+/**
+ * "Export all my data": one zip with CSV files per table, a versioned JSON
+ * document (the format restore reads) and a FHIR R4 Observation bundle.
+ */
+
+export const EXPORT_FORMAT = 'minablodprov-export';
+export const EXPORT_VERSION = 1;
+
+export interface ExportSource {
+  userId: string;
+  email?: string | null;
+  profile: UserProfile | null;
+  markers: BloodMarker[];
+  measurements: Measurement[];
+  notes: MarkerNote[];
+  todos: MeasurementTodo[];
+  plans: JournalPlan[];
+  ignoredMarkerIds: string[];
+  markerGoals?: Record<string, MarkerGoal>; // personal target ranges by marker id
+  statsHistory: StatsHistoryEntry[];
+  measurementRanges?: Record<string, ResolvedRange>;
+}
+
+export interface ExportedMarkerGoal extends MarkerGoal {
+  markerId: string;
+}
+
+// Markers are referenced by id but carry name/shortName/unit so a restore can map them to another catalog
+export interface ExportedMarker {
+  id: string;
+  name: string;
+  shortName: string;
+  unit: string;
+  category: string;
+  loincCode?: string | null;
+  npuCode?: string | null;
+}
+
+export interface DataExportV1 {
+  format: typeof EXPORT_FORMAT;
+  version: 1;
+  exportedAt: string;
+  account: { userId: string; email: string | null };
+  profile: UserProfile | null;
+  markers: ExportedMarker[];
+  measurements: Measurement[];
+  markerNotes: MarkerNote[];
+  todos: MeasurementTodo[];
+  plans: JournalPlan[];
+  ignoredMarkerIds: string[];
+  markerGoals?: ExportedMarkerGoal[]; // missing in exports made before personal targets existed
+  statsHistory: StatsHistoryEntry[];
+}
+
+/**
+ * RFC 4180 field: quoted when it contains a separator, quote or line break,
+ * with embedded quotes doubled.
+ */
+export const csvEscape = (value: unknown): string => {
+  if (value == null) return '';
+  const s = typeof value === 'number' ? (Number.isFinite(value) ? String(value) : '') : String(value);
+  return /[",;\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCsv = (headers: string[], rows: unknown[][], eol: string = '\r\n'): string =>
+  [headers, ...rows].map((row) => row.map(csvEscape).join(',')).join(eol);
+
+// Excel only detects UTF-8 (å, ä, ö, µ) with a byte order mark
+const BOM = '\uFEFF';
+
+const usedMarkers = (src: ExportSource): BloodMarker[] => {
+  const ids = new Set<string>([
+    ...src.measurements.map((m) => m.markerId),
+    ...src.notes.map((n) => n.markerId),
+    ...src.todos.flatMap((t) => t.markerIds),
+    ...src.plans.flatMap((p) => [...p.linkedMarkerIds, ...(p.goals ?? []).map((g) => g.markerId)]),
+    ...src.ignoredMarkerIds,
+    ...Object.keys(src.markerGoals ?? {}),
+  ]);
+  return src.markers.filter((m) => ids.has(m.id));
+};
+
+export const buildJsonExport = (src: ExportSource): DataExportV1 => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  account: { userId: src.userId, email: src.email ?? null },
+  profile: src.profile,
+  markers: usedMarkers(src).map((m) => ({
+    id: m.id,
+    name: m.name,
+    shortName: m.shortName,
+    unit: m.unit,
+    category: m.category,
+    loincCode: getLoincCode(m)?.code ?? null,
+    npuCode: formatNpuCode(m.npuCode),
+  })),
+  measurements: src.measurements,
+  markerNotes: src.notes,
+  todos: src.todos,
+  plans: src.plans,
+  ignoredMarkerIds: src.ignoredMarkerIds,
+  markerGoals: Object.entries(src.markerGoals ?? {}).map(([markerId, g]) => ({ markerId, ...g })),
+  statsHistory: src.statsHistory,
+});
+
+export const buildCsvFiles = (src: ExportSource): Record<string, string> => {
+  const markersById = new Map<string, BloodMarker>(src.markers.map((m) => [m.id, m]));
+  const markerName = (id: string) => markersById.get(id)?.name ?? id;
+  const markerNames = (ids: string[]) => ids.map(markerName).join('; ');
+
+  const measurements = toCsv(
+    ['id', 'datum', 'markör', 'kortnamn', 'värde', 'enhet', 'provsvar värde', 'provsvar enhet', 'labbets ref min', 'labbets ref max', 'labb', 'anteckning', 'loinc', 'npu'],
+    src.measurements.map((m) => {
+      const marker = markersById.get(m.markerId);
+      return [
+        m.id,
+        m.date,
+        marker?.name ?? m.markerId,
+        marker?.shortName ?? '',
+        m.value,
+        marker?.unit ?? '',
+        m.originalValue,
+        m.originalUnit,
+        m.labMinRef,
+        m.labMaxRef,
+        m.labName,
+        m.note,
+        marker ? getLoincCode(marker)?.code : '',
+        marker ? formatNpuCode(marker.npuCode) : '',
+      ];
+    }),
+  );
+
+  const notes = toCsv(
+    ['id', 'datum', 'markör', 'anteckning'],
+    src.notes.map((n) => [n.id, n.date, markerName(n.markerId), n.note]),
+  );
+
+  const todos = toCsv(
+    ['id', 'uppgift', 'klar', 'deadline', 'markörer', 'plan id', 'skapad', 'uppdaterad'],
+    src.todos.map((t) => [t.id, t.task, t.done ? 'ja' : 'nej', t.dueDate, markerNames(t.markerIds), t.linkedJournalId, t.createdAt, t.updatedAt]),
+  );
+
+  const plans = toCsv(
+    ['id', 'titel', 'innehåll (html)', 'start', 'mål', 'fäst', 'markörer', 'skapad', 'uppdaterad'],
+    src.plans.map((p) => [p.id, p.title, p.content, p.startDate, p.targetDate, p.isPinned ? 'ja' : 'nej', markerNames(p.linkedMarkerIds), p.createdAt, p.updatedAt]),
+  );
+
+  const goals = toCsv(
+    ['id', 'plan id', 'plan', 'markör', 'riktning', 'målvärde', 'målvärde övre'],
+    src.plans.flatMap((p) =>
+      (p.goals ?? []).map((g) => [g.id, p.id, p.title, markerName(g.markerId), g.direction, g.targetValue, g.targetValueUpper]),
+    ),
+  );
+
+  const targets = toCsv(
+    ['markör', 'mål min', 'mål max', 'enhet'],
+    Object.entries(src.markerGoals ?? {}).map(([id, g]) => [markerName(id), g.targetMin, g.targetMax, markersById.get(id)?.unit ?? '']),
+  );
+
+  return {
+    'measurements.csv': BOM + measurements,
+    'marker_notes.csv': BOM + notes,
+    'todos.csv': BOM + todos,
+    'plans.csv': BOM + plans,
+    'goals.csv': BOM + goals,
+    'marker_targets.csv': BOM + targets,
+  };
+};
+
+const README = `Export från minablodprov.se
+
+minablodprov-export.json  All data i ett versionerat format (se "format" och "version").
+fhir-observations.json    Mätningarna som FHIR R4 Bundle med Observation-resurser (LOINC/NPU där koden är känd).
+*.csv                     En fil per tabell, UTF-8, kommaseparerad. Värden är i markörens enhet.
+`;
+
+export const buildExportArchive = (src: ExportSource): Blob => {
+  const json = buildJsonExport(src);
+  const fhir = buildObservationBundle({
+    userId: src.userId,
+    profile: src.profile,
+    markers: src.markers,
+    measurements: src.measurements,
+    measurementRanges: src.measurementRanges,
+  });
+
+  const files: Record<string, Uint8Array> = {
+    'README.txt': strToU8(README),
+    'minablodprov-export.json': strToU8(JSON.stringify(json, null, 2)),
+    'fhir-observations.json': strToU8(JSON.stringify(fhir, null, 2)),
+  };
+  for (const [name, content] of Object.entries(buildCsvFiles(src))) {
+    files[name] = strToU8(content);
+  }
+
+  const zipped = zipSync(files, { level: 6 });
+  return new Blob([zipped as BlobPart], { type: 'application/zip' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
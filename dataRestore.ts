@@ -0,0 +1,434 @@
+import { strFromU8, unzipSync } from 'fflate';
+import {
+  BloodMarker,
+  JournalGoal,
+  JournalPlan,
+  MarkerGoal,
+  MarkerNote,
+  Measurement,
+  MeasurementTodo,
+  StatsHistoryEntry,
+  UserProfile,
+} from './types';
+import { DataExportV1, EXPORT_FORMAT, EXPORT_VERSION, ExportedMarker, ExportedMarkerGoal } from './dataExport';
+import { findImportConflict, toDateKey } from './importConflicts';
+import { findMarkerByLoinc, findMarkerByNpu } from './loinc';
+import { convertValue, isSameUnit, roundConverted } from './units';
+
+/**
+ * Restore from our own JSON export (see dataExport.ts).
+ * Rows keep their exported ids, so running the same restore twice writes
+ * nothing the second time. Markers are matched by id, then LOINC/NPU code,
+ * then name and shortName, so an export from another Supabase project maps onto this
+ * project's catalog.
+ */
+
+export class RestoreError extends Error {}
+
+export type RestoreTable = 'measurements' | 'marker_notes' | 'measurement_todos' | 'journal_entries' | 'journal_goals';
+
+export interface RestoreTableCount {
+  total: number;
+  new: number; // will be written
+  existing: number; // already stored (same id or identical row)
+  skipped: number; // invalid, or refers to a marker that could not be mapped
+}
+
+export interface RestoreGoal extends JournalGoal {
+  journalId: string;
+}
+
+export interface RestorePlan {
+  exportedAt: string;
+  counts: Record<RestoreTable, RestoreTableCount>;
+  unmatchedMarkers: ExportedMarker[];
+  remappedMarkers: number; // markers found under another id in this catalog
+  measurements: Measurement[];
+  notes: MarkerNote[];
+  todos: MeasurementTodo[];
+  plans: JournalPlan[]; // new plans, without goals (they are in `goals`)
+  // Marker links of every exported plan, also existing ones, so a retried restore completes them
+  planLinks: Array<{ journalId: string; markerId: string }>;
+  goals: RestoreGoal[];
+  ignoredMarkerIds: string[];
+  markerGoals: ExportedMarkerGoal[]; // only markers without a target of their own yet
+  statsHistory: StatsHistoryEntry[];
+  profile: UserProfile | null;
+}
+
+export const RESTORE_TABLES: Array<{ id: RestoreTable; label: string }> = [
+  { id: 'measurements', label: 'Mätningar' },
+  { id: 'marker_notes', label: 'Anteckningar' },
+  { id: 'measurement_todos', label: 'Att göra' },
+  { id: 'journal_entries', label: 'Planer' },
+  { id: 'journal_goals', label: 'Mål' },
+];
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const arrayOf = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+
+/**
+ * Checks the document shape. Individual rows are validated later and
+ * skipped when broken; only a file that is not an export at all is rejected.
+ */
+export const parseExport = (raw: unknown): DataExportV1 => {
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    throw new RestoreError('Filen är inte en export från minablodprov.');
+  }
+  if (raw.version !== EXPORT_VERSION) {
+    throw new RestoreError(`Exportversion ${String(raw.version)} stöds inte (förväntade ${EXPORT_VERSION}).`);
+  }
+  if (!Array.isArray(raw.markers) || !Array.isArray(raw.measurements)) {
+    throw new RestoreError('Exporten saknar markörer eller mätningar.');
+  }
+
+  const markers: ExportedMarker[] = raw.markers
+    .filter((m: unknown) => isRecord(m) && isNonEmptyString(m.id) && isNonEmptyString(m.name))
+    .map((m: any) => ({
+      id: m.id,
+      name: m.name,
+      shortName: typeof m.shortName === 'string' ? m.shortName : '',
+      unit: typeof m.unit === 'string' ? m.unit : '',
+      category: typeof m.category === 'string' ? m.category : '',
+      loincCode: typeof m.loincCode === 'string' ? m.loincCode : null,
+      npuCode: typeof m.npuCode === 'string' ? m.npuCode : null,
+    }));
+
+  const profile = isRecord(raw.profile)
+    ? {
+        birthDate: typeof raw.profile.birthDate === 'string' ? raw.profile.birthDate : null,
+        sex: raw.profile.sex === 'male' || raw.profile.sex === 'female' ? raw.profile.sex : null,
+      }
+    : null;
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    account: {
+      userId: typeof raw.account?.userId === 'string' ? raw.account.userId : '',
+      email: typeof raw.account?.email === 'string' ? raw.account.email : null,
+    },
+    profile,
+    markers,
+    measurements: raw.measurements as Measurement[],
+    markerNotes: arrayOf(raw.markerNotes) as MarkerNote[],
+    todos: arrayOf(raw.todos) as MeasurementTodo[],
+    plans: arrayOf(raw.plans) as JournalPlan[],
+    ignoredMarkerIds: arrayOf(raw.ignoredMarkerIds).filter(isNonEmptyString),
+    markerGoals: arrayOf(raw.markerGoals).filter(
+      (g): g is ExportedMarkerGoal =>
+        isRecord(g) && isNonEmptyString(g.markerId) && isFiniteNumber(g.targetMin) && isFiniteNumber(g.targetMax),
+    ),
+    statsHistory: arrayOf(raw.statsHistory) as StatsHistoryEntry[],
+  };
+};
+
+// Accepts the zip from "Exportera all min data" as well as the JSON file inside it
+export const readExportFile = async (file: File): Promise<DataExportV1> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let text: string;
+
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(bytes, { filter: (f) => f.name.endsWith('minablodprov-export.json') });
+    } catch {
+      throw new RestoreError('Kunde inte packa upp zip-filen.');
+    }
+    const json = Object.values(entries)[0];
+    if (!json) throw new RestoreError('Zip-filen innehåller ingen minablodprov-export.json.');
+    text = strFromU8(json);
+  } else {
+    text = strFromU8(bytes);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new RestoreError('Filen är inte giltig JSON.');
+  }
+  return parseExport(raw);
+};
+
+const norm = (s: string) => (s ?? '').trim().toLowerCase();
+
+/**
+ * Exported marker id -> marker in this catalog. Same id wins, then the LOINC
+ * or NPU code, then a unique name match, then a unique shortName match.
+ */
+export const mapMarkers = (exported: ExportedMarker[], catalog: BloodMarker[]) => {
+  const byId = new Map(catalog.map((m) => [m.id, m]));
+  const unique = (key: (m: BloodMarker) => string) => {
+    const map = new Map<string, BloodMarker | null>();
+    for (const m of catalog) {
+      const k = norm(key(m));
+      if (!k) continue;
+      map.set(k, map.has(k) ? null : m); // null marks an ambiguous key
+    }
+    return map;
+  };
+  const byName = unique((m) => m.name);
+  const byShortName = unique((m) => m.shortName);
+
+  const mapped = new Map<string, BloodMarker>();
+  const unmatched: ExportedMarker[] = [];
+  let remapped = 0;
+
+  for (const e of exported) {
+    const target =
+      byId.get(e.id) ??
+      (e.loincCode ? findMarkerByLoinc(e.loincCode, catalog) : undefined) ??
+      (e.npuCode ? findMarkerByNpu(e.npuCode, catalog) : undefined) ??
+      byName.get(norm(e.name)) ??
+      byShortName.get(norm(e.shortName)) ??
+      null;
+    if (!target) {
+      unmatched.push(e);
+      continue;
+    }
+    if (target.id !== e.id) remapped++;
+    mapped.set(e.id, target);
+  }
+  return { mapped, unmatched, remapped };
+};
+
+const emptyCount = (): RestoreTableCount => ({ total: 0, new: 0, existing: 0, skipped: 0 });
+
+/**
+ * Works out what a restore would write, given what is already stored.
+ * Nothing is written here; the result doubles as the preview.
+ */
+export const planRestore = (
+  data: DataExportV1,
+  current: {
+    markers: BloodMarker[];
+    measurements: Measurement[];
+    notes: MarkerNote[];
+    todos: MeasurementTodo[];
+    plans: JournalPlan[];
+    profile: UserProfile | null;
+    markerGoals?: Record<string, MarkerGoal>;
+  },
+): RestorePlan => {
+  const { mapped, unmatched, remapped } = mapMarkers(data.markers, current.markers);
+  const exportedById = new Map(data.markers.map((m) => [m.id, m]));
+  const counts = Object.fromEntries(RESTORE_TABLES.map((t) => [t.id, emptyCount()])) as Record<RestoreTable, RestoreTableCount>;
+
+  const markerFor = (id: unknown) => (typeof id === 'string' ? mapped.get(id) : undefined);
+
+  // Values are stored in the marker's unit; convert when the catalogs disagree
+  const convert = (exportedId: string, target: BloodMarker) => {
+    const fromUnit = exportedById.get(exportedId)?.unit;
+    if (!fromUnit || isSameUnit(fromUnit, target.unit)) return (v: number) => v;
+    return (v: number) => {
+      const out = convertValue(v, fromUnit, target.unit, target);
+      return out === null ? null : roundConverted(out);
+    };
+  };
+
+  // --- Measurements
+  const measurementIds = new Set(current.measurements.map((m) => m.id));
+  const measurements: Measurement[] = [];
+  for (const raw of data.measurements) {
+    const c = counts.measurements;
+    c.total++;
+    const target = isRecord(raw) ? markerFor(raw.markerId) : undefined;
+    if (!isRecord(raw) || !isNonEmptyString(raw.id) || !target || !isFiniteNumber(raw.value) || !isNonEmptyString(raw.date)) {
+      c.skipped++;
+      continue;
+    }
+    const conv = convert(raw.markerId, target);
+    const value = conv(raw.value);
+    if (value === null) {
+      c.skipped++;
+      continue;
+    }
+    const optional = (v: unknown) => (isFiniteNumber(v) ? conv(v) : null);
+
+    const m: Measurement = {
+      id: raw.id,
+      markerId: target.id,
+      value,
+      date: raw.date,
+      note: typeof raw.note === 'string' ? raw.note : null,
+      originalValue: isFiniteNumber(raw.originalValue) ? raw.originalValue : null,
+      originalUnit: typeof raw.originalUnit === 'string' ? raw.originalUnit : null,
+      labMinRef: optional(raw.labMinRef),
+      labMaxRef: optional(raw.labMaxRef),
+      labName: typeof raw.labName === 'string' ? raw.labName : null,
+    };
+
+    // Same id, or the same reading entered again under a new id
+    const stored = measurementIds.has(m.id) || findImportConflict(m, target, current.measurements)?.kind === 'duplicate';
+    if (stored) {
+      c.existing++;
+      continue;
+    }
+    measurementIds.add(m.id);
+    measurements.push(m);
+    c.new++;
+  }
+
+  // --- Marker notes
+  const noteIds = new Set(current.notes.map((n) => n.id));
+  const noteKey = (n: Pick<MarkerNote, 'markerId' | 'date' | 'note'>) => `${n.markerId}|${toDateKey(n.date)}|${n.note.trim()}`;
+  const noteKeys = new Set(current.notes.map(noteKey));
+  const notes: MarkerNote[] = [];
+  for (const raw of data.markerNotes) {
+    const c = counts.marker_notes;
+    c.total++;
+    const target = isRecord(raw) ? markerFor(raw.markerId) : undefined;
+    if (!isRecord(raw) || !isNonEmptyString(raw.id) || !target || !isNonEmptyString(raw.note) || !isNonEmptyString(raw.date)) {
+      c.skipped++;
+      continue;
+    }
+    const n: MarkerNote = { id: raw.id, markerId: target.id, note: raw.note, date: raw.date };
+    if (noteIds.has(n.id) || noteKeys.has(noteKey(n))) {
+      c.existing++;
+      continue;
+    }
+    noteIds.add(n.id);
+    noteKeys.add(noteKey(n));
+    notes.push(n);
+    c.new++;
+  }
+
+  // --- Plans (journal_entries) and their goals
+  const planIds = new Set(current.plans.map((p) => p.id));
+  const goalIds = new Set(current.plans.flatMap((p) => (p.goals ?? []).map((g) => g.id)).filter(Boolean) as string[]);
+  const plans: JournalPlan[] = [];
+  const goals: RestoreGoal[] = [];
+  const planLinks: RestorePlan['planLinks'] = [];
+  for (const raw of data.plans) {
+    const c = counts.journal_entries;
+    c.total++;
+    if (!isRecord(raw) || !isNonEmptyString(raw.id)) {
+      c.skipped++;
+      continue;
+    }
+
+    const linkedMarkerIds = [...new Set(arrayOf(raw.linkedMarkerIds).map((id) => markerFor(id)?.id).filter(isNonEmptyString))];
+    linkedMarkerIds.forEach((markerId) => planLinks.push({ journalId: raw.id, markerId }));
+
+    for (const g of arrayOf(raw.goals)) {
+      const gc = counts.journal_goals;
+      gc.total++;
+      const target = isRecord(g) ? markerFor(g.markerId) : undefined;
+      if (!isRecord(g) || !target || !['higher', 'lower', 'range'].includes(g.direction) || !isFiniteNumber(g.targetValue)) {
+        gc.skipped++;
+        continue;
+      }
+      const conv = convert(g.markerId, target);
+      const targetValue = conv(g.targetValue);
+      const targetValueUpper = isFiniteNumber(g.targetValueUpper) ? conv(g.targetValueUpper) : undefined;
+      if (targetValue === null || targetValueUpper === null) {
+        gc.skipped++;
+        continue;
+      }
+      if (isNonEmptyString(g.id) && goalIds.has(g.id)) {
+        gc.existing++;
+        continue;
+      }
+      if (isNonEmptyString(g.id)) goalIds.add(g.id);
+      goals.push({
+        ...(isNonEmptyString(g.id) ? { id: g.id } : {}),
+        journalId: raw.id,
+        markerId: target.id,
+        direction: g.direction,
+        targetValue,
+        ...(targetValueUpper !== undefined ? { targetValueUpper } : {}),
+      });
+      gc.new++;
+    }
+
+    if (planIds.has(raw.id)) {
+      c.existing++;
+      continue;
+    }
+    planIds.add(raw.id);
+    plans.push({
+      id: raw.id,
+      title: typeof raw.title === 'string' ? raw.title : '',
+      content: typeof raw.content === 'string' ? raw.content : '',
+      createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : data.exportedAt,
+      updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : data.exportedAt,
+      startDate: typeof raw.startDate === 'string' ? raw.startDate : undefined,
+      targetDate: typeof raw.targetDate === 'string' ? raw.targetDate : undefined,
+      isPinned: Boolean(raw.isPinned),
+      linkedMarkerIds,
+    });
+    c.new++;
+  }
+
+  // --- Todos
+  const todoIds = new Set(current.todos.map((t) => t.id));
+  const todos: MeasurementTodo[] = [];
+  for (const raw of data.todos) {
+    const c = counts.measurement_todos;
+    c.total++;
+    if (!isRecord(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.task)) {
+      c.skipped++;
+      continue;
+    }
+    if (todoIds.has(raw.id)) {
+      c.existing++;
+      continue;
+    }
+    todoIds.add(raw.id);
+    todos.push({
+      id: raw.id,
+      // Links are dropped rather than left dangling
+      measurementId: isNonEmptyString(raw.measurementId) && measurementIds.has(raw.measurementId) ? raw.measurementId : undefined,
+      markerIds: arrayOf(raw.markerIds).map((id) => markerFor(id)?.id).filter(isNonEmptyString),
+      task: raw.task,
+      done: Boolean(raw.done),
+      dueDate: typeof raw.dueDate === 'string' ? raw.dueDate : null,
+      linkedJournalId: isNonEmptyString(raw.linkedJournalId) && planIds.has(raw.linkedJournalId) ? raw.linkedJournalId : null,
+      createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : data.exportedAt,
+      updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : data.exportedAt,
+    });
+    c.new++;
+  }
+
+  // Personal targets: converted like values, an existing target is never overwritten
+  const markerGoals: ExportedMarkerGoal[] = [];
+  for (const g of data.markerGoals ?? []) {
+    const target = markerFor(g.markerId);
+    if (!target || current.markerGoals?.[target.id] || markerGoals.some((x) => x.markerId === target.id)) continue;
+    const conv = convert(g.markerId, target);
+    const targetMin = conv(g.targetMin);
+    const targetMax = conv(g.targetMax);
+    if (targetMin === null || targetMax === null || targetMin >= targetMax) continue;
+    markerGoals.push({ markerId: target.id, targetMin, targetMax });
+  }
+
+  const statsHistory = data.statsHistory
+    .filter((h) => isRecord(h) && isNonEmptyString(h.log_date) && isFiniteNumber(h.score) && isFiniteNumber(h.total_markers))
+    .map((h) => ({ ...h, area_scores: isRecord(h.area_scores) ? h.area_scores : undefined }));
+
+  return {
+    exportedAt: data.exportedAt,
+    counts,
+    unmatchedMarkers: unmatched,
+    remappedMarkers: remapped,
+    measurements,
+    notes,
+    todos,
+    plans,
+    planLinks,
+    goals,
+    ignoredMarkerIds: data.ignoredMarkerIds.map((id) => markerFor(id)?.id).filter(isNonEmptyString),
+    markerGoals,
+    statsHistory,
+    // An existing profile is never overwritten
+    profile: !current.profile?.birthDate && !current.profile?.sex ? data.profile : null,
+  };
+};
+
+// Stats history and ignored markers are upserted on their natural keys, so they never count as work left
+export const restoreIsEmpty = (plan: RestorePlan) =>
+  RESTORE_TABLES.every((t) => plan.counts[t.id].new === 0) && !plan.profile && plan.markerGoals.length === 0;
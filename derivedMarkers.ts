@@ -0,0 +1,365 @@
+import { BloodMarker, DerivedFormula, DerivedInput, Measurement, UserProfile } from './types';
+import { findMarkerByLoinc } from './loinc';
+import { ageAtDate } from './referenceRanges';
+import { toDateKey } from './importConflicts';
+import { convertValue, roundConverted } from './units';
+import { parseDate } from './utils';
+
+/**
+ * Calculated markers (non-HDL, HOMA-IR, eGFR, ...).
+ * A marker with a formula is never measured directly: its values are computed
+ * from the input markers whenever all of them were sampled on the same day.
+ *
+ * Expressions support + - * / ^, parentheses, numbers, the input variables,
+ * `age` (years at the sampling date), `female`/`male` (1 or 0 from the profile)
+ * and the functions below.
+ */
+
+export class FormulaError extends Error {}
+
+type Node =
+  | { kind: 'num'; value: number }
+  | { kind: 'var'; name: string }
+  | { kind: 'neg'; arg: Node }
+  | { kind: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+/**
+ * eGFR (mL/min/1.73 m²), CKD-EPI 2021 without race coefficient.
+ * Creatinine in µmol/L.
+ */
+const ckdEpi = (creatinine: number, age: number, female: number) => {
+  const scr = creatinine / 88.42; // mg/dL
+  const kappa = female ? 0.7 : 0.9;
+  const alpha = female ? -0.241 : -0.302;
+  const ratio = scr / kappa;
+  return 142 * Math.min(ratio, 1) ** alpha * Math.max(ratio, 1) ** -1.2 * 0.9938 ** age * (female ? 1.012 : 1);
+};
+
+/**
+ * Free testosterone (pmol/L) after Vermeulen et al. 1999.
+ * Total testosterone and SHBG in nmol/L, albumin in g/L.
+ */
+const freeTestosterone = (total: number, shbg: number, albumin: number) => {
+  const kAlb = 3.6e4; // L/mol
+  const kShbg = 1e9; // L/mol
+  const tt = total * 1e-9;
+  const sh = shbg * 1e-9;
+  const alb = albumin / 69000; // mol/L
+
+  const n = 1 + kAlb * alb;
+  const a = n * kShbg;
+  const b = n + kShbg * (sh - tt);
+  const ft = (-b + Math.sqrt(b * b + 4 * a * tt)) / (2 * a);
+  return ft * 1e12;
+};
+
+const FUNCTIONS: Record<string, { arity: number | [number, number]; fn: (...args: number[]) => number }> = {
+  min: { arity: [1, 16], fn: Math.min },
+  max: { arity: [1, 16], fn: Math.max },
+  abs: { arity: 1, fn: Math.abs },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  ln: { arity: 1, fn: Math.log },
+  log10: { arity: 1, fn: Math.log10 },
+  exp: { arity: 1, fn: Math.exp },
+  pow: { arity: 2, fn: Math.pow },
+  ckd_epi: { arity: 3, fn: ckdEpi },
+  free_testosterone: { arity: 3, fn: freeTestosterone },
+};
+
+const CONTEXT_VARIABLES = ['age', 'female', 'male'];
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  const re = /\s*(?:(\d+(?:\.\d+)?(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\S))/giy;
+  let m: RegExpExecArray | null;
+  while (re.lastIndex < expression.length && (m = re.exec(expression))) {
+    const token = m[1] ?? m[2] ?? m[3];
+    if (token === undefined) break; // trailing whitespace
+    if (m[3] && !'+-*/^(),'.includes(m[3])) throw new FormulaError(`Okänt tecken "${m[3]}"`);
+    tokens.push(token);
+  }
+  return tokens;
+};
+
+// Recursive descent: sum -> product -> unary -> power -> atom
+const parseTokens = (tokens: string[]): Node => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (t: string) => {
+    if (tokens[pos] !== t) throw new FormulaError(`Förväntade "${t}"`);
+    pos++;
+  };
+
+  const sum = (): Node => {
+    let left = product();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++] as '+' | '-';
+      left = { kind: 'bin', op, left, right: product() };
+    }
+    return left;
+  };
+
+  const product = (): Node => {
+    let left = unary();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[pos++] as '*' | '/';
+      left = { kind: 'bin', op, left, right: unary() };
+    }
+    return left;
+  };
+
+  const unary = (): Node => {
+    if (peek() === '-') {
+      pos++;
+      return { kind: 'neg', arg: unary() };
+    }
+    if (peek() === '+') pos++;
+    return power();
+  };
+
+  // Right-associative, binds tighter than unary minus on its left: -2^2 = -4
+  const power = (): Node => {
+    const base = atom();
+    if (peek() !== '^') return base;
+    pos++;
+    return { kind: 'bin', op: '^', left: base, right: unary() };
+  };
+
+  const atom = (): Node => {
+    const t = tokens[pos++];
+    if (t === undefined) throw new FormulaError('Uttrycket tar slut för tidigt');
+    if (t === '(') {
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    if (/^\d/.test(t)) return { kind: 'num', value: Number(t) };
+    if (/^[a-z_]/i.test(t)) {
+      const name = t.toLowerCase();
+      if (peek() !== '(') return { kind: 'var', name };
+
+      const def = FUNCTIONS[name];
+      if (!def) throw new FormulaError(`Okänd funktion "${t}"`);
+      pos++;
+      const args: Node[] = [];
+      if (peek() !== ')') {
+        args.push(sum());
+        while (peek() === ',') {
+          pos++;
+          args.push(sum());
+        }
+      }
+      expect(')');
+
+      const [lo, hi] = Array.isArray(def.arity) ? def.arity : [def.arity, def.arity];
+      if (args.length < lo || args.length > hi) throw new FormulaError(`Fel antal argument till ${name}()`);
+      return { kind: 'call', name, args };
+    }
+    throw new FormulaError(`Oväntat "${t}"`);
+  };
+
+  const node = sum();
+  if (pos < tokens.length) throw new FormulaError(`Oväntat "${tokens[pos]}"`);
+  return node;
+};
+
+const parsed = new Map<string, Node>();
+
+const parseFormula = (expression: string): Node => {
+  const cached = parsed.get(expression);
+  if (cached) return cached;
+  const node = parseTokens(tokenize(expression));
+  parsed.set(expression, node);
+  return node;
+};
+
+// Null when the expression parses, otherwise the (Swedish) error message
+export const validateFormula = (expression: string): string | null => {
+  try {
+    parseFormula(expression);
+    return null;
+  } catch (e) {
+    return e instanceof FormulaError ? e.message : 'Ogiltig formel';
+  }
+};
+
+/**
+ * Evaluates an expression. A variable that is known but null (e.g. `age`
+ * without a birth date) makes the result NaN; an unknown one throws.
+ */
+export const evaluateFormula = (expression: string, variables: Record<string, number | null>): number => {
+  const run = (node: Node): number => {
+    switch (node.kind) {
+      case 'num':
+        return node.value;
+      case 'var': {
+        if (!(node.name in variables)) throw new FormulaError(`Okänd variabel "${node.name}"`);
+        return variables[node.name] ?? NaN;
+      }
+      case 'neg':
+        return -run(node.arg);
+      case 'bin': {
+        const l = run(node.left);
+        const r = run(node.right);
+        if (node.op === '+') return l + r;
+        if (node.op === '-') return l - r;
+        if (node.op === '*') return l * r;
+        if (node.op === '/') return r === 0 ? NaN : l / r;
+        return l ** r;
+      }
+      case 'call':
+        return FUNCTIONS[node.name].fn(...node.args.map(run));
+    }
+  };
+  return run(parseFormula(expression));
+};
+
+/**
+ * Reads blood_markers.formula_inputs: { "tc": "14647-2" } or
+ * { "tc": { "marker": "14647-2", "unit": "mmol/L" } }.
+ */
+export const parseFormulaInputs = (raw: unknown): Record<string, DerivedInput> => {
+  const out: Record<string, DerivedInput> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return out;
+
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    const key = name.trim().toLowerCase();
+    if (!/^[a-z_][a-z0-9_]*$/.test(key) || CONTEXT_VARIABLES.includes(key)) continue;
+
+    if (typeof value === 'string' && value.trim()) {
+      out[key] = { marker: value.trim() };
+    } else if (value && typeof value === 'object') {
+      const v = value as Record<string, unknown>;
+      if (typeof v.marker !== 'string' || !v.marker.trim()) continue;
+      out[key] = {
+        marker: v.marker.trim(),
+        unit: typeof v.unit === 'string' && v.unit.trim() ? v.unit.trim() : undefined,
+      };
+    }
+  }
+  return out;
+};
+
+const normName = (s: string) =>
+  (s ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim();
+
+const resolveInput = (input: DerivedInput, markers: BloodMarker[]): BloodMarker | undefined => {
+  const wanted = normName(input.marker);
+  return (
+    findMarkerByLoinc(input.marker, markers) ??
+    markers.find((m) => normName(m.name) === wanted) ??
+    markers.find((m) => normName(m.shortName) === wanted)
+  );
+};
+
+/**
+ * The measured markers a calculated marker is computed from, keyed by variable.
+ * Null when any input is missing from the catalog.
+ */
+export const resolveFormulaInputs = (
+  marker: BloodMarker,
+  markers: BloodMarker[],
+): Record<string, BloodMarker> | null => {
+  if (!marker.formula) return null;
+  const measured = markers.filter((m) => !m.formula);
+  const out: Record<string, BloodMarker> = {};
+  for (const [name, input] of Object.entries(marker.formula.inputs)) {
+    const found = resolveInput(input, measured);
+    if (!found) return null;
+    out[name] = found;
+  }
+  return out;
+};
+
+const isValidFormula = (formula: DerivedFormula) =>
+  Object.keys(formula.inputs).length > 0 && validateFormula(formula.expression) === null;
+
+export const derivedMeasurementId = (markerId: string, day: string) => `derived:${markerId}:${day}`;
+
+/**
+ * Computes every calculated marker for every day on which all its inputs were
+ * sampled. When an input was sampled twice the same day the later value wins.
+ * The results are read-only and never written to the database.
+ */
+export const computeDerivedMeasurements = (
+  markers: BloodMarker[],
+  measurements: Measurement[],
+  profile: UserProfile | null,
+): Measurement[] => {
+  const derivedMarkers = markers.filter((m) => m.formula && isValidFormula(m.formula));
+  if (derivedMarkers.length === 0) return [];
+
+  // markerId -> day -> latest stored measurement that day
+  const byMarkerDay = new Map<string, Map<string, Measurement>>();
+  for (const m of measurements) {
+    if (m.derived) continue;
+    const day = toDateKey(m.date);
+    let days = byMarkerDay.get(m.markerId);
+    if (!days) byMarkerDay.set(m.markerId, (days = new Map()));
+    const prev = days.get(day);
+    if (!prev || parseDate(m.date).getTime() > parseDate(prev.date).getTime()) days.set(day, m);
+  }
+
+  const out: Measurement[] = [];
+
+  for (const marker of derivedMarkers) {
+    const formula = marker.formula as DerivedFormula;
+    const inputs = resolveFormulaInputs(marker, markers);
+    if (!inputs) continue;
+
+    const entries = Object.entries(inputs);
+    const [, first] = entries[0];
+    const days = [...(byMarkerDay.get(first.id)?.keys() ?? [])].filter((day) =>
+      entries.every(([, m]) => byMarkerDay.get(m.id)?.has(day)),
+    );
+
+    for (const day of days) {
+      const variables: Record<string, number | null> = {};
+      let date = '';
+      let convertible = true;
+
+      for (const [name, input] of entries) {
+        const m = byMarkerDay.get(input.id)!.get(day)!;
+        const wantedUnit = formula.inputs[name].unit;
+        const value = wantedUnit ? convertValue(m.value, input.unit, wantedUnit, input) : m.value;
+        if (value == null) {
+          convertible = false;
+          break;
+        }
+        variables[name] = value;
+        if (m.date > date) date = m.date;
+      }
+      if (!convertible) continue;
+
+      const age = ageAtDate(profile?.birthDate, date);
+      const sex = profile?.sex ?? null;
+      variables.age = age;
+      variables.female = sex ? (sex === 'female' ? 1 : 0) : null;
+      variables.male = sex ? (sex === 'male' ? 1 : 0) : null;
+
+      let value: number;
+      try {
+        value = evaluateFormula(formula.expression, variables);
+      } catch {
+        continue;
+      }
+      if (!Number.isFinite(value)) continue;
+
+      out.push({
+        id: derivedMeasurementId(marker.id, day),
+        markerId: marker.id,
+        value: roundConverted(value),
+        date,
+        note: null,
+        derived: true,
+      });
+    }
+  }
+
+  return out;
+};
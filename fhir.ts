@@ -0,0 +1,151 @@
+import { BloodMarker, Measurement, ResolvedRange, UserProfile } from './types';
+import { getStatus } from './utils';
+import { normalizeUnit } from './units';
+import { LOINC_SYSTEM, NPU_SYSTEM, formatNpuCode, getLoincCode } from './loinc';
+
+/**
+ * Minimal FHIR R4 support: measurements as laboratory Observations in a
+ * collection Bundle. Only the fields we actually have are filled in.
+ */
+
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+export const MARKER_SYSTEM = 'urn:minablodprov:marker';
+const CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'final';
+  category: Array<{ coding: FhirCoding[] }>;
+  code: { coding: FhirCoding[]; text: string };
+  subject?: { reference: string };
+  effectiveDateTime: string;
+  valueQuantity: FhirQuantity;
+  referenceRange?: Array<{ low?: FhirQuantity; high?: FhirQuantity; text?: string }>;
+  interpretation?: Array<{ coding: FhirCoding[] }>;
+  performer?: Array<{ display: string }>;
+  note?: Array<{ text: string }>;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+  gender?: 'male' | 'female';
+  birthDate?: string;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: Array<{ fullUrl: string; resource: FhirObservation | FhirPatient }>;
+}
+
+/**
+ * UCUM code for the units we use, or null when there is no unambiguous one
+ * (the unit is then only exported as display text).
+ */
+export const toUcum = (unit: string): string | null => {
+  const u = normalizeUnit(unit)
+    .replace(/µ/g, 'u')
+    .replace(/^x?10\^(\d+)\//i, '10*$1/');
+  if (/^m?IU\/L$/i.test(u)) return u.replace(/IU/i, '[IU]'); // "mIU/L" -> "m[IU]/L"
+  return /^(10\*\d+\/[lL]|%|fL|pg|mmol\/mol|(p|n|u|m|d|k)?(g|mol|kat|U)\/(d|m)?[lL])$/.test(u) ? u : null;
+};
+
+// Back from UCUM to the spelling we use for marker units ("10*9/L" -> "10^9/L", "m[IU]/L" -> "mIU/L")
+export const fromUcum = (code: string): string =>
+  (code ?? '').trim().replace(/^10\*(\d+)/, '10^$1').replace(/\[IU\]/g, 'IU');
+
+const quantity = (value: number, unit: string): FhirQuantity => {
+  const code = toUcum(unit);
+  return code ? { value, unit, system: UCUM_SYSTEM, code } : { value, unit };
+};
+
+const INTERPRETATION: Record<string, FhirCoding> = {
+  low: { system: INTERPRETATION_SYSTEM, code: 'L', display: 'Low' },
+  normal: { system: INTERPRETATION_SYSTEM, code: 'N', display: 'Normal' },
+  high: { system: INTERPRETATION_SYSTEM, code: 'H', display: 'High' },
+};
+
+export const buildObservation = (
+  measurement: Measurement,
+  marker: BloodMarker,
+  range: ResolvedRange | undefined,
+  patientRef?: string,
+): FhirObservation => {
+  const loinc = getLoincCode(marker);
+  const npu = formatNpuCode(marker.npuCode);
+  const coding: FhirCoding[] = [
+    ...(loinc ? [{ system: LOINC_SYSTEM, code: loinc.code, display: loinc.display }] : []),
+    ...(npu ? [{ system: NPU_SYSTEM, code: npu }] : []),
+    { system: MARKER_SYSTEM, code: marker.id, display: marker.name },
+  ];
+  const r = range ?? { minRef: marker.minRef, maxRef: marker.maxRef };
+
+  return {
+    resourceType: 'Observation',
+    id: measurement.id,
+    status: 'final',
+    category: [{ coding: [{ system: CATEGORY_SYSTEM, code: 'laboratory', display: 'Laboratory' }] }],
+    code: { coding, text: marker.name },
+    ...(patientRef ? { subject: { reference: patientRef } } : {}),
+    effectiveDateTime: measurement.date,
+    valueQuantity: quantity(measurement.value, marker.unit),
+    referenceRange: [
+      {
+        low: quantity(r.minRef, marker.unit),
+        high: quantity(r.maxRef, marker.unit),
+        ...(r.label ? { text: r.label } : {}),
+      },
+    ],
+    interpretation: [{ coding: [INTERPRETATION[getStatus(measurement.value, r.minRef, r.maxRef)]] }],
+    ...(measurement.labName ? { performer: [{ display: measurement.labName }] } : {}),
+    ...(measurement.note ? { note: [{ text: measurement.note }] } : {}),
+  };
+};
+
+export const buildObservationBundle = (input: {
+  userId: string;
+  profile: UserProfile | null;
+  markers: BloodMarker[];
+  measurements: Measurement[];
+  measurementRanges?: Record<string, ResolvedRange>;
+}): FhirBundle => {
+  const markersById = new Map<string, BloodMarker>(input.markers.map((m) => [m.id, m]));
+  const patientRef = `urn:uuid:${input.userId}`;
+  const patient: FhirPatient = {
+    resourceType: 'Patient',
+    id: input.userId,
+    ...(input.profile?.sex ? { gender: input.profile.sex } : {}),
+    ...(input.profile?.birthDate ? { birthDate: input.profile.birthDate } : {}),
+  };
+
+  const observations = input.measurements.flatMap((m) => {
+    const marker = markersById.get(m.markerId);
+    if (!marker) return [];
+    const resource = buildObservation(m, marker, input.measurementRanges?.[m.id], patientRef);
+    return [{ fullUrl: `urn:uuid:${m.id}`, resource }];
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [{ fullUrl: patientRef, resource: patient }, ...observations],
+  };
+};
@@ -0,0 +1,138 @@
+import { AreaScores, FocusAreaId, MarkerHistory, Severity } from './types';
+import { FOCUS_AREAS, getFocusAreasForMarker } from './utils';
+
+/**
+ * Health score (0–100) with one sub-score per focus area.
+ *
+ * Each deviating marker pulls its areas down by severity × clinical weight, so
+ * a slightly low vitamin D costs a few points while a high ApoB costs a lot.
+ * The penalties multiply within an area and normal markers contribute nothing,
+ * so adding more normal markers never raises a sub-score. The total works the
+ * same way across areas: each area's factor, damped by how much the area
+ * matters, multiplies into it. Every added deviation lowers the total and an
+ * area where everything is normal leaves it unchanged.
+ * Ignored markers are left out, and so are calculated ones (non-HDL, TG/HDL
+ * and so on): their inputs are already scored, so they would count the same
+ * sample twice.
+ */
+
+export interface AreaScore {
+  id: FocusAreaId;
+  score: number;
+  markerCount: number;
+  attentionCount: number;
+}
+
+export interface HealthScoreBreakdown {
+  score: number;
+  areas: AreaScore[]; // in FOCUS_AREAS order, only areas with markers
+}
+
+type ScoredMarker = Pick<MarkerHistory, 'name' | 'category' | 'severity' | 'isIgnored' | 'formula'>;
+
+// Share of the marker's weight lost at each grade
+const SEVERITY_PENALTY: Record<Severity, number> = {
+  normal: 0,
+  borderline: 0.25,
+  out_of_range: 0.65,
+  critical: 1,
+};
+
+const MAX_MARKER_WEIGHT = 3;
+const DEFAULT_MARKER_WEIGHT = 1;
+
+// Clinical importance by (normalized) name, first match wins. Keys match at the
+// start of a word, so "hdl" also matches "non-hdl-kolesterol" – keep the more
+// specific key higher up.
+const MARKER_WEIGHTS: Array<[number, string[]]> = [
+  [3, ['apob', 'apo b', 'ldl', 'non-hdl', 'lp(a)', 'lipoprotein', 'hba1c', 'glukos', 'fasteglukos', 'glucose', 'egfr',
+       'kreatinin', 'creatinine', 'cystatin', 'kalium', 'potassium', 'natrium', 'sodium', 'kalcium', 'calcium',
+       'hemoglobin', 'hb', 'tromb', 'platelet', 'leuko', 'wbc']],
+  [2, ['hdl', 'triglycer', 'kolesterol', 'totalkolesterol', 'cholesterol', 'insulin', 'homa', 'crp', 'hs-crp',
+       'alat', 'alt', 'asat', 'ast', 'ggt', 'gt', 'alp', 'bilirubin', 'albumin', 'tsh', 'fritt t4', 'ft4', 'urat',
+       'urea', 'erytro', 'rbc', 'evf', 'hematokrit', 'ferritin', 'b12', 'folat', 'magnesium', 'fosfat', 'homocystein']],
+];
+
+// How much each area counts towards the total; an area at the top weight passes its factor on in full
+const MAX_AREA_WEIGHT = 3;
+const AREA_WEIGHTS: Record<FocusAreaId, number> = {
+  cardiovascular: 3,
+  metabolic: 3,
+  kidney: 2.5,
+  liver: 2,
+  blood: 2,
+  electrolytes: 2,
+  inflammation: 1.5,
+  thyroid: 1.5,
+  hormones: 1,
+  micronutrients: 1,
+  other: 1,
+};
+
+const norm = (s: string) =>
+  (s ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+const startsWord = (hay: string, key: string) => {
+  let i = hay.indexOf(key);
+  while (i !== -1) {
+    if (i === 0 || !/[a-z0-9]/.test(hay[i - 1])) return true;
+    i = hay.indexOf(key, i + 1);
+  }
+  return false;
+};
+
+export const markerWeight = (marker: Pick<MarkerHistory, 'name'>) => {
+  const name = norm(marker.name);
+  for (const [weight, keys] of MARKER_WEIGHTS) {
+    if (keys.some((k) => startsWord(name, k))) return weight;
+  }
+  return DEFAULT_MARKER_WEIGHT;
+};
+
+export const computeHealthScore = (markers: ScoredMarker[]): HealthScoreBreakdown => {
+  const byArea = new Map<FocusAreaId, { factor: number; markerCount: number; attentionCount: number }>();
+
+  for (const m of markers) {
+    if (m.isIgnored || m.formula) continue;
+    const penalty = SEVERITY_PENALTY[m.severity ?? 'normal'];
+    const factor = 1 - (penalty * markerWeight(m)) / MAX_MARKER_WEIGHT;
+    for (const id of getFocusAreasForMarker(m)) {
+      const area = byArea.get(id) ?? { factor: 1, markerCount: 0, attentionCount: 0 };
+      area.factor *= factor;
+      area.markerCount++;
+      if (penalty > 0) area.attentionCount++;
+      byArea.set(id, area);
+    }
+  }
+
+  const areas: AreaScore[] = FOCUS_AREAS.filter((a) => byArea.has(a.id)).map((a) => {
+    const area = byArea.get(a.id)!;
+    return {
+      id: a.id,
+      score: Math.round(area.factor * 100),
+      markerCount: area.markerCount,
+      attentionCount: area.attentionCount,
+    };
+  });
+  if (areas.length === 0) return { score: 0, areas };
+
+  // A mean of sub-scores would let a new area (all normal, or only slightly off) lift the total
+  let total = 1;
+  for (const [id, area] of byArea) {
+    total *= area.factor ** (AREA_WEIGHTS[id] / MAX_AREA_WEIGHT);
+  }
+  return { score: Math.round(total * 100), areas };
+};
+
+// The form stored in user_stats_history.area_scores
+export const toAreaScores = (areas: AreaScore[]): AreaScores =>
+  Object.fromEntries(areas.map((a) => [a.id, a.score])) as AreaScores;
+
+export const sameAreaScores = (a: AreaScores | null | undefined, b: AreaScores | null | undefined) => {
+  const ka = Object.keys(a ?? {}) as (keyof AreaScores)[];
+  const kb = Object.keys(b ?? {}) as (keyof AreaScores)[];
+  return ka.length === kb.length && ka.every((k) => a?.[k] === b?.[k]);
+};
@@ -0,0 +1,64 @@
+import { BloodMarker, Measurement } from './types';
+import { parseDate } from './utils';
+import { toMarkerUnit } from './units';
+
+/**
+ * Compares imported readings against measurements that are already stored,
+ * so re-pasting a report or importing overlapping exports does not create
+ * duplicate rows.
+ */
+
+export type ImportConflictKind = 'duplicate' | 'conflict';
+
+// What to do with an imported reading that collides with a stored one
+export type ImportResolution = 'skip' | 'overwrite' | 'keep';
+
+export interface ImportConflict {
+  kind: ImportConflictKind;
+  existing: Measurement;
+}
+
+export const RESOLUTION_OPTIONS: Array<{ id: ImportResolution; label: string }> = [
+  { id: 'skip', label: 'Hoppa över' },
+  { id: 'overwrite', label: 'Skriv över' },
+  { id: 'keep', label: 'Behåll båda' },
+];
+
+// Calendar day in local time, so "2024-03-05" and "2024-03-05T08:30:00+01:00" compare equal
+export const toDateKey = (date: string): string => {
+  const d = parseDate(date);
+  return Number.isNaN(d.getTime()) ? date.slice(0, 10) : d.toLocaleDateString('sv-SE');
+};
+
+const sameValue = (a: number, b: number) => Math.abs(a - b) <= 1e-9 + 1e-6 * Math.max(Math.abs(a), Math.abs(b));
+
+/**
+ * Finds a stored measurement for the same marker and day. An identical value
+ * (after unit conversion) is a duplicate, anything else a conflict.
+ */
+export const findImportConflict = (
+  reading: { markerId: string; value: number; unit?: string; date: string },
+  marker: BloodMarker | undefined,
+  measurements: Measurement[],
+): ImportConflict | null => {
+  const day = toDateKey(reading.date);
+  const sameDay = measurements.filter((m) => m.markerId === reading.markerId && toDateKey(m.date) === day);
+  if (sameDay.length === 0) return null;
+
+  const converted = marker ? toMarkerUnit(reading.value, reading.unit, marker) : null;
+  const value = converted?.value ?? reading.value;
+
+  const duplicate = sameDay.find(
+    (m) =>
+      sameValue(m.value, value) ||
+      (m.originalValue != null && m.originalUnit === converted?.originalUnit && sameValue(m.originalValue, reading.value)),
+  );
+  if (duplicate) return { kind: 'duplicate', existing: duplicate };
+  return { kind: 'conflict', existing: sameDay[0] };
+};
+
+// Exact duplicates are skipped unless the user says otherwise; conflicts need a decision
+export const defaultResolution = (conflict: ImportConflict | null): ImportResolution | null => {
+  if (!conflict) return 'keep';
+  return conflict.kind === 'duplicate' ? 'skip' : null;
+};
@@ -24,10 +24,11 @@ const ErrorScreen = ({ error }: { error: unknown }) => (
 
 const bootstrap = async () => {
   try {
-    const { default: App } = await import('./App');
+    const [{ default: App }, { createRepository }] = await Promise.all([import('./App'), import('./backend')]);
+    const repository = createRepository();
     root.render(
       <React.StrictMode>
-        <App />
+        <App repository={repository} />
       </React.StrictMode>
     );
   } catch (err) {
@@ -38,3 +39,10 @@ const bootstrap = async () => {
 };
 
 bootstrap();
+
+// Installable app with an offline shell (public/sw.js); not in dev, where it would cache Vite's modules
+if ('serviceWorker' in navigator && (import.meta as any).env?.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => console.warn('Service worker registration failed:', err));
+  });
+}
@@ -0,0 +1,295 @@
+import { BloodMarker } from './types';
+import { safeFloat } from './utils';
+import { getUnitOptions, isSameUnit } from './units';
+import { SourceLine } from './pdfText';
+
+/**
+ * Rule-based parser for lab result text.
+ * Resolves lines like "Hb 145", "P-Glukos\t5,4\tmmol/L\t4,0-6,0" or
+ * "Ferritin: 120 µg/L (30-350) H" without leaving the browser. Anything it is
+ * not sure about is returned as unresolved so the caller can ask the AI.
+ */
+
+export type LabFlag = 'H' | 'L';
+
+export interface RuleMatch {
+  markerId: string;
+  value: number;
+  unit: string; // one of getUnitOptions(marker)
+  refMin: number | null;
+  refMax: number | null;
+  flag: LabFlag | null;
+  source: SourceLine;
+}
+
+export interface RuleParseResult {
+  matches: RuleMatch[];
+  unresolved: SourceLine[]; // lines with numbers that no rule could resolve
+  date: string | null;
+  lab: string | null;
+}
+
+/**
+ * Names that refer to the same marker. Only a fallback for markers without
+ * stored synonyms (blood_markers.synonyms, seeded by 0006/0015), such as the
+ * local backend's catalog: such a marker picks up every alias in a group that
+ * contains its name or shortName. Specimen prefixes (B-, P-, S-, fP-, U-) are
+ * stripped before matching, so they are not listed here.
+ */
+const SYNONYMS: string[][] = [
+  ['hemoglobin', 'hb', 'haemoglobin', 'hgb'],
+  ['hba1c', 'hb a1c', 'glykerat hemoglobin', 'langtidssocker'],
+  ['glukos', 'glucose', 'fasteglukos', 'blodsocker'],
+  ['ferritin'],
+  ['jarn', 'fe', 'iron'],
+  ['transferrin'],
+  ['transferrinmattnad', 'jarnmattnad', 'transferrin saturation'],
+  ['leukocyter', 'lpk', 'wbc', 'vita blodkroppar'],
+  ['erytrocyter', 'epk', 'rbc', 'roda blodkroppar'],
+  ['trombocyter', 'tpk', 'plt', 'blodplattar'],
+  ['evf', 'hematokrit', 'hct'],
+  ['mcv'],
+  ['mch'],
+  ['mchc'],
+  ['kolesterol', 'totalkolesterol', 'total kolesterol', 'cholesterol'],
+  ['ldl', 'ldl kolesterol', 'ldl-kolesterol', 'kolesterol ldl'],
+  ['hdl', 'hdl kolesterol', 'hdl-kolesterol', 'kolesterol hdl'],
+  ['non-hdl', 'non hdl', 'non-hdl-kolesterol'],
+  ['triglycerider', 'tg', 'triglyceride', 'triglycerides'],
+  ['apob', 'apo b', 'apolipoprotein b'],
+  ['apoa1', 'apo a1', 'apolipoprotein a1'],
+  ['lp(a)', 'lipoprotein(a)', 'lipoprotein a'],
+  ['crp', 'c-reaktivt protein'],
+  ['hs-crp', 'hscrp', 'hogkanslig crp'],
+  ['alat', 'alt', 'alaninaminotransferas'],
+  ['asat', 'ast', 'aspartataminotransferas'],
+  ['gt', 'ggt', 'gamma-gt', 'gamma gt'],
+  ['alp', 'alkaliska fosfataser', 'alkaliskt fosfatas'],
+  ['bilirubin'],
+  ['albumin'],
+  ['kreatinin', 'krea', 'creatinine'],
+  ['egfr', 'estimerat gfr'],
+  ['cystatin c', 'cystatin'],
+  ['urat', 'urinsyra', 'uric acid'],
+  ['urea', 'karbamid'],
+  ['natrium', 'na', 'sodium'],
+  ['kalium', 'k', 'potassium'],
+  ['kalcium', 'ca', 'calcium'],
+  ['magnesium', 'mg'],
+  ['fosfat', 'phosphate'],
+  ['zink', 'zn', 'zinc'],
+  ['tsh', 'tyreoideastimulerande hormon'],
+  ['fritt t4', 'ft4', 't4 fritt', 'free t4'],
+  ['fritt t3', 'ft3', 't3 fritt', 'free t3'],
+  ['testosteron', 'testosterone'],
+  ['fritt testosteron', 'free testosterone'],
+  ['shbg'],
+  ['ostradiol', 'estradiol', 'e2'],
+  ['progesteron', 'progesterone'],
+  ['prolaktin', 'prolactin'],
+  ['kortisol', 'cortisol'],
+  ['dhea-s', 'dheas', 'dhea-sulfat'],
+  ['lh'],
+  ['fsh'],
+  ['psa', 'prostataspecifikt antigen'],
+  ['insulin'],
+  ['homocystein', 'homocysteine'],
+  ['vitamin d', 'd-vitamin', '25-oh vitamin d', '25-oh-d', '25(oh)d', 'vitamin d (25-oh)'],
+  ['vitamin b12', 'b12', 'kobalamin', 'cobalamin'],
+  ['folat', 'folsyra', 'folate'],
+];
+
+const KNOWN_LABS = ['Werlabs', 'Unilabs', 'Synlab', 'Medisera', 'Blodkollen', 'Medicheck', 'Karolinska Universitetslaboratoriet'];
+
+const SPECIMEN_PREFIX = /^(?:f?[bpsu]|pt|ery)\s*-\s*/;
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`;
+const ISO_DATE = /\b((?:19|20)\d{2})-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])\b/g;
+
+// Case/diacritic folding that keeps string length, so indexes map back to the original line
+const fold = (s: string) =>
+  Array.from(s, (c) => {
+    const f = c.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    return f.length === 1 ? f : c.toLowerCase();
+  }).join('');
+
+// "LDL-kolesterol" and "LDL kolesterol" are the same name
+const aliasKey = (s: string) =>
+  fold((s ?? '').trim()).replace(SPECIMEN_PREFIX, '').replace(/-/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Alias -> marker id, longest alias first. Aliases shared by several markers
+ * are dropped; a marker's own name always beats a synonym.
+ */
+const buildAliasIndex = (markers: BloodMarker[]): Array<[string, string]> => {
+  const direct = new Map<string, string | null>();
+  for (const m of markers) {
+    for (const key of [aliasKey(m.name), aliasKey(m.shortName)]) {
+      if (!key) continue;
+      const existing = direct.get(key);
+      direct.set(key, existing === undefined || existing === m.id ? m.id : null);
+    }
+  }
+
+  const synonyms = new Map<string, string | null>();
+  const addSynonym = (key: string, id: string) => {
+    if (!key || direct.has(key)) return;
+    const existing = synonyms.get(key);
+    synonyms.set(key, existing === undefined || existing === id ? id : null);
+  };
+  for (const m of markers) {
+    // Synonyms stored on the marker (blood_markers.synonyms)
+    for (const s of m.synonyms ?? []) addSynonym(aliasKey(s), m.id);
+    if (m.synonyms?.length) continue;
+
+    const own = [aliasKey(m.name), aliasKey(m.shortName)];
+    for (const group of SYNONYMS) {
+      const keys = group.map(aliasKey);
+      if (!keys.some((k) => own.includes(k))) continue;
+      for (const key of keys) addSynonym(key, m.id);
+    }
+  }
+
+  const out: Array<[string, string]> = [];
+  for (const [key, id] of [...direct, ...synonyms]) {
+    if (id) out.push([key, id]);
+  }
+  return out.sort((a, b) => b[0].length - a[0].length);
+};
+
+const hasNumber = (text: string) => /(^|[^a-z])\d/i.test(text);
+
+const parseFlag = (token: string): LabFlag | null => {
+  if (/^\*?H\*?$/.test(token) || token === '↑') return 'H';
+  if (/^\*?L\*?$/.test(token) || token === '↓') return 'L';
+  return null;
+};
+
+const parseRange = (text: string): { refMin: number | null; refMax: number | null } => {
+  const both = new RegExp(String.raw`(${NUMBER})\s*[-–—]\s*(${NUMBER})`).exec(text);
+  if (both) {
+    const refMin = safeFloat(both[1]);
+    const refMax = safeFloat(both[2]);
+    if (refMin <= refMax) return { refMin, refMax };
+  }
+  const upper = new RegExp(String.raw`[<≤]\s*(${NUMBER})`).exec(text);
+  if (upper) return { refMin: null, refMax: safeFloat(upper[1]) };
+  const lower = new RegExp(String.raw`[>≥]\s*(${NUMBER})`).exec(text);
+  if (lower) return { refMin: safeFloat(lower[1]), refMax: null };
+  return { refMin: null, refMax: null };
+};
+
+/**
+ * Parses the part of a line after the marker name. Returns null when the line
+ * does not look like "<name> <value> [unit] [flag] [range]".
+ */
+const parseReading = (rest: string, marker: BloodMarker) => {
+  // Only a separator or a parenthesised alias may sit between name and value: "Hb (B-Hemoglobin): 145"
+  const m = new RegExp(String.raw`^\s*(?:\([^()\d]*\))?\s*[:=]?\s*([<>≤≥]?)\s*(${NUMBER})(?=$|[\s(*a-zA-Zµμ%/])`).exec(rest);
+  if (!m) return null;
+  // "< 0,6" is a detection limit, not a value we can store as-is
+  if (m[1]) return null;
+
+  const value = safeFloat(m[2]);
+  const after = rest.slice(m[0].length).replace(ISO_DATE, ' ');
+
+  let unit: string | null = null;
+  let flag: LabFlag | null = null;
+  for (const raw of after.split(/\s+/)) {
+    const token = raw.replace(/^[(\[,;]+|[)\],;]+$/g, '');
+    if (!token) continue;
+    const f = parseFlag(token);
+    if (f) {
+      flag = flag ?? f;
+      continue;
+    }
+    if (unit) continue;
+
+    const known = getUnitOptions(marker).find((u) => isSameUnit(u, token));
+    if (known) {
+      unit = known;
+      continue;
+    }
+    // Looks like a unit but not one we can convert: leave it to the AI
+    if (/[a-zµμ%]/i.test(token) && /[\/%]/.test(token)) return null;
+  }
+
+  const { refMin, refMax } = parseRange(after);
+  return { value, unit: unit ?? marker.unit, refMin, refMax, flag };
+};
+
+const distinctDates = (text: string) => new Set(Array.from(text.matchAll(ISO_DATE), (d) => d[0]));
+
+// Prefers a date on a line that mentions sampling, otherwise the first date in the text
+const findDate = (lines: SourceLine[]): string | null => {
+  let first: string | null = null;
+  for (const l of lines) {
+    const dates = [...distinctDates(l.text)];
+    if (dates.length === 0) continue;
+    if (/provtag|provdatum|taget|sampl|analysdatum/i.test(fold(l.text))) return dates[0];
+    first = first ?? dates[0];
+  }
+  return first;
+};
+
+const findLab = (lines: SourceLine[]): string | null => {
+  const text = lines.map((l) => l.text).join('\n').toLowerCase();
+  return KNOWN_LABS.find((lab) => text.includes(lab.toLowerCase())) ?? null;
+};
+
+// A header row of dates only, or several rows with more than one date. A single
+// row such as "gäller från 2024-01-01" next to the sampling date is not enough.
+const MIN_MULTI_DATE_LINES = 3;
+
+const isCumulative = (lines: SourceLine[]) => {
+  const multiDate = lines.filter((l) => distinctDates(l.text).size > 1);
+  const header = multiDate.some((l) => !hasNumber(l.text.replace(ISO_DATE, ' ')));
+  return header || multiDate.length >= MIN_MULTI_DATE_LINES;
+};
+
+export const parseLabText = (lines: SourceLine[], markers: BloodMarker[]): RuleParseResult => {
+  const index = buildAliasIndex(markers);
+  const markersById = new Map<string, BloodMarker>(markers.map((m) => [m.id, m]));
+  const matches: RuleMatch[] = [];
+  const unresolved: SourceLine[] = [];
+  const seen = new Set<string>();
+
+  // Cumulative reports (1177 tables) put several sampling dates side by side.
+  // Telling columns apart needs the header, so the whole text goes to the AI.
+  if (isCumulative(lines)) {
+    const withNumbers = lines.filter((l) => hasNumber(l.text));
+    return { matches, unresolved: withNumbers, date: null, lab: findLab(lines) };
+  }
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+
+    const folded = fold(text);
+    const prefix = SPECIMEN_PREFIX.exec(folded)?.[0].length ?? 0;
+    const head = folded.slice(prefix).replace(/-/g, ' ');
+
+    let reading: ReturnType<typeof parseReading> = null;
+    let markerId: string | null = null;
+    for (const [alias, id] of index) {
+      if (!head.startsWith(alias) || /[a-z0-9]/.test(head.charAt(alias.length))) continue;
+      const marker = markersById.get(id)!;
+      reading = parseReading(text.slice(prefix + alias.length), marker);
+      markerId = id;
+      break;
+    }
+
+    if (reading && markerId) {
+      // Reports often repeat a summary; the first occurrence wins
+      if (!seen.has(markerId)) {
+        seen.add(markerId);
+        matches.push({ markerId, ...reading, source: line });
+      }
+      continue;
+    }
+
+    const withoutDates = text.replace(ISO_DATE, ' ');
+    if (hasNumber(withoutDates)) unresolved.push(line);
+  }
+
+  return { matches, unresolved, date: findDate(lines), lab: findLab(lines) };
+};
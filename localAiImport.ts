@@ -0,0 +1,25 @@
+import { BloodMarker } from './types';
+import { getUnitOptions } from './units';
+import { AiImportResponse, MarkerContext, buildPrompt, validateAiResponse } from './api/_lib/aiImportSchema';
+import { createMockProvider } from './api/_lib/providers/mock';
+
+/**
+ * AI import for the local backend (VITE_DATA_BACKEND=local). There is no
+ * Supabase session to send to /api/ai-import, so the mock provider runs in
+ * the browser with the same fixtures (VITE_AI_MOCK_FIXTURE, default
+ * "werlabs") and its answer goes through the route's validation.
+ */
+export const localAiImport = async (text: string, markers: BloodMarker[]): Promise<AiImportResponse> => {
+  const context: MarkerContext[] = markers.map((m) => ({
+    id: m.id,
+    name: m.name,
+    shortName: m.shortName,
+    unit: m.unit,
+    alternativeUnits: getUnitOptions(m).slice(1),
+    synonyms: m.synonyms ?? [],
+  }));
+
+  const provider = createMockProvider((import.meta as any).env?.VITE_AI_MOCK_FIXTURE || 'werlabs');
+  const raw = await provider.extract({ prompt: buildPrompt(context), text, markers: context });
+  return validateAiResponse(JSON.parse(raw), context);
+};
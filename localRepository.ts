@@ -0,0 +1,529 @@
+import type { Session } from '@supabase/supabase-js';
+import {
+  Advice,
+  BloodMarker,
+  JournalPlan,
+  MarkerGoal,
+  MarkerNote,
+  Measurement,
+  MeasurementTodo,
+  StatsHistoryEntry,
+  UserProfile,
+} from './types';
+import { DataChange, PLAN_CONFLICT, Repository, RepositoryError, UserData, displayRangeFor } from './repository';
+
+/**
+ * In-memory backend for development and automated tests (VITE_DATA_BACKEND=local).
+ * There is no sign-in: the app starts with a fixed local user. Pass a Storage
+ * (window.localStorage) to keep the data across reloads; a write from another
+ * tab on the same storage (the 'storage' event) is delivered as a 'reload'.
+ */
+
+type Owned<T> = T & { userId: string };
+
+interface MarkerSettingsRow {
+  userId: string;
+  markerId: string;
+  isIgnored: boolean;
+  goal: MarkerGoal | null;
+}
+
+export interface LocalState {
+  markers: BloodMarker[];
+  measurements: Owned<Measurement>[];
+  notes: Owned<MarkerNote>[];
+  todos: Owned<MeasurementTodo>[];
+  plans: Owned<JournalPlan>[];
+  settings: MarkerSettingsRow[];
+  statsHistory: Owned<StatsHistoryEntry>[];
+  profiles: Record<string, UserProfile>;
+  advice: Advice[];
+}
+
+export interface LocalRepositoryOptions {
+  storage?: Storage; // omitted: data only lives as long as the repository
+  storageKey?: string;
+  seed?: Partial<LocalState>; // replaces the default catalog; ignored when storage already has data
+  user?: { id: string; email: string };
+  isAdmin?: boolean;
+}
+
+const DEFAULT_STORAGE_KEY = 'hj:local-backend';
+const DEFAULT_USER = { id: '00000000-0000-4000-8000-000000000001', email: 'local@localhost' };
+
+const catalogMarker = (
+  id: string,
+  name: string,
+  shortName: string,
+  unit: string,
+  minRef: number,
+  maxRef: number,
+  category: string,
+  description: string,
+): BloodMarker => ({
+  id,
+  name,
+  shortName,
+  unit,
+  minRef,
+  maxRef,
+  category,
+  description,
+  ...displayRangeFor({ name, shortName, unit, minRef, maxRef, category }),
+  synonyms: [],
+  ownerId: null,
+});
+
+// A handful of common markers so the dashboard has something to show
+export const LOCAL_CATALOG: BloodMarker[] = [
+  catalogMarker('local-hb', 'Hemoglobin', 'Hb', 'g/L', 117, 153, 'Blodstatus', 'Syrebärande protein i de röda blodkropparna.'),
+  catalogMarker('local-ferritin', 'Ferritin', 'Ferr', 'µg/L', 30, 300, 'Järn', 'Speglar kroppens järndepåer.'),
+  catalogMarker('local-glukos', 'Glukos', 'Glu', 'mmol/L', 4.0, 6.0, 'Metabolism', 'Blodsocker, fastevärde.'),
+  catalogMarker('local-hba1c', 'HbA1c', 'A1c', 'mmol/mol', 27, 42, 'Metabolism', 'Långtidsblodsocker, speglar de senaste 2–3 månaderna.'),
+  catalogMarker('local-ldl', 'LDL-kolesterol', 'LDL', 'mmol/L', 0, 3.0, 'Blodfetter', 'Kolesterol i LDL-partiklar.'),
+  catalogMarker('local-hdl', 'HDL-kolesterol', 'HDL', 'mmol/L', 1.0, 2.7, 'Blodfetter', 'Kolesterol i HDL-partiklar.'),
+  catalogMarker('local-tsh', 'TSH', 'TSH', 'mIE/L', 0.4, 4.0, 'Sköldkörtel', 'Styrhormon för sköldkörteln.'),
+  catalogMarker('local-crp', 'CRP', 'CRP', 'mg/L', 0, 5, 'Inflammation', 'Stiger vid inflammation och infektion.'),
+  catalogMarker('local-kreatinin', 'Kreatinin', 'Krea', 'µmol/L', 45, 90, 'Njurar', 'Restprodukt från musklerna, speglar njurfunktionen.'),
+  catalogMarker('local-vitd', 'Vitamin D', 'D-vit', 'nmol/L', 50, 250, 'Vitaminer', '25-OH vitamin D.'),
+];
+
+const emptyState = (seed?: Partial<LocalState>): LocalState => ({
+  markers: LOCAL_CATALOG.map((m) => ({ ...m })),
+  measurements: [],
+  notes: [],
+  todos: [],
+  plans: [],
+  settings: [],
+  statsHistory: [],
+  profiles: {},
+  advice: [],
+  ...seed,
+});
+
+const newId = () => crypto.randomUUID();
+const now = () => new Date().toISOString();
+const byDesc = <T>(key: (item: T) => string) => (a: T, b: T) => key(b).localeCompare(key(a));
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+const strip = <T extends { userId: string }>({ userId: _userId, ...rest }: T) => rest;
+
+export const createLocalRepository = (options: LocalRepositoryOptions = {}): Repository => {
+  const storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+  const user = options.user ?? DEFAULT_USER;
+  const session = { user: { id: user.id, email: user.email }, access_token: 'local' } as unknown as Session;
+
+  const load = (): LocalState => {
+    const raw = options.storage?.getItem(storageKey);
+    if (raw) {
+      try {
+        return { ...emptyState(), ...JSON.parse(raw) };
+      } catch (err) {
+        console.warn('Local backend: stored data is unreadable, starting over.', err);
+      }
+    }
+    return emptyState(options.seed);
+  };
+
+  let state = load();
+  let signedIn = true;
+  const authListeners = new Set<(s: Session | null) => void>();
+  const signIn = () => {
+    signedIn = true;
+    authListeners.forEach((cb) => cb(session));
+  };
+  const changeListeners = new Set<(change: DataChange) => void>();
+
+  // Like a Postgres write: persisted first, then the subscribers hear about it
+  const commit = (...changes: DataChange[]) => {
+    options.storage?.setItem(storageKey, JSON.stringify(state));
+    changes.forEach((change) => changeListeners.forEach((cb) => cb(clone(change))));
+  };
+
+  const findOwned = <T extends { id: string; userId: string }>(rows: T[], userId: string, id: string, label: string) => {
+    const row = rows.find((r) => r.id === id && r.userId === userId);
+    if (!row) throw new RepositoryError(`${label} ${id} hittades inte.`, 'PGRST116');
+    return row;
+  };
+
+  const requireNewId = (rows: Array<{ id: string }>, id?: string) => {
+    if (id && rows.some((r) => r.id === id)) {
+      throw new RepositoryError(`duplicate key value violates unique constraint (id ${id})`, '23505');
+    }
+  };
+
+  const requireMarker = (markerId: string) => {
+    if (!state.markers.some((m) => m.id === markerId)) {
+      throw new RepositoryError(`Markören ${markerId} finns inte (foreign key).`, '23503');
+    }
+  };
+
+  const settingsRow = (userId: string, markerId: string) => {
+    let row = state.settings.find((s) => s.userId === userId && s.markerId === markerId);
+    if (!row) {
+      row = { userId, markerId, isIgnored: false, goal: null };
+      state.settings.push(row);
+    }
+    return row;
+  };
+
+  const settingsChange = (row: MarkerSettingsRow): DataChange => ({
+    table: 'markerSettings',
+    type: 'upsert',
+    markerId: row.markerId,
+    isIgnored: row.isIgnored,
+    goal: row.goal,
+  });
+
+  const repository: Repository = {
+    async getSession() {
+      return signedIn ? session : null;
+    },
+
+    onAuthStateChange(callback) {
+      authListeners.add(callback);
+      return () => {
+        authListeners.delete(callback);
+      };
+    },
+
+    // Any credentials sign the fixed local user in; there is no account to check them against
+    async signInWithPassword() {
+      signIn();
+    },
+
+    async signInWithMagicLink() {
+      signIn();
+    },
+
+    async signUp() {
+      signIn();
+      return { needsConfirmation: false };
+    },
+
+    async updatePassword() {},
+
+    // A reload signs the local user in again
+    async signOut() {
+      signedIn = false;
+      authListeners.forEach((cb) => cb(null));
+    },
+
+    async getAccessToken() {
+      return signedIn ? session.access_token : null;
+    },
+
+    async loadUserData(userId): Promise<UserData> {
+      const mine = <T extends { userId: string }>(rows: T[]) => rows.filter((r) => r.userId === userId).map(strip);
+      const settings = state.settings.filter((s) => s.userId === userId);
+      const markerGoals: Record<string, MarkerGoal> = {};
+      settings.forEach((s) => {
+        if (s.goal) markerGoals[s.markerId] = s.goal;
+      });
+
+      return clone({
+        markers: state.markers.filter((m) => options.isAdmin || !m.ownerId || m.ownerId === userId),
+        measurements: mine(state.measurements).sort(byDesc((m) => m.date)),
+        notes: mine(state.notes).sort(byDesc((n) => n.date)),
+        todos: mine(state.todos).sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+        plans: mine(state.plans).sort(byDesc((p) => p.updatedAt)),
+        ignoredMarkerIds: settings.filter((s) => s.isIgnored).map((s) => s.markerId),
+        markerGoals,
+        statsHistory: mine(state.statsHistory).sort((a, b) => a.log_date.localeCompare(b.log_date)),
+        referenceRanges: [],
+        profile: state.profiles[userId] ?? null,
+        isAdmin: Boolean(options.isAdmin),
+        advice: [...state.advice].sort((a, b) => a.sortOrder - b.sortOrder),
+        missing: [],
+      });
+    },
+
+    // No database to migrate
+    async missingMigrations() {
+      return [];
+    },
+
+    subscribe(_userId, onChange) {
+      changeListeners.add(onChange);
+      const onStorage = (e: StorageEvent) => {
+        if (e.key !== storageKey) return;
+        state = load();
+        onChange({ table: '*', type: 'reload' });
+      };
+      if (options.storage && typeof window !== 'undefined') window.addEventListener('storage', onStorage);
+      return () => {
+        changeListeners.delete(onChange);
+        if (options.storage && typeof window !== 'undefined') window.removeEventListener('storage', onStorage);
+      };
+    },
+
+    async createMarker(userId, input) {
+      const marker: BloodMarker = {
+        id: newId(),
+        name: input.name,
+        shortName: input.shortName,
+        unit: input.unit,
+        minRef: input.minRef,
+        maxRef: input.maxRef,
+        category: input.category,
+        description: input.description ?? 'Ingen beskrivning tillgänglig.',
+        ...displayRangeFor(input),
+        synonyms: [],
+        ownerId: userId,
+      };
+      state.markers.push(marker);
+      commit({ table: 'markers', type: 'upsert', row: marker });
+      return clone(marker);
+    },
+
+    async deleteMarker(userId, markerId) {
+      state.markers = state.markers.filter((m) => !(m.id === markerId && m.ownerId === userId));
+      commit({ table: 'markers', type: 'delete', id: markerId });
+    },
+
+    async promoteMarker(markerId) {
+      if (!options.isAdmin) throw new RepositoryError('permission denied for function promote_marker', '42501');
+      const marker = state.markers.find((m) => m.id === markerId && m.ownerId);
+      if (!marker) throw new RepositoryError(`Marker ${markerId} is not a private marker`, 'P0002');
+      marker.ownerId = null;
+      commit({ table: 'markers', type: 'upsert', row: marker });
+    },
+
+    async addMeasurements(userId, rows) {
+      rows.forEach((r) => {
+        requireMarker(r.markerId);
+        requireNewId(state.measurements, r.id);
+      });
+      const saved = rows.map((r): Owned<Measurement> => ({
+          id: r.id ?? newId(),
+          userId,
+          markerId: r.markerId,
+          value: r.value,
+          date: r.date,
+          note: r.note ?? null,
+          originalValue: r.originalValue ?? null,
+          originalUnit: r.originalUnit ?? null,
+          labMinRef: r.labMinRef ?? null,
+          labMaxRef: r.labMaxRef ?? null,
+          labName: r.labName ?? null,
+      }));
+      state.measurements.push(...saved);
+      commit(...saved.map((row): DataChange => ({ table: 'measurements', type: 'upsert', row: strip(row) })));
+      return clone(saved.map(strip));
+    },
+
+    async replaceMeasurements(userId, rows) {
+      // Checked up front so a missing row changes nothing
+      const targets = rows.map((r) => {
+        requireMarker(r.markerId);
+        return findOwned(state.measurements, userId, r.id, 'Mätningen');
+      });
+      targets.forEach((row, i) => {
+        const { id: _id, ...reading } = rows[i];
+        Object.assign(row, {
+          ...reading,
+          originalValue: reading.originalValue ?? null,
+          originalUnit: reading.originalUnit ?? null,
+          labMinRef: reading.labMinRef ?? null,
+          labMaxRef: reading.labMaxRef ?? null,
+          labName: reading.labName ?? null,
+        });
+      });
+      commit(...targets.map((row): DataChange => ({ table: 'measurements', type: 'upsert', row: strip(row) })));
+      return clone(targets.map(strip));
+    },
+
+    async updateMeasurement(userId, measurementId, patch) {
+      const row = findOwned(state.measurements, userId, measurementId, 'Mätningen');
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value !== undefined) (row as any)[key] = value;
+      });
+      commit({ table: 'measurements', type: 'upsert', row: strip(row) });
+      return clone(strip(row));
+    },
+
+    async deleteMeasurement(userId, measurementId) {
+      state.measurements = state.measurements.filter((m) => !(m.id === measurementId && m.userId === userId));
+      commit({ table: 'measurements', type: 'delete', id: measurementId });
+    },
+
+    async addNote(userId, markerId, note, noteId) {
+      requireMarker(markerId);
+      requireNewId(state.notes, noteId);
+      const row = { id: noteId ?? newId(), userId, markerId, note, date: now() };
+      state.notes.push(row);
+      commit({ table: 'notes', type: 'upsert', row: strip(row) });
+      return clone(strip(row));
+    },
+
+    async updateNote(userId, noteId, note) {
+      const row = findOwned(state.notes, userId, noteId, 'Anteckningen');
+      row.note = note;
+      commit({ table: 'notes', type: 'upsert', row: strip(row) });
+      return clone(strip(row));
+    },
+
+    async deleteNote(userId, noteId) {
+      state.notes = state.notes.filter((n) => !(n.id === noteId && n.userId === userId));
+      commit({ table: 'notes', type: 'delete', id: noteId });
+    },
+
+    async addTodo(userId, todo) {
+      requireNewId(state.todos, todo.id);
+      const stamp = now();
+      const row: Owned<MeasurementTodo> = {
+        id: todo.id ?? newId(),
+        userId,
+        markerIds: todo.markerIds,
+        task: todo.task,
+        done: false,
+        dueDate: null,
+        linkedJournalId: todo.linkedJournalId ?? null,
+        createdAt: stamp,
+        updatedAt: stamp,
+      };
+      state.todos.push(row);
+      commit({ table: 'todos', type: 'upsert', row: strip(row) });
+      return clone(strip(row));
+    },
+
+    async updateTodo(userId, todoId, patch) {
+      const row = findOwned(state.todos, userId, todoId, 'Uppgiften');
+      Object.assign(row, patch, { updatedAt: now() });
+      commit({ table: 'todos', type: 'upsert', row: strip(row) });
+      return clone(strip(row));
+    },
+
+    async deleteTodo(userId, todoId) {
+      state.todos = state.todos.filter((t) => !(t.id === todoId && t.userId === userId));
+      commit({ table: 'todos', type: 'delete', id: todoId });
+    },
+
+    async savePlan(userId, plan) {
+      const existing = plan.id ? state.plans.find((p) => p.id === plan.id && p.userId === userId) : undefined;
+      // Same checks as save_journal_plan (0014)
+      if (plan.id && plan.expectedUpdatedAt !== undefined) {
+        if (!existing) throw new RepositoryError(`Plan ${plan.id} no longer exists`, 'P0002');
+        if (existing.updatedAt !== plan.expectedUpdatedAt) {
+          throw new RepositoryError(`Plan ${plan.id} was changed after it was opened`, PLAN_CONFLICT);
+        }
+      }
+      const stamp = now();
+      const saved: Owned<JournalPlan> = {
+        id: existing?.id ?? plan.id ?? newId(),
+        userId,
+        title: plan.title,
+        content: plan.content,
+        startDate: plan.startDate,
+        targetDate: plan.targetDate,
+        isPinned: existing?.isPinned ?? false,
+        createdAt: existing?.createdAt ?? stamp,
+        updatedAt: stamp,
+        linkedMarkerIds: [...plan.markerIds],
+        goals: plan.goals.map((g) => ({ ...g, id: g.id ?? newId() })),
+      };
+      state.plans = [...state.plans.filter((p) => p !== existing), saved];
+      commit({ table: 'plans', type: 'upsert', row: strip(saved) });
+      return clone(strip(saved)) as JournalPlan;
+    },
+
+    async deletePlan(userId, planId) {
+      state.plans = state.plans.filter((p) => !(p.id === planId && p.userId === userId));
+      // Same as the foreign key's "on delete set null"
+      const unlinked = state.todos.filter((t) => t.userId === userId && t.linkedJournalId === planId);
+      unlinked.forEach((t) => {
+        t.linkedJournalId = null;
+      });
+      commit(
+        { table: 'plans', type: 'delete', id: planId },
+        ...unlinked.map((t): DataChange => ({ table: 'todos', type: 'upsert', row: strip(t) })),
+      );
+    },
+
+    async saveMarkerSettings(userId, markerId, patch) {
+      const row = settingsRow(userId, markerId);
+      if (patch.isIgnored !== undefined) row.isIgnored = patch.isIgnored;
+      if (patch.goal !== undefined) row.goal = patch.goal;
+      commit(settingsChange(row));
+    },
+
+    async saveProfile(userId, profile) {
+      state.profiles[userId] = { birthDate: profile.birthDate || null, sex: profile.sex || null };
+      commit({ table: 'profile', type: 'upsert', row: state.profiles[userId] });
+    },
+
+    async saveStatsHistory(userId, entry) {
+      let row = state.statsHistory.find((h) => h.userId === userId && h.log_date === entry.log_date);
+      if (row) Object.assign(row, entry);
+      else state.statsHistory.push((row = { id: newId(), userId, ...entry }));
+      commit({ table: 'statsHistory', type: 'upsert', row: strip(row) });
+      return (await repository.loadUserData(userId)).statsHistory;
+    },
+
+    async saveAdvice(input, adviceId) {
+      if (!options.isAdmin) throw new RepositoryError('new row violates row-level security policy for table "advice"', '42501');
+      let row = adviceId ? state.advice.find((a) => a.id === adviceId) : undefined;
+      if (adviceId && !row) throw new RepositoryError(`Rådet ${adviceId} hittades inte.`, 'PGRST116');
+      if (row) Object.assign(row, input);
+      else state.advice.push((row = { id: newId(), ...input }));
+      commit({ table: 'advice', type: 'upsert', row });
+      return clone(row);
+    },
+
+    async deleteAdvice(adviceId) {
+      if (!options.isAdmin) throw new RepositoryError('permission denied for table advice', '42501');
+      state.advice = state.advice.filter((a) => a.id !== adviceId);
+      commit({ table: 'advice', type: 'delete', id: adviceId });
+    },
+
+    async restore(userId, plan, capabilities) {
+      const has = (rows: Array<{ id: string }>, id: string) => rows.some((r) => r.id === id);
+
+      if (capabilities.journal) {
+        plan.plans.forEach((p) => {
+          if (has(state.plans, p.id)) return;
+          state.plans.push({
+            ...p,
+            userId,
+            goals: plan.goals
+              .filter((g) => g.journalId === p.id)
+              .map(({ journalId: _journalId, ...g }) => ({ ...g, id: g.id ?? newId() })),
+          });
+        });
+        plan.planLinks.forEach((l) => {
+          const target = state.plans.find((p) => p.id === l.journalId && p.userId === userId);
+          if (target && !target.linkedMarkerIds.includes(l.markerId)) target.linkedMarkerIds.push(l.markerId);
+        });
+      }
+      plan.measurements.forEach((m) => {
+        if (!has(state.measurements, m.id)) state.measurements.push({ ...m, userId });
+      });
+      if (capabilities.markerNotes) {
+        plan.notes.forEach((n) => {
+          if (!has(state.notes, n.id)) state.notes.push({ ...n, userId });
+        });
+      }
+      if (capabilities.todos) {
+        plan.todos.forEach((t) => {
+          if (has(state.todos, t.id)) return;
+          state.todos.push({ ...t, userId, linkedJournalId: capabilities.journal ? t.linkedJournalId ?? null : null });
+        });
+      }
+      plan.ignoredMarkerIds.forEach((mid) => {
+        if (!state.settings.some((s) => s.userId === userId && s.markerId === mid)) settingsRow(userId, mid).isIgnored = true;
+      });
+      plan.markerGoals.forEach((g) => {
+        settingsRow(userId, g.markerId).goal = { targetMin: g.targetMin, targetMax: g.targetMax };
+      });
+      plan.statsHistory.forEach((h) => {
+        if (!state.statsHistory.some((e) => e.userId === userId && e.log_date === h.log_date)) {
+          state.statsHistory.push({ ...h, userId });
+        }
+      });
+      if (plan.profile && !state.profiles[userId]) state.profiles[userId] = plan.profile;
+      // Callers reload after a restore instead of getting every row as a change
+      commit();
+    },
+  };
+
+  return repository;
+};
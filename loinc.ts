@@ -0,0 +1,123 @@
+import { BloodMarker } from './types';
+
+/**
+ * LOINC codes for common markers, used when exporting to FHIR and to map
+ * coded results (FHIR, HL7 v2) back to markers on import. The catalog is the
+ * source: a code stored on the marker (blood_markers.loinc_code, seeded by
+ * 0006) wins, and the table below is only a fallback for markers that have
+ * none, such as the local backend's catalog. Codes are for the property
+ * Swedish labs report in (substance concentration for most chemistry, e.g.
+ * mmol/L rather than mg/dL). Markers without a confident match are exported
+ * without a LOINC coding.
+ */
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+// NPU (Nomenclature for Properties and Units), used by Swedish and Danish labs
+export const NPU_SYSTEM = 'urn:oid:1.2.208.176.2.1';
+
+export interface LoincCode {
+  code: string;
+  display: string;
+}
+
+interface LoincEntry extends LoincCode {
+  match: string[];
+}
+
+const LOINC: LoincEntry[] = [
+  { match: ['hemoglobin', 'hb'], code: '718-7', display: 'Hemoglobin [Mass/volume] in Blood' },
+  { match: ['hba1c', 'hb a1c'], code: '59261-8', display: 'Hemoglobin A1c/Hemoglobin.total in Blood by IFCC protocol' },
+  { match: ['glukos', 'glucose'], code: '14749-6', display: 'Glucose [Moles/volume] in Serum or Plasma' },
+  { match: ['ferritin'], code: '2276-4', display: 'Ferritin [Mass/volume] in Serum or Plasma' },
+  { match: ['jarn', 'iron', 'fe'], code: '14798-3', display: 'Iron [Moles/volume] in Serum or Plasma' },
+  { match: ['transferrin'], code: '3034-6', display: 'Transferrin [Mass/volume] in Serum or Plasma' },
+  { match: ['transferrinmattnad', 'jarnmattnad'], code: '2502-3', display: 'Iron saturation [Mass Fraction] in Serum or Plasma' },
+  { match: ['leukocyter', 'lpk', 'wbc'], code: '6690-2', display: 'Leukocytes [#/volume] in Blood by Automated count' },
+  { match: ['erytrocyter', 'epk', 'rbc'], code: '789-8', display: 'Erythrocytes [#/volume] in Blood by Automated count' },
+  { match: ['trombocyter', 'tpk', 'plt'], code: '777-3', display: 'Platelets [#/volume] in Blood by Automated count' },
+  { match: ['evf', 'hematokrit', 'hct'], code: '4544-3', display: 'Hematocrit [Volume Fraction] of Blood by Automated count' },
+  { match: ['mcv'], code: '787-2', display: 'MCV [Entitic volume] by Automated count' },
+  { match: ['mch'], code: '785-6', display: 'MCH [Entitic mass] by Automated count' },
+  { match: ['mchc'], code: '786-4', display: 'MCHC [Mass/volume] by Automated count' },
+  { match: ['kolesterol', 'totalkolesterol', 'cholesterol'], code: '14647-2', display: 'Cholesterol [Moles/volume] in Serum or Plasma' },
+  { match: ['ldl', 'ldl kolesterol'], code: '22748-8', display: 'Cholesterol in LDL [Moles/volume] in Serum or Plasma' },
+  { match: ['hdl', 'hdl kolesterol'], code: '14646-4', display: 'Cholesterol in HDL [Moles/volume] in Serum or Plasma' },
+  { match: ['triglycerider', 'tg', 'triglyceride'], code: '14927-8', display: 'Triglyceride [Moles/volume] in Serum or Plasma' },
+  { match: ['apob', 'apo b', 'apolipoprotein b'], code: '1884-6', display: 'Apolipoprotein B [Mass/volume] in Serum or Plasma' },
+  { match: ['apoa1', 'apo a1', 'apolipoprotein a1'], code: '1869-7', display: 'Apolipoprotein A-I [Mass/volume] in Serum or Plasma' },
+  { match: ['crp'], code: '1988-5', display: 'C reactive protein [Mass/volume] in Serum or Plasma' },
+  { match: ['hs crp', 'hscrp'], code: '30522-7', display: 'C reactive protein [Mass/volume] in Serum or Plasma by High sensitivity method' },
+  { match: ['alat', 'alt'], code: '1742-6', display: 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma' },
+  { match: ['asat', 'ast'], code: '1920-8', display: 'Aspartate aminotransferase [Enzymatic activity/volume] in Serum or Plasma' },
+  { match: ['gt', 'ggt', 'gamma gt'], code: '2324-2', display: 'Gamma glutamyl transferase [Enzymatic activity/volume] in Serum or Plasma' },
+  { match: ['alp', 'alkaliska fosfataser'], code: '6768-6', display: 'Alkaline phosphatase [Enzymatic activity/volume] in Serum or Plasma' },
+  { match: ['bilirubin'], code: '14631-6', display: 'Bilirubin.total [Moles/volume] in Serum or Plasma' },
+  { match: ['albumin'], code: '1751-7', display: 'Albumin [Mass/volume] in Serum or Plasma' },
+  { match: ['kreatinin', 'krea', 'creatinine'], code: '14682-9', display: 'Creatinine [Moles/volume] in Serum or Plasma' },
+  { match: ['cystatin c'], code: '33863-2', display: 'Cystatin C [Mass/volume] in Serum or Plasma' },
+  { match: ['urat', 'urinsyra'], code: '14933-6', display: 'Urate [Moles/volume] in Serum or Plasma' },
+  { match: ['natrium', 'na', 'sodium'], code: '2951-2', display: 'Sodium [Moles/volume] in Serum or Plasma' },
+  { match: ['kalium', 'k', 'potassium'], code: '2823-3', display: 'Potassium [Moles/volume] in Serum or Plasma' },
+  { match: ['kalcium', 'ca', 'calcium'], code: '2000-8', display: 'Calcium [Moles/volume] in Serum or Plasma' },
+  { match: ['magnesium', 'mg'], code: '2601-3', display: 'Magnesium [Moles/volume] in Serum or Plasma' },
+  { match: ['fosfat', 'phosphate'], code: '14879-1', display: 'Phosphate [Moles/volume] in Serum or Plasma' },
+  { match: ['tsh'], code: '3016-3', display: 'Thyrotropin [Units/volume] in Serum or Plasma' },
+  { match: ['fritt t4', 'ft4', 't4 fritt'], code: '14920-3', display: 'Thyroxine (T4) free [Moles/volume] in Serum or Plasma' },
+  { match: ['fritt t3', 'ft3', 't3 fritt'], code: '14928-6', display: 'Triiodothyronine (T3) free [Moles/volume] in Serum or Plasma' },
+  { match: ['testosteron', 'testosterone'], code: '14913-8', display: 'Testosterone [Moles/volume] in Serum or Plasma' },
+  { match: ['shbg'], code: '13967-5', display: 'Sex hormone binding globulin [Moles/volume] in Serum or Plasma' },
+  { match: ['ostradiol', 'estradiol', 'e2'], code: '14715-7', display: 'Estradiol (E2) [Moles/volume] in Serum or Plasma' },
+  { match: ['progesteron', 'progesterone'], code: '14890-8', display: 'Progesterone [Moles/volume] in Serum or Plasma' },
+  { match: ['prolaktin', 'prolactin'], code: '2842-3', display: 'Prolactin [Mass/volume] in Serum or Plasma' },
+  { match: ['kortisol', 'cortisol'], code: '14675-3', display: 'Cortisol [Moles/volume] in Serum or Plasma' },
+  { match: ['dhea s', 'dheas', 'dhea sulfat'], code: '14687-8', display: 'Dehydroepiandrosterone sulfate (DHEA-S) [Moles/volume] in Serum or Plasma' },
+  { match: ['lh'], code: '10501-5', display: 'Lutropin [Units/volume] in Serum or Plasma' },
+  { match: ['fsh'], code: '15067-2', display: 'Follitropin [Units/volume] in Serum or Plasma' },
+  { match: ['psa'], code: '2857-1', display: 'Prostate specific Ag [Mass/volume] in Serum or Plasma' },
+  { match: ['insulin'], code: '20448-7', display: 'Insulin [Units/volume] in Serum or Plasma' },
+  { match: ['homocystein', 'homocysteine'], code: '13965-9', display: 'Homocysteine [Moles/volume] in Serum or Plasma' },
+  { match: ['vitamin b12', 'b12', 'kobalamin'], code: '14685-2', display: 'Cobalamin (Vitamin B12) [Moles/volume] in Serum or Plasma' },
+  { match: ['folat', 'folsyra', 'folate'], code: '14732-2', display: 'Folate [Moles/volume] in Serum or Plasma' },
+];
+
+const norm = (s: string) =>
+  (s ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^(?:f?[bpsu]|pt)\s*-\s*/, '') // specimen prefix: B-, P-, S-, fP-, U-
+    .replace(/-/g, ' ')
+    .trim();
+
+type CodedMarker = Pick<BloodMarker, 'name' | 'shortName'> & Partial<Pick<BloodMarker, 'loincCode' | 'npuCode'>>;
+
+export const getLoincCode = (marker: CodedMarker): LoincCode | null => {
+  const stored = marker.loincCode?.trim();
+  if (stored) {
+    return { code: stored, display: LOINC.find((e) => e.code === stored)?.display ?? marker.name };
+  }
+  // The full name decides first, so "hs-CRP" with shortName "CRP" stays hs-CRP
+  for (const key of [norm(marker.name), norm(marker.shortName)]) {
+    const found = key ? LOINC.find((e) => e.match.includes(key)) : undefined;
+    if (found) return { code: found.code, display: found.display };
+  }
+  return null;
+};
+
+// Reverse lookup for imports: a marker with the code stored wins over one matched through the table
+export const findMarkerByLoinc = <T extends CodedMarker>(code: string, markers: T[]): T | undefined => {
+  const wanted = (code ?? '').trim();
+  if (!wanted) return undefined;
+  return markers.find((m) => m.loincCode?.trim() === wanted) ?? markers.find((m) => getLoincCode(m)?.code === wanted);
+};
+
+// NPU codes only come from the catalog (0015 seeds them); labs differ too much for a table here.
+// "NPU02319" and "02319" are the same code
+const npuKey = (code: string | undefined) => (code ?? '').trim().toUpperCase().replace(/^NPU/, '');
+
+export const findMarkerByNpu = <T extends CodedMarker>(code: string, markers: T[]): T | undefined => {
+  const wanted = npuKey(code);
+  return wanted ? markers.find((m) => npuKey(m.npuCode) === wanted) : undefined;
+};
+
+export const formatNpuCode = (code: string | undefined): string | null => (npuKey(code) ? `NPU${npuKey(code)}` : null);
@@ -0,0 +1,571 @@
+import { JournalPlan, MarkerNote, Measurement, MeasurementTodo } from './types';
+import { DataChange, PLAN_CONFLICT, Repository, RepositoryError, SyncConflict, SyncStatus, UserData } from './repository';
+import { applyChangeToUserData } from './dataChanges';
+import { OfflineStore, OutboxEntry, OutboxOp } from './offlineStore';
+
+/**
+ * Offline-first wrapper around another Repository (Supabase in production).
+ *
+ * - Every load is cached per user in the OfflineStore; loadCachedUserData()
+ *   returns it at once and loadUserData() falls back to it without a network.
+ * - Writes to measurements, notes, todos and plans that fail for lack of a
+ *   network are queued in the outbox and answered with the row as it will be
+ *   saved. While anything is queued, new writes queue behind it so the order holds.
+ * - The outbox is replayed when the browser is back online, on the next load
+ *   and every 30 s while writes are waiting. Ids are generated here, so a
+ *   replayed insert that already reached the server is a duplicate and counts
+ *   as sent. An update or delete the server refuses (e.g. the row was deleted
+ *   on another device, or a plan saved there since) is dropped and reported
+ *   in SyncStatus.conflicts; otherwise the queued write wins.
+ */
+
+const RETRY_MS = 30_000;
+
+const OP_LABEL: Record<OutboxOp['kind'], string> = {
+  addMeasurements: 'Ny mätning',
+  updateMeasurement: 'Ändrad mätning',
+  replaceMeasurements: 'Överskrivna mätningar',
+  deleteMeasurement: 'Borttagen mätning',
+  addNote: 'Ny anteckning',
+  updateNote: 'Ändrad anteckning',
+  deleteNote: 'Borttagen anteckning',
+  addTodo: 'Ny uppgift',
+  updateTodo: 'Ändrad uppgift',
+  deleteTodo: 'Borttagen uppgift',
+  savePlan: 'Sparad plan',
+  deletePlan: 'Borttagen plan',
+};
+
+const newId = () => crypto.randomUUID();
+const now = () => new Date().toISOString();
+
+// supabase-js reports fetch failures as an error without a Postgres/PostgREST code
+export const isNetworkError = (err: unknown) => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const code = (err as any)?.code;
+  const message = String((err as any)?.message ?? err ?? '');
+  return !code && /failed to fetch|networkerror|network request failed|load failed|fetch failed|timed? ?out/i.test(message);
+};
+
+// A replayed insert whose id already exists was sent before the connection dropped
+const alreadyApplied = (op: OutboxOp, err: unknown) =>
+  op.kind.startsWith('add') && err instanceof RepositoryError && err.code === '23505';
+
+const conflictReason = (err: unknown) => {
+  const code = err instanceof RepositoryError ? err.code : undefined;
+  if (code === 'PGRST116' || code === 'P0002') return 'Raden finns inte längre (borttagen på en annan enhet).';
+  if (code === PLAN_CONFLICT) return 'Planen har ändrats på en annan enhet sedan du började redigera.';
+  return String((err as any)?.message || err || 'Okänt fel');
+};
+
+const planStamp = (changes: DataChange[]) => {
+  const change = changes.find((c) => c.table === 'plans');
+  return change?.table === 'plans' && change.type === 'upsert' ? change.row.updatedAt : undefined;
+};
+
+// The outbox is shared by every tab of the app; only one of them replays it at a time
+const OUTBOX_LOCK = 'minablodprov-outbox';
+const withOutboxLock = <T>(run: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks ? navigator.locks.request(OUTBOX_LOCK, run) : run();
+
+const missingFromCache = (label: string) => new RepositoryError(`${label} finns inte i den sparade datan.`, 'PGRST116');
+
+export const createOfflineRepository = (inner: Repository, store: OfflineStore): Repository => {
+  let status: SyncStatus = {
+    online: typeof navigator === 'undefined' || navigator.onLine !== false,
+    syncing: false,
+    pending: 0,
+    conflicts: [],
+  };
+  const statusListeners = new Set<(s: SyncStatus) => void>();
+  const changeListeners = new Set<(c: DataChange) => void>();
+
+  let activeUserId: string | null = null;
+  let snapshot: UserData | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> | null = null;
+  // Optimistic plan updated_at -> the one the server gave it, so a second queued
+  // save of the same plan is checked against the first one's result
+  const sentPlanStamps = new Map<string, string>();
+
+  const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    statusListeners.forEach((cb) => cb(status));
+  };
+
+  const activate = async (userId: string) => {
+    if (activeUserId === userId) return;
+    activeUserId = userId;
+    snapshot = null;
+    setStatus({ pending: (await store.listOutbox(userId)).length, conflicts: [] });
+  };
+
+  const persistSoon = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      if (activeUserId && snapshot) {
+        store.saveSnapshot(activeUserId, snapshot).catch((err) => console.warn('Offline cache: could not save', err));
+      }
+    }, 300);
+  };
+
+  // Keeps the cached dataset in step with what the app shows
+  const remember = (changes: DataChange[]) => {
+    if (!snapshot || changes.length === 0) return;
+    snapshot = changes.reduce(applyChangeToUserData, snapshot);
+    persistSoon();
+  };
+
+  const emit = (changes: DataChange[]) => changes.forEach((c) => changeListeners.forEach((cb) => cb(c)));
+
+  const scheduleRetry = () => {
+    if (retryTimer || status.pending === 0) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (activeUserId) flush(activeUserId);
+    }, RETRY_MS);
+  };
+
+  const replay = async (userId: string, op: OutboxOp): Promise<DataChange[]> => {
+    switch (op.kind) {
+      case 'addMeasurements':
+        return (await inner.addMeasurements(userId, op.rows)).map((row) => ({ table: 'measurements', type: 'upsert', row }));
+      case 'updateMeasurement':
+        return [{ table: 'measurements', type: 'upsert', row: await inner.updateMeasurement(userId, op.id, op.patch) }];
+      case 'replaceMeasurements':
+        return (await inner.replaceMeasurements(userId, op.rows)).map((row) => ({ table: 'measurements', type: 'upsert', row }));
+      case 'deleteMeasurement':
+        await inner.deleteMeasurement(userId, op.id);
+        return [{ table: 'measurements', type: 'delete', id: op.id }];
+      case 'addNote':
+        return [{ table: 'notes', type: 'upsert', row: await inner.addNote(userId, op.markerId, op.note, op.id) }];
+      case 'updateNote':
+        return [{ table: 'notes', type: 'upsert', row: await inner.updateNote(userId, op.id, op.note) }];
+      case 'deleteNote':
+        await inner.deleteNote(userId, op.id);
+        return [{ table: 'notes', type: 'delete', id: op.id }];
+      case 'addTodo':
+        return [{ table: 'todos', type: 'upsert', row: await inner.addTodo(userId, op.todo) }];
+      case 'updateTodo':
+        return [{ table: 'todos', type: 'upsert', row: await inner.updateTodo(userId, op.id, op.patch) }];
+      case 'deleteTodo':
+        await inner.deleteTodo(userId, op.id);
+        return [{ table: 'todos', type: 'delete', id: op.id }];
+      case 'savePlan': {
+        const expected = op.plan.expectedUpdatedAt;
+        const plan = expected && sentPlanStamps.has(expected) ? { ...op.plan, expectedUpdatedAt: sentPlanStamps.get(expected) } : op.plan;
+        return [{ table: 'plans', type: 'upsert', row: await inner.savePlan(userId, plan) }];
+      }
+      case 'deletePlan':
+        await inner.deletePlan(userId, op.id);
+        return [{ table: 'plans', type: 'delete', id: op.id }];
+    }
+  };
+
+  const flush = (userId: string): Promise<void> => {
+    if (flushing) return flushing;
+    flushing = withOutboxLock(async () => {
+      // Read under the lock: another tab may just have replayed what this one still counts as pending
+      const entries = await store.listOutbox(userId);
+      setStatus({ pending: entries.length });
+      if (entries.length === 0) return;
+
+      const conflicts: SyncConflict[] = [];
+      setStatus({ syncing: true, conflicts: [] });
+      try {
+        for (const entry of entries) {
+          if (!(await store.getOutbox(entry.seq!))) {
+            setStatus({ pending: Math.max(0, status.pending - 1) });
+            continue;
+          }
+          try {
+            const changes = await replay(userId, entry.op);
+            const queuedStamp = planStamp(entry.changes);
+            const savedStamp = planStamp(changes);
+            if (queuedStamp && savedStamp) sentPlanStamps.set(queuedStamp, savedStamp);
+            remember(changes);
+            emit(changes);
+          } catch (err) {
+            if (isNetworkError(err)) {
+              setStatus({ online: false });
+              return;
+            }
+            if (!alreadyApplied(entry.op, err)) conflicts.push({ label: OP_LABEL[entry.op.kind], reason: conflictReason(err) });
+          }
+          await store.removeOutbox(entry.seq!);
+          setStatus({ pending: Math.max(0, status.pending - 1) });
+        }
+        setStatus({ online: true });
+      } finally {
+        setStatus({ syncing: false, conflicts });
+        scheduleRetry();
+        // The dropped writes are still shown optimistically; a reload brings back the server's version
+        if (conflicts.length > 0) emit([{ table: '*', type: 'reload' }]);
+      }
+    }).finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  };
+
+  /**
+   * Runs a queueable write. Online and with an empty outbox it goes straight
+   * to the server; otherwise (or on a network error) it is queued and
+   * `optimistic` provides the changes to show in the meantime.
+   */
+  const write = async <T>(
+    userId: string,
+    op: OutboxOp,
+    send: () => Promise<T>,
+    toChanges: (result: T) => DataChange[],
+    optimistic: () => T,
+  ): Promise<T> => {
+    await activate(userId);
+    if (status.online && status.pending === 0) {
+      try {
+        const result = await send();
+        remember(toChanges(result));
+        return result;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        setStatus({ online: false });
+      }
+    }
+
+    const result = optimistic();
+    const changes = toChanges(result);
+    const entry: OutboxEntry = { userId, queuedAt: now(), op, changes };
+    await store.addOutbox(entry);
+    remember(changes);
+    setStatus({ pending: status.pending + 1 });
+    scheduleRetry();
+    return result;
+  };
+
+  const cached = <T extends { id: string }>(rows: T[] | null | undefined, id: string, label: string) => {
+    const row = rows?.find((r) => r.id === id);
+    if (!row) throw missingFromCache(label);
+    return row;
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      setStatus({ online: true });
+      if (activeUserId) flush(activeUserId);
+    });
+    window.addEventListener('offline', () => setStatus({ online: false }));
+  }
+
+  return {
+    getSession: () => inner.getSession(),
+    onAuthStateChange: (callback) => inner.onAuthStateChange(callback),
+    signInWithPassword: (email, password) => inner.signInWithPassword(email, password),
+    signInWithMagicLink: (email, redirectTo) => inner.signInWithMagicLink(email, redirectTo),
+    signUp: (email, password) => inner.signUp(email, password),
+    updatePassword: (password) => inner.updatePassword(password),
+    getAccessToken: () => inner.getAccessToken(),
+
+    // Health data should not stay on a shared device; queued writes are lost, App warns first
+    async signOut() {
+      await inner.signOut();
+      if (saveTimer) clearTimeout(saveTimer);
+      activeUserId = null;
+      snapshot = null;
+      await store.clear();
+      setStatus({ pending: 0, conflicts: [] });
+    },
+
+    async loadCachedUserData(userId) {
+      await activate(userId);
+      if (!snapshot) snapshot = await store.loadSnapshot(userId);
+      return snapshot;
+    },
+
+    async loadUserData(userId) {
+      await activate(userId);
+      // Also the reconnect probe: a flush that hits the network again leaves the outbox as is
+      if (status.pending > 0) await flush(userId);
+      try {
+        const fresh = await inner.loadUserData(userId);
+        // Writes still queued stay visible on top of the server's data
+        const queued = await store.listOutbox(userId);
+        snapshot = queued.flatMap((e) => e.changes).reduce(applyChangeToUserData, fresh);
+        setStatus({ online: true });
+        await store.saveSnapshot(userId, snapshot);
+        return snapshot;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        setStatus({ online: false });
+        scheduleRetry();
+        const fallback = snapshot ?? (await store.loadSnapshot(userId));
+        if (!fallback) throw err;
+        snapshot = fallback;
+        return fallback;
+      }
+    },
+
+    // Checked again on the next start when offline
+    async missingMigrations() {
+      try {
+        return await inner.missingMigrations();
+      } catch (err) {
+        if (isNetworkError(err)) return [];
+        throw err;
+      }
+    },
+
+    subscribe(userId, onChange) {
+      changeListeners.add(onChange);
+      const unsubscribe = inner.subscribe(userId, (change) => {
+        remember([change]);
+        onChange(change);
+      });
+      return () => {
+        changeListeners.delete(onChange);
+        unsubscribe();
+      };
+    },
+
+    onSyncStatusChange(callback) {
+      statusListeners.add(callback);
+      callback(status);
+      return () => {
+        statusListeners.delete(callback);
+      };
+    },
+
+    async createMarker(userId, input) {
+      const marker = await inner.createMarker(userId, input);
+      remember([{ table: 'markers', type: 'upsert', row: marker }]);
+      return marker;
+    },
+
+    async deleteMarker(userId, markerId) {
+      await inner.deleteMarker(userId, markerId);
+      remember([{ table: 'markers', type: 'delete', id: markerId }]);
+    },
+
+    promoteMarker: (markerId) => inner.promoteMarker(markerId),
+
+    addMeasurements(userId, rows) {
+      const withIds = rows.map((r) => ({ ...r, id: r.id ?? newId() }));
+      return write(
+        userId,
+        { kind: 'addMeasurements', rows: withIds },
+        () => inner.addMeasurements(userId, withIds),
+        (saved) => saved.map((row): DataChange => ({ table: 'measurements', type: 'upsert', row })),
+        () =>
+          withIds.map((r): Measurement => ({
+            id: r.id,
+            markerId: r.markerId,
+            value: r.value,
+            date: r.date,
+            note: r.note ?? null,
+            originalValue: r.originalValue ?? null,
+            originalUnit: r.originalUnit ?? null,
+            labMinRef: r.labMinRef ?? null,
+            labMaxRef: r.labMaxRef ?? null,
+            labName: r.labName ?? null,
+          })),
+      );
+    },
+
+    updateMeasurement(userId, measurementId, patch) {
+      return write(
+        userId,
+        { kind: 'updateMeasurement', id: measurementId, patch },
+        () => inner.updateMeasurement(userId, measurementId, patch),
+        (row) => [{ table: 'measurements', type: 'upsert', row }],
+        () => {
+          const row: Measurement = { ...cached(snapshot?.measurements, measurementId, 'Mätningen') };
+          Object.entries(patch).forEach(([key, value]) => {
+            if (value !== undefined) (row as any)[key] = value;
+          });
+          return row;
+        },
+      );
+    },
+
+    replaceMeasurements(userId, rows) {
+      return write(
+        userId,
+        { kind: 'replaceMeasurements', rows },
+        () => inner.replaceMeasurements(userId, rows),
+        (saved) => saved.map((row): DataChange => ({ table: 'measurements', type: 'upsert', row })),
+        () =>
+          rows.map((r): Measurement => ({
+            ...cached(snapshot?.measurements, r.id, 'Mätningen'),
+            ...r,
+            originalValue: r.originalValue ?? null,
+            originalUnit: r.originalUnit ?? null,
+            labMinRef: r.labMinRef ?? null,
+            labMaxRef: r.labMaxRef ?? null,
+            labName: r.labName ?? null,
+          })),
+      );
+    },
+
+    deleteMeasurement(userId, measurementId) {
+      return write(
+        userId,
+        { kind: 'deleteMeasurement', id: measurementId },
+        () => inner.deleteMeasurement(userId, measurementId),
+        () => [{ table: 'measurements', type: 'delete', id: measurementId }],
+        () => undefined,
+      );
+    },
+
+    addNote(userId, markerId, note, noteId) {
+      const id = noteId ?? newId();
+      return write(
+        userId,
+        { kind: 'addNote', id, markerId, note },
+        () => inner.addNote(userId, markerId, note, id),
+        (row) => [{ table: 'notes', type: 'upsert', row }],
+        (): MarkerNote => ({ id, markerId, note, date: now() }),
+      );
+    },
+
+    updateNote(userId, noteId, note) {
+      return write(
+        userId,
+        { kind: 'updateNote', id: noteId, note },
+        () => inner.updateNote(userId, noteId, note),
+        (row) => [{ table: 'notes', type: 'upsert', row }],
+        () => ({ ...cached(snapshot?.notes, noteId, 'Anteckningen'), note }),
+      );
+    },
+
+    deleteNote(userId, noteId) {
+      return write(
+        userId,
+        { kind: 'deleteNote', id: noteId },
+        () => inner.deleteNote(userId, noteId),
+        () => [{ table: 'notes', type: 'delete', id: noteId }],
+        () => undefined,
+      );
+    },
+
+    addTodo(userId, todo) {
+      const withId = { ...todo, id: todo.id ?? newId() };
+      return write(
+        userId,
+        { kind: 'addTodo', todo: withId },
+        () => inner.addTodo(userId, withId),
+        (row) => [{ table: 'todos', type: 'upsert', row }],
+        (): MeasurementTodo => {
+          const stamp = now();
+          return {
+            id: withId.id,
+            markerIds: withId.markerIds,
+            task: withId.task,
+            done: false,
+            dueDate: null,
+            linkedJournalId: withId.linkedJournalId ?? null,
+            createdAt: stamp,
+            updatedAt: stamp,
+          };
+        },
+      );
+    },
+
+    updateTodo(userId, todoId, patch) {
+      return write(
+        userId,
+        { kind: 'updateTodo', id: todoId, patch },
+        () => inner.updateTodo(userId, todoId, patch),
+        (row) => [{ table: 'todos', type: 'upsert', row }],
+        () => ({ ...cached(snapshot?.todos, todoId, 'Uppgiften'), ...patch, updatedAt: now() }),
+      );
+    },
+
+    deleteTodo(userId, todoId) {
+      return write(
+        userId,
+        { kind: 'deleteTodo', id: todoId },
+        () => inner.deleteTodo(userId, todoId),
+        () => [{ table: 'todos', type: 'delete', id: todoId }],
+        () => undefined,
+      );
+    },
+
+    savePlan(userId, plan) {
+      const withId = { ...plan, id: plan.id ?? newId() };
+      return write(
+        userId,
+        { kind: 'savePlan', plan: withId },
+        () => inner.savePlan(userId, withId),
+        (row) => [{ table: 'plans', type: 'upsert', row }],
+        (): JournalPlan => {
+          const existing = snapshot?.plans?.find((p) => p.id === withId.id);
+          const stamp = now();
+          return {
+            id: withId.id,
+            title: withId.title,
+            content: withId.content,
+            startDate: withId.startDate,
+            targetDate: withId.targetDate,
+            isPinned: existing?.isPinned ?? false,
+            createdAt: existing?.createdAt ?? stamp,
+            updatedAt: stamp,
+            linkedMarkerIds: [...withId.markerIds],
+            goals: withId.goals.map((g) => ({ ...g, id: g.id ?? newId() })),
+          };
+        },
+      );
+    },
+
+    deletePlan(userId, planId) {
+      return write(
+        userId,
+        { kind: 'deletePlan', id: planId },
+        () => inner.deletePlan(userId, planId),
+        () => [{ table: 'plans', type: 'delete', id: planId }],
+        () => undefined,
+      );
+    },
+
+    async saveMarkerSettings(userId, markerId, patch) {
+      await inner.saveMarkerSettings(userId, markerId, patch);
+      if (!snapshot) return;
+      remember([
+        {
+          table: 'markerSettings',
+          type: 'upsert',
+          markerId,
+          isIgnored: patch.isIgnored ?? snapshot.ignoredMarkerIds.includes(markerId),
+          goal: patch.goal !== undefined ? patch.goal : snapshot.markerGoals[markerId] ?? null,
+        },
+      ]);
+    },
+
+    async saveProfile(userId, profile) {
+      await inner.saveProfile(userId, profile);
+      remember([{ table: 'profile', type: 'upsert', row: profile }]);
+    },
+
+    async saveStatsHistory(userId, entry) {
+      const history = await inner.saveStatsHistory(userId, entry);
+      if (snapshot) {
+        snapshot = { ...snapshot, statsHistory: history };
+        persistSoon();
+      }
+      return history;
+    },
+
+    async saveAdvice(input, adviceId) {
+      const advice = await inner.saveAdvice(input, adviceId);
+      remember([{ table: 'advice', type: 'upsert', row: advice }]);
+      return advice;
+    },
+
+    async deleteAdvice(adviceId) {
+      await inner.deleteAdvice(adviceId);
+      remember([{ table: 'advice', type: 'delete', id: adviceId }]);
+    },
+
+    restore: (userId, plan, capabilities) => inner.restore(userId, plan, capabilities),
+  };
+};
@@ -0,0 +1,158 @@
+import {
+  DataChange,
+  MeasurementPatch,
+  MeasurementReplacement,
+  NewMeasurement,
+  NewTodo,
+  PlanInput,
+  TodoPatch,
+  UserData,
+} from './repository';
+
+/**
+ * Persistence for offlineRepository.ts: the last loaded dataset per user and
+ * the outbox of writes made while offline. IndexedDB in the browser, a plain
+ * in-memory store where IndexedDB is missing (private mode, tests).
+ */
+
+// A write to replay; ids are generated on the client so a replay is idempotent
+export type OutboxOp =
+  | { kind: 'addMeasurements'; rows: Array<NewMeasurement & { id: string }> }
+  | { kind: 'updateMeasurement'; id: string; patch: MeasurementPatch }
+  | { kind: 'replaceMeasurements'; rows: MeasurementReplacement[] }
+  | { kind: 'deleteMeasurement'; id: string }
+  | { kind: 'addNote'; id: string; markerId: string; note: string }
+  | { kind: 'updateNote'; id: string; note: string }
+  | { kind: 'deleteNote'; id: string }
+  | { kind: 'addTodo'; todo: NewTodo & { id: string } }
+  | { kind: 'updateTodo'; id: string; patch: TodoPatch }
+  | { kind: 'deleteTodo'; id: string }
+  | { kind: 'savePlan'; plan: PlanInput & { id: string } }
+  | { kind: 'deletePlan'; id: string };
+
+export interface OutboxEntry {
+  seq?: number; // assigned by the store, replay order
+  userId: string;
+  queuedAt: string;
+  op: OutboxOp;
+  changes: DataChange[]; // the optimistic result, re-applied over fresh data until the write is sent
+}
+
+export interface OfflineStore {
+  loadSnapshot(userId: string): Promise<UserData | null>;
+  saveSnapshot(userId: string, data: UserData): Promise<void>;
+  listOutbox(userId: string): Promise<OutboxEntry[]>;
+  // null once the entry is gone, e.g. replayed by another tab
+  getOutbox(seq: number): Promise<OutboxEntry | null>;
+  addOutbox(entry: OutboxEntry): Promise<OutboxEntry>;
+  removeOutbox(seq: number): Promise<void>;
+  // Sign-out: health data should not stay on a shared device
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'minablodprov-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const OUTBOX = 'outbox';
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const createIndexedDbStore = (): OfflineStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS);
+          if (!db.objectStoreNames.contains(OUTBOX)) {
+            db.createObjectStore(OUTBOX, { keyPath: 'seq', autoIncrement: true }).createIndex('userId', 'userId');
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const store = async (name: string, mode: IDBTransactionMode) => (await open()).transaction(name, mode).objectStore(name);
+
+  return {
+    async loadSnapshot(userId) {
+      return (await request((await store(SNAPSHOTS, 'readonly')).get(userId))) ?? null;
+    },
+    async saveSnapshot(userId, data) {
+      await request((await store(SNAPSHOTS, 'readwrite')).put(data, userId));
+    },
+    async listOutbox(userId) {
+      const rows: OutboxEntry[] = await request((await store(OUTBOX, 'readonly')).index('userId').getAll(userId));
+      return rows.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+    },
+    async getOutbox(seq) {
+      return (await request((await store(OUTBOX, 'readonly')).get(seq))) ?? null;
+    },
+    async addOutbox(entry) {
+      const seq = await request((await store(OUTBOX, 'readwrite')).add(entry));
+      return { ...entry, seq: Number(seq) };
+    },
+    async removeOutbox(seq) {
+      await request((await store(OUTBOX, 'readwrite')).delete(seq));
+    },
+    async clear() {
+      const db = await open();
+      const tx = db.transaction([SNAPSHOTS, OUTBOX], 'readwrite');
+      tx.objectStore(SNAPSHOTS).clear();
+      tx.objectStore(OUTBOX).clear();
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    },
+  };
+};
+
+export const createMemoryStore = (): OfflineStore => {
+  const snapshots = new Map<string, UserData>();
+  let outbox: OutboxEntry[] = [];
+  let nextSeq = 1;
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    async loadSnapshot(userId) {
+      const data = snapshots.get(userId);
+      return data ? copy(data) : null;
+    },
+    async saveSnapshot(userId, data) {
+      snapshots.set(userId, copy(data));
+    },
+    async listOutbox(userId) {
+      return copy(outbox.filter((e) => e.userId === userId));
+    },
+    async getOutbox(seq) {
+      const entry = outbox.find((e) => e.seq === seq);
+      return entry ? copy(entry) : null;
+    },
+    async addOutbox(entry) {
+      const saved = { ...copy(entry), seq: nextSeq++ };
+      outbox.push(saved);
+      return copy(saved);
+    },
+    async removeOutbox(seq) {
+      outbox = outbox.filter((e) => e.seq !== seq);
+    },
+    async clear() {
+      snapshots.clear();
+      outbox = [];
+    },
+  };
+};
+
+export const createOfflineStore = (): OfflineStore =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbStore() : createMemoryStore();
@@ -0,0 +1,84 @@
+/**
+ * Client-side text extraction from PDF lab reports (Werlabs, 1177, private clinics).
+ * pdf.js is loaded lazily so the main bundle does not pay for it.
+ */
+
+export interface SourceLine {
+  page?: number; // 1-based, undefined for pasted text
+  line: number; // 1-based within the page (or within the pasted text)
+  text: string;
+}
+
+export interface ExtractedPdf {
+  text: string;
+  lines: SourceLine[];
+  pageCount: number;
+}
+
+// Items whose baselines differ less than this (PDF units) belong to the same line
+const LINE_TOLERANCE = 2;
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+export const extractPdfText = async (file: File): Promise<ExtractedPdf> => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const doc = await pdfjs.getDocument({ data }).promise;
+  const lines: SourceLine[] = [];
+
+  try {
+    for (let pageNo = 1; pageNo <= doc.numPages; pageNo++) {
+      const page = await doc.getPage(pageNo);
+      const content = await page.getTextContent();
+
+      // Group text runs into visual lines by their y coordinate
+      const rows: Array<{ y: number; items: Array<{ x: number; str: string }> }> = [];
+      for (const item of content.items as any[]) {
+        const str = typeof item?.str === 'string' ? item.str : '';
+        if (!str.trim()) continue;
+        const x = Number(item.transform?.[4] ?? 0);
+        const y = Number(item.transform?.[5] ?? 0);
+
+        const row = rows.find((r) => Math.abs(r.y - y) <= LINE_TOLERANCE);
+        if (row) row.items.push({ x, str });
+        else rows.push({ y, items: [{ x, str }] });
+      }
+
+      // PDF y grows upwards: top of page first
+      rows.sort((a, b) => b.y - a.y);
+
+      let lineNo = 0;
+      for (const row of rows) {
+        const text = row.items
+          .sort((a, b) => a.x - b.x)
+          .map((i) => i.str.trim())
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim();
+        if (!text) continue;
+        lines.push({ page: pageNo, line: ++lineNo, text });
+      }
+    }
+  } finally {
+    doc.destroy();
+  }
+
+  return { text: lines.map((l) => l.text).join('\n'), lines, pageCount: doc.numPages };
+};
+
+/**
+ * Source lines for whatever is in the text box. Page numbers are kept as long
+ * as the text is still exactly what was extracted from the PDF.
+ */
+export const getSourceLines = (text: string, pdf: ExtractedPdf | null): SourceLine[] => {
+  if (pdf && pdf.text === text) return pdf.lines;
+  return text.split('\n').map((t, i) => ({ line: i + 1, text: t }));
+};
+
+export const describeSourceLine = (src: SourceLine) =>
+  src.page != null ? `s. ${src.page}, rad ${src.line}` : `rad ${src.line}`;
@@ -0,0 +1,65 @@
+// Service worker: keeps the app shell available offline so the cached data
+// (IndexedDB, see offlineStore.ts) can be shown without a network.
+// Supabase requests are never cached here; offlineRepository.ts owns that data.
+
+const CACHE = 'minablodprov-shell-v1';
+const SHELL = ['/', '/index.html', '/favicon.svg', '/manifest.webmanifest'];
+
+// Versioned or otherwise immutable third-party assets (import map, Tailwind, fonts)
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Pages: always the latest deploy when online, the cached shell otherwise
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = (await caches.match('/')) || (await caches.match('/index.html'));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  // Vite puts hashed bundles under /assets/, so a cached copy never goes stale
+  const isBuildAsset = url.origin === self.location.origin && url.pathname.startsWith('/assets/');
+  const isCdnAsset = CDN_HOSTS.includes(url.hostname);
+  if (isBuildAsset || isCdnAsset) event.respondWith(cacheFirst(request));
+});
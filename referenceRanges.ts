@@ -0,0 +1,114 @@
+import { BloodMarker, Measurement, ReferenceRange, ResolvedRange, Sex, UserProfile } from './types';
+import { parseDate } from './utils';
+
+/**
+ * Reference ranges that depend on sex and age.
+ * A marker keeps its default minRef/maxRef; rows in marker_reference_ranges
+ * override it for the users they apply to.
+ */
+
+export const SEX_OPTIONS: Array<{ id: Sex; label: string }> = [
+  { id: 'female', label: 'Kvinna' },
+  { id: 'male', label: 'Man' },
+];
+
+// Age in whole years at the given date (null if birth date is unknown or invalid)
+export const ageAtDate = (birthDate: string | null | undefined, date: string): number | null => {
+  if (!birthDate) return null;
+  const b = parseDate(birthDate);
+  const d = parseDate(date);
+  if (Number.isNaN(b.getTime()) || Number.isNaN(d.getTime())) return null;
+
+  let age = d.getFullYear() - b.getFullYear();
+  const beforeBirthday = d.getMonth() < b.getMonth() || (d.getMonth() === b.getMonth() && d.getDate() < b.getDate());
+  if (beforeBirthday) age--;
+  return age >= 0 ? age : null;
+};
+
+export const describeRange = (range: Pick<ReferenceRange, 'sex' | 'ageMin' | 'ageMax'>): string => {
+  const parts: string[] = [];
+  if (range.sex === 'male') parts.push('Män');
+  if (range.sex === 'female') parts.push('Kvinnor');
+
+  if (range.ageMin != null && range.ageMax != null) parts.push(`${range.ageMin}–${range.ageMax} år`);
+  else if (range.ageMin != null) parts.push(`från ${range.ageMin} år`);
+  else if (range.ageMax != null) parts.push(`under ${range.ageMax} år`);
+
+  return parts.join(' ');
+};
+
+const appliesTo = (range: ReferenceRange, sex: Sex | null, age: number | null) => {
+  if (range.sex && range.sex !== sex) return false;
+  if (range.ageMin != null || range.ageMax != null) {
+    if (age == null) return false;
+    if (range.ageMin != null && age < range.ageMin) return false;
+    if (range.ageMax != null && age >= range.ageMax) return false;
+  }
+  return true;
+};
+
+// Higher is more specific: sex match beats an age band, both beat neither
+const specificity = (range: ReferenceRange) =>
+  (range.sex ? 2 : 0) + (range.ageMin != null || range.ageMax != null ? 1 : 0);
+
+const bandWidth = (range: ReferenceRange) => (range.ageMax ?? 150) - (range.ageMin ?? 0);
+
+/**
+ * Picks the most specific range for a user at a date, falling back to the
+ * marker's default minRef/maxRef.
+ */
+export const resolveReferenceRange = (
+  marker: Pick<BloodMarker, 'minRef' | 'maxRef'>,
+  ranges: ReferenceRange[],
+  profile: UserProfile | null,
+  date: string,
+): ResolvedRange => {
+  const sex = profile?.sex ?? null;
+  const age = ageAtDate(profile?.birthDate, date);
+
+  const best = ranges
+    .filter((r) => appliesTo(r, sex, age))
+    .sort((a, b) => specificity(b) - specificity(a) || bandWidth(a) - bandWidth(b))[0];
+
+  if (!best) return { minRef: marker.minRef, maxRef: marker.maxRef };
+  return { minRef: best.minRef, maxRef: best.maxRef, label: describeRange(best) };
+};
+
+/**
+ * The interval printed on the lab report wins over everything else.
+ * One-sided intervals (e.g. "< 5") borrow the missing bound from the fallback.
+ */
+export const resolveLabRange = (
+  measurement: Pick<Measurement, 'labMinRef' | 'labMaxRef' | 'labName'>,
+  fallback: ResolvedRange,
+): ResolvedRange | null => {
+  const hasMin = measurement.labMinRef != null && Number.isFinite(measurement.labMinRef);
+  const hasMax = measurement.labMaxRef != null && Number.isFinite(measurement.labMaxRef);
+  if (!hasMin && !hasMax) return null;
+
+  return {
+    minRef: hasMin ? (measurement.labMinRef as number) : fallback.minRef,
+    maxRef: hasMax ? (measurement.labMaxRef as number) : fallback.maxRef,
+    label: measurement.labName ? `Provsvar, ${measurement.labName}` : 'Provsvar',
+    fromLab: true,
+  };
+};
+
+/**
+ * Resolves the range for every measurement, keyed by measurement id.
+ */
+export const resolveMeasurementRanges = (
+  measurements: Measurement[],
+  markersById: Map<string, BloodMarker>,
+  rangesByMarkerId: Map<string, ReferenceRange[]>,
+  profile: UserProfile | null,
+): Record<string, ResolvedRange> => {
+  const out: Record<string, ResolvedRange> = {};
+  for (const m of measurements) {
+    const marker = markersById.get(m.markerId);
+    if (!marker) continue;
+    const resolved = resolveReferenceRange(marker, rangesByMarkerId.get(m.markerId) ?? [], profile, m.date);
+    out[m.id] = resolveLabRange(m, resolved) ?? resolved;
+  }
+  return out;
+};
@@ -0,0 +1,213 @@
+import type { Session } from '@supabase/supabase-js';
+import {
+  Advice,
+  AdviceInput,
+  BloodMarker,
+  CustomMarkerInput,
+  JournalGoal,
+  JournalPlan,
+  MarkerGoal,
+  MarkerNote,
+  Measurement,
+  MeasurementTodo,
+  ReferenceRange,
+  StatsHistoryEntry,
+  UserProfile,
+} from './types';
+import type { RestorePlan } from './dataRestore';
+
+/**
+ * Data access for the app. App.tsx only talks to this interface; the
+ * implementations are supabaseRepository.ts (production) and
+ * localRepository.ts (in memory, optionally persisted to localStorage, for
+ * development and tests). backend.ts picks one from VITE_DATA_BACKEND and
+ * wraps Supabase in offlineRepository.ts (IndexedDB cache + write outbox).
+ *
+ * Every method throws a RepositoryError when the backend refuses the call.
+ */
+
+export class RepositoryError extends Error {
+  code?: string; // Postgres/PostgREST code where there is one, e.g. '42P01' (missing table)
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// savePlan: the plan was saved elsewhere after the edit started (errcode of save_journal_plan, 0014)
+export const PLAN_CONFLICT = 'PT409';
+
+// Everything the dashboard needs for one user, already mapped to app types
+export interface UserData {
+  markers: BloodMarker[]; // catalog + the user's private markers (+ everyone's for admins)
+  measurements: Measurement[]; // newest first
+  notes: MarkerNote[] | null; // null: table or policy missing
+  todos: MeasurementTodo[] | null;
+  plans: JournalPlan[] | null; // most recently updated first
+  ignoredMarkerIds: string[];
+  markerGoals: Record<string, MarkerGoal>;
+  statsHistory: StatsHistoryEntry[];
+  referenceRanges: ReferenceRange[];
+  profile: UserProfile | null;
+  isAdmin: boolean;
+  advice: Advice[] | null; // null: advice table missing
+  missing: string[]; // tables that could not be read, for the warning banner
+}
+
+export interface NewMeasurement {
+  id?: string; // client-generated, so a replayed insert is recognised as a duplicate
+  markerId: string;
+  value: number; // in the marker's unit
+  date: string;
+  note?: string | null;
+  originalValue?: number | null;
+  originalUnit?: string | null;
+  labMinRef?: number | null;
+  labMaxRef?: number | null;
+  labName?: string | null;
+}
+
+// Fields left out are not touched
+export type MeasurementPatch = Partial<Omit<NewMeasurement, 'id' | 'markerId'>>;
+
+// A new reading for an existing row (import overwrite); the row keeps its note
+export type MeasurementReplacement = Omit<NewMeasurement, 'id' | 'note'> & { id: string };
+
+export interface NewTodo {
+  id?: string;
+  task: string;
+  markerIds: string[];
+  linkedJournalId?: string | null;
+}
+
+export type TodoPatch = Partial<Pick<MeasurementTodo, 'task' | 'done' | 'dueDate' | 'markerIds'>>;
+
+export interface PlanInput {
+  id?: string; // undefined creates a new plan
+  title: string;
+  content: string;
+  startDate?: string;
+  targetDate?: string;
+  markerIds: string[];
+  goals: JournalGoal[];
+  // updated_at the edit started from; a newer one fails with PLAN_CONFLICT. Omitted: saved unconditionally
+  expectedUpdatedAt?: string;
+}
+
+// user_marker_settings; fields left out are not touched, goal null clears the target
+export interface MarkerSettingsPatch {
+  isIgnored?: boolean;
+  goal?: MarkerGoal | null;
+}
+
+export type StatsHistoryInput = Omit<StatsHistoryEntry, 'id'>;
+
+// journal_entries alone; links and goals are left as they are when missing
+export type PlanRow = Omit<JournalPlan, 'linkedMarkerIds' | 'goals'> & Partial<Pick<JournalPlan, 'linkedMarkerIds' | 'goals'>>;
+
+/**
+ * One row changed, already mapped to app types. subscribe() delivers these for
+ * changes made anywhere (this tab included), and App applies the rows returned
+ * by writes the same way, so applying a change twice must be harmless.
+ * 'reload' means changes may have been missed (e.g. after a reconnect).
+ */
+export type DataChange =
+  | { table: 'measurements'; type: 'upsert'; row: Measurement }
+  | { table: 'notes'; type: 'upsert'; row: MarkerNote }
+  | { table: 'todos'; type: 'upsert'; row: MeasurementTodo }
+  | { table: 'plans'; type: 'upsert'; row: PlanRow }
+  | { table: 'planMarkers'; type: 'upsert' | 'delete'; journalId: string; markerId: string }
+  | { table: 'planGoals'; type: 'upsert'; journalId: string; row: JournalGoal & { id: string } }
+  | { table: 'markerSettings'; type: 'upsert'; markerId: string; isIgnored: boolean; goal: MarkerGoal | null }
+  | { table: 'markerSettings'; type: 'delete'; markerId: string }
+  | { table: 'statsHistory'; type: 'upsert'; row: StatsHistoryEntry }
+  | { table: 'profile'; type: 'upsert'; row: UserProfile }
+  | { table: 'markers'; type: 'upsert'; row: BloodMarker }
+  | { table: 'advice'; type: 'upsert'; row: Advice }
+  | { table: 'measurements' | 'notes' | 'todos' | 'plans' | 'planGoals' | 'markers' | 'advice'; type: 'delete'; id: string }
+  | { table: '*'; type: 'reload' };
+
+// A queued offline write the server refused on replay; it is dropped from the outbox
+export interface SyncConflict {
+  label: string; // what the write was, e.g. "Mätning"
+  reason: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number; // writes waiting in the outbox
+  conflicts: SyncConflict[]; // from the last replay
+}
+
+// Which optional tables the restore may write to (from UserData: null means missing)
+export interface RestoreCapabilities {
+  markerNotes: boolean;
+  todos: boolean;
+  journal: boolean;
+}
+
+export interface Repository {
+  getSession(): Promise<Session | null>;
+  onAuthStateChange(callback: (session: Session | null) => void): () => void;
+  // A successful sign-in arrives through onAuthStateChange
+  signInWithPassword(email: string, password: string): Promise<void>;
+  signInWithMagicLink(email: string, redirectTo?: string): Promise<void>;
+  // needsConfirmation: the account exists but the e-mail has to be confirmed before signing in
+  signUp(email: string, password: string): Promise<{ needsConfirmation: boolean }>;
+  updatePassword(password: string): Promise<void>;
+  signOut(): Promise<void>;
+  // Bearer token for the API routes (/api/ai-import); null when signed out
+  getAccessToken(): Promise<string | null>;
+
+  loadUserData(userId: string): Promise<UserData>;
+  // Migration files (schemaVersion.ts) the database has not recorded; [] when it is up to date
+  missingMigrations(): Promise<string[]>;
+  // Calls onChange for every change to the user's rows; returns unsubscribe
+  subscribe(userId: string, onChange: (change: DataChange) => void): () => void;
+
+  // Writes return the saved rows so callers can update their state without a reload
+  createMarker(userId: string, input: CustomMarkerInput): Promise<BloodMarker>;
+  deleteMarker(userId: string, markerId: string): Promise<void>;
+  promoteMarker(markerId: string): Promise<void>;
+
+  addMeasurements(userId: string, rows: NewMeasurement[]): Promise<Measurement[]>;
+  updateMeasurement(userId: string, measurementId: string, patch: MeasurementPatch): Promise<Measurement>;
+  // All rows or none
+  replaceMeasurements(userId: string, rows: MeasurementReplacement[]): Promise<Measurement[]>;
+  deleteMeasurement(userId: string, measurementId: string): Promise<void>;
+
+  addNote(userId: string, markerId: string, note: string, noteId?: string): Promise<MarkerNote>;
+  updateNote(userId: string, noteId: string, note: string): Promise<MarkerNote>;
+  deleteNote(userId: string, noteId: string): Promise<void>;
+
+  addTodo(userId: string, todo: NewTodo): Promise<MeasurementTodo>;
+  updateTodo(userId: string, todoId: string, patch: TodoPatch): Promise<MeasurementTodo>;
+  deleteTodo(userId: string, todoId: string): Promise<void>;
+
+  // Plan, linked markers and goals in one transaction
+  savePlan(userId: string, plan: PlanInput): Promise<JournalPlan>;
+  deletePlan(userId: string, planId: string): Promise<void>;
+
+  saveMarkerSettings(userId: string, markerId: string, patch: MarkerSettingsPatch): Promise<void>;
+  saveProfile(userId: string, profile: UserProfile): Promise<void>;
+  // Upserts the month's row and returns the whole history
+  saveStatsHistory(userId: string, entry: StatsHistoryInput): Promise<StatsHistoryEntry[]>;
+
+  saveAdvice(input: AdviceInput, adviceId?: string): Promise<Advice>;
+  deleteAdvice(adviceId: string): Promise<void>;
+
+  // Writes a planned restore (dataRestore.ts); rows that already exist are left alone
+  restore(userId: string, plan: RestorePlan, capabilities: RestoreCapabilities): Promise<void>;
+
+  // Only backends with a local cache have these
+  loadCachedUserData?(userId: string): Promise<UserData | null>;
+  onSyncStatusChange?(callback: (status: SyncStatus) => void): () => void;
+}
+
+// Same defaults as catalog markers without a display range
+export const displayRangeFor = (input: CustomMarkerInput) => ({
+  displayMin: input.displayMin ?? (input.minRef > 0 ? input.minRef * 0.5 : 0),
+  displayMax: input.displayMax ?? input.maxRef * 1.5,
+});
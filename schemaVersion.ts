@@ -0,0 +1,33 @@
+/**
+ * Database migrations the app expects (supabase/migrations, run in order).
+ * Each one ends by recording its version in public.schema_version
+ * (0000_base_schema.sql); the app lists the files that are not recorded.
+ * Add the file here when adding a migration.
+ */
+
+export const SCHEMA_MIGRATIONS = [
+  '0000_base_schema.sql',
+  '0001_indexes.sql',
+  '0002_measurement_units.sql',
+  '0003_reference_ranges.sql',
+  '0004_measurement_lab_ranges.sql',
+  '0005_ai_import_requests.sql',
+  '0006_marker_codes.sql',
+  '0007_custom_markers.sql',
+  '0008_derived_markers.sql',
+  '0009_personal_targets.sql',
+  '0010_marker_severity.sql',
+  '0011_focus_area_scores.sql',
+  '0012_advice_library.sql',
+  '0013_realtime_sync.sql',
+  '0014_save_journal_plan.sql',
+  '0015_marker_catalog_codes.sql',
+];
+
+export const migrationVersion = (file: string) => file.split('_')[0];
+
+// Files whose version is not among the recorded ones, in the order to run them
+export const findMissingMigrations = (appliedVersions: string[]) => {
+  const applied = new Set(appliedVersions);
+  return SCHEMA_MIGRATIONS.filter((file) => !applied.has(migrationVersion(file)));
+};
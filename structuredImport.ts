@@ -0,0 +1,341 @@
+import { BloodMarker } from './types';
+import { LabFlag } from './labParser';
+import { LOINC_SYSTEM, NPU_SYSTEM, findMarkerByLoinc, findMarkerByNpu } from './loinc';
+import { MARKER_SYSTEM, UCUM_SYSTEM, fromUcum } from './fhir';
+import { getUnitOptions, isSameUnit } from './units';
+
+/**
+ * Import of coded lab results: FHIR R4 JSON (Observation, DiagnosticReport or
+ * a Bundle of them) and HL7 v2 ORU^R01 messages. Codes are mapped to markers
+ * by LOINC or NPU code (see loinc.ts), our own marker coding from the FHIR
+ * export, and finally the display name or one of the marker's synonyms. Nothing here goes to the AI proxy.
+ */
+
+export type StructuredFormat = 'fhir' | 'hl7';
+
+export interface StructuredReading {
+  markerId: string;
+  value: number;
+  unit: string; // one of getUnitOptions(marker)
+  refMin: number | null;
+  refMax: number | null;
+  flag: LabFlag | null;
+  source: string; // e.g. "rad 4: 718-7 Hemoglobin 145 g/L"
+}
+
+export interface StructuredImport {
+  format: StructuredFormat;
+  lab: string | null;
+  groups: Array<{ date: string | null; results: StructuredReading[] }>;
+  unmapped: string[]; // observations we could not map to a marker or unit
+}
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export const detectStructuredFormat = (text: string): StructuredFormat | null => {
+  const t = text.replace(/^\uFEFF/, '').trimStart();
+  if (t.startsWith('MSH')) return 'hl7';
+  if (t.startsWith('{') && /"resourceType"\s*:/.test(t)) return 'fhir';
+  return null;
+};
+
+const norm = (s: string) =>
+  (s ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^(?:f?[bpsu]|pt)\s*-\s*/, '')
+    .trim();
+
+const isLoinc = (system?: string) => system === LOINC_SYSTEM || system === 'LN';
+const isNpu = (system?: string, code?: string) => system === NPU_SYSTEM || system === 'NPU' || /^NPU\d+$/i.test(code ?? '');
+
+const findMarker = (codings: Coding[], markers: BloodMarker[]): BloodMarker | undefined => {
+  for (const c of codings) {
+    if (c.system === MARKER_SYSTEM && c.code) {
+      const found = markers.find((m) => m.id === c.code);
+      if (found) return found;
+    }
+  }
+  for (const c of codings) {
+    if (isLoinc(c.system) && c.code) {
+      const found = findMarkerByLoinc(c.code, markers);
+      if (found) return found;
+    }
+    if (isNpu(c.system, c.code) && c.code) {
+      const found = findMarkerByNpu(c.code, markers);
+      if (found) return found;
+    }
+  }
+  // Local lab codes: fall back to the printed name
+  for (const c of codings) {
+    const key = norm(c.display ?? '');
+    if (!key) continue;
+    const found =
+      markers.find((m) => norm(m.name) === key) ??
+      markers.find((m) => norm(m.shortName) === key) ??
+      markers.find((m) => (m.synonyms ?? []).some((s) => norm(s) === key));
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// The reported unit if we can store it (directly or by conversion); null when it is unknown for the marker
+const resolveUnit = (marker: BloodMarker, unit: string | undefined): string | null => {
+  if (!unit?.trim()) return marker.unit;
+  const candidates = [unit, fromUcum(unit)].map((u) => u.replace(/^[x×*]\s*/, ''));
+  const options = getUnitOptions(marker);
+  for (const c of candidates) {
+    const found = options.find((o) => isSameUnit(o.replace(/^[x×*]\s*/, ''), c));
+    if (found) return found;
+  }
+  return null;
+};
+
+const describeCodings = (codings: Coding[]) =>
+  codings.map((c) => [c.code, c.display].filter(Boolean).join(' ')).find(Boolean) ?? 'okänd kod';
+
+const groupReadings = (format: StructuredFormat, lab: string | null, dated: Array<{ date: string | null; reading: StructuredReading }>, unmapped: string[]): StructuredImport => {
+  const groups: StructuredImport['groups'] = [];
+  for (const { date, reading } of dated) {
+    let group = groups.find((g) => g.date === date);
+    if (!group) {
+      group = { date, results: [] };
+      groups.push(group);
+    }
+    // A report can repeat a value (panel + single test); the first one wins
+    if (!group.results.some((r) => r.markerId === reading.markerId)) group.results.push(reading);
+  }
+  return { format, lab, groups, unmapped };
+};
+
+// --- FHIR R4
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const num = (v: unknown): number | null => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+const fhirDate = (v: unknown): string | null => (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}/.test(v) ? v.slice(0, 10) : null);
+
+const fhirFlag = (obs: Record<string, any>): LabFlag | null => {
+  const codes = (Array.isArray(obs.interpretation) ? obs.interpretation : [])
+    .flatMap((i: any) => (Array.isArray(i?.coding) ? i.coding : []))
+    .map((c: any) => String(c?.code ?? '').toUpperCase());
+  if (codes.some((c: string) => ['H', 'HH', 'HU', '>'].includes(c))) return 'H';
+  if (codes.some((c: string) => ['L', 'LL', 'LU', '<'].includes(c))) return 'L';
+  return null;
+};
+
+export const parseFhirImport = (raw: unknown, markers: BloodMarker[]): StructuredImport => {
+  if (!isRecord(raw) || typeof raw.resourceType !== 'string') throw new Error('Not a FHIR resource');
+
+  const resources: Array<Record<string, any>> = [];
+  const collect = (r: unknown) => {
+    if (!isRecord(r)) return;
+    if (r.resourceType === 'Bundle') {
+      for (const e of Array.isArray(r.entry) ? r.entry : []) collect(e?.resource);
+    } else {
+      resources.push(r);
+      for (const c of Array.isArray(r.contained) ? r.contained : []) collect(c);
+    }
+  };
+  collect(raw);
+
+  const reports = resources.filter((r) => r.resourceType === 'DiagnosticReport');
+  const observations = resources.filter((r) => r.resourceType === 'Observation');
+  const lab =
+    [...reports, ...observations]
+      .flatMap((r) => (Array.isArray(r.performer) ? r.performer : []))
+      .map((p: any) => (typeof p?.display === 'string' ? p.display.trim() : ''))
+      .find(Boolean) ?? null;
+  const reportDate = reports.map((r) => fhirDate(r.effectiveDateTime) ?? fhirDate(r.effectivePeriod?.start)).find(Boolean) ?? null;
+
+  const dated: Array<{ date: string | null; reading: StructuredReading }> = [];
+  const unmapped: string[] = [];
+
+  for (const obs of observations) {
+    if (obs.status === 'entered-in-error' || obs.status === 'cancelled') continue;
+    const codings: Coding[] = Array.isArray(obs.code?.coding) ? obs.code.coding : [];
+    if (obs.code?.text) codings.push({ display: obs.code.text });
+    const label = describeCodings(codings);
+
+    const q = obs.valueQuantity;
+    const value = num(q?.value);
+    if (value === null) {
+      // Panels (hasMember) carry no value of their own
+      if (!Array.isArray(obs.hasMember)) unmapped.push(`${label}: inget numeriskt värde`);
+      continue;
+    }
+    if (q.comparator) {
+      unmapped.push(`${label}: ${q.comparator}${value}`);
+      continue;
+    }
+
+    const marker = findMarker(codings, markers);
+    if (!marker) {
+      unmapped.push(label);
+      continue;
+    }
+    const reportedUnit = q.system === UCUM_SYSTEM && q.code ? q.code : q.unit ?? q.code;
+    const unit = resolveUnit(marker, reportedUnit);
+    if (!unit) {
+      unmapped.push(`${label}: okänd enhet ${reportedUnit}`);
+      continue;
+    }
+
+    const range = Array.isArray(obs.referenceRange) ? obs.referenceRange[0] : undefined;
+    dated.push({
+      date: fhirDate(obs.effectiveDateTime) ?? fhirDate(obs.effectivePeriod?.start) ?? reportDate ?? fhirDate(obs.issued),
+      reading: {
+        markerId: marker.id,
+        value,
+        unit,
+        refMin: num(range?.low?.value),
+        refMax: num(range?.high?.value),
+        flag: fhirFlag(obs),
+        source: `FHIR ${label} ${value} ${reportedUnit ?? ''}`.trim(),
+      },
+    });
+  }
+
+  return groupReadings('fhir', lab, dated, unmapped);
+};
+
+// --- HL7 v2 ORU^R01
+
+const hl7Date = (v: string): string | null => {
+  const m = /^(\d{4})(\d{2})(\d{2})/.exec(v ?? '');
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+};
+
+const hl7Number = (v: string): number | null => {
+  const n = Number((v ?? '').trim().replace(',', '.'));
+  return (v ?? '').trim() && Number.isFinite(n) ? n : null;
+};
+
+// "3.5-5.0", "<5", ">1.0"
+const hl7Range = (v: string): { min: number | null; max: number | null } => {
+  const s = (v ?? '').trim();
+  const upper = /^<=?\s*(-?[\d.,]+)$/.exec(s);
+  if (upper) return { min: null, max: hl7Number(upper[1]) };
+  const lower = /^>=?\s*(-?[\d.,]+)$/.exec(s);
+  if (lower) return { min: hl7Number(lower[1]), max: null };
+  const both = /^(-?[\d.,]+)\s*-\s*(-?[\d.,]+)$/.exec(s);
+  if (both) return { min: hl7Number(both[1]), max: hl7Number(both[2]) };
+  return { min: null, max: null };
+};
+
+export const parseHl7Oru = (text: string, markers: BloodMarker[]): StructuredImport => {
+  const segments = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).map((s) => s.trim()).filter(Boolean);
+  const msh = segments[0];
+  if (!msh?.startsWith('MSH') || msh.length < 8) throw new Error('Not an HL7 v2 message');
+
+  // MSH-1 is the field separator itself, MSH-2 the encoding characters
+  const fieldSep = msh[3];
+  const [compSep = '^', repSep = '~', escChar = '\\', subSep = '&'] = msh.slice(4, 8).split('');
+  const unescape = (s: string) =>
+    s
+      .split(`${escChar}F${escChar}`).join(fieldSep)
+      .split(`${escChar}S${escChar}`).join(compSep)
+      .split(`${escChar}T${escChar}`).join(subSep)
+      .split(`${escChar}R${escChar}`).join(repSep)
+      .split(`${escChar}E${escChar}`).join(escChar);
+  const components = (field: string | undefined) => (field ?? '').split(repSep)[0].split(compSep).map(unescape);
+
+  const mshFields = msh.split(fieldSep);
+  const messageType = components(mshFields[8]);
+  if (messageType[0] && messageType[0] !== 'ORU') throw new Error(`Unsupported HL7 message type ${messageType.join('^')}`);
+  const lab = components(mshFields[3])[0] || null;
+
+  const dated: Array<{ date: string | null; reading: StructuredReading }> = [];
+  const unmapped: string[] = [];
+  let obrDate: string | null = null;
+
+  segments.forEach((segment, idx) => {
+    const f = segment.split(fieldSep);
+    if (f[0] === 'OBR') {
+      obrDate = hl7Date(f[7] ?? '') ?? hl7Date(f[6] ?? '');
+      return;
+    }
+    if (f[0] !== 'OBX') return;
+
+    // OBX-3: code^text^system^altCode^altText^altSystem
+    const id = components(f[3]);
+    const codings: Coding[] = [
+      { code: id[0], display: id[1], system: id[2] },
+      { code: id[3], display: id[4], system: id[5] },
+    ].filter((c) => c.code || c.display);
+    const label = describeCodings(codings);
+
+    // OBX-11: D = deleted, X = could not be obtained, W = wrong result
+    if (['D', 'X', 'W'].includes((f[11] ?? '').trim())) return;
+
+    // Text results (ST, TX, FT, CE...) are comments or interpretations, not values
+    const valueType = (f[2] ?? '').trim();
+    if (valueType && valueType !== 'NM' && valueType !== 'SN') return;
+
+    let value: number | null;
+    if (valueType === 'SN') {
+      // Structured numeric: comparator^number; "<^5" is not a measured value
+      const [comparator, n] = components(f[5]);
+      value = !comparator || comparator === '=' ? hl7Number(n) : null;
+    } else {
+      value = hl7Number(components(f[5])[0]);
+    }
+    if (value === null) {
+      unmapped.push(`${label}: ${components(f[5]).join('') || 'inget numeriskt värde'}`);
+      return;
+    }
+
+    const marker = findMarker(codings, markers);
+    if (!marker) {
+      unmapped.push(label);
+      return;
+    }
+    const units = components(f[6]);
+    const reportedUnit = units[0] || units[1];
+    const unit = resolveUnit(marker, reportedUnit);
+    if (!unit) {
+      unmapped.push(`${label}: okänd enhet ${reportedUnit}`);
+      return;
+    }
+
+    const range = hl7Range(unescape(f[7] ?? ''));
+    const flags = (f[8] ?? '').toUpperCase();
+    dated.push({
+      date: hl7Date(f[14] ?? '') ?? obrDate,
+      reading: {
+        markerId: marker.id,
+        value,
+        unit,
+        refMin: range.min,
+        refMax: range.max,
+        flag: /^(H|HH|>)/.test(flags) ? 'H' : /^(L|LL|<)/.test(flags) ? 'L' : null,
+        source: `rad ${idx + 1}: ${label} ${value} ${reportedUnit ?? ''}`.trim(),
+      },
+    });
+  });
+
+  return groupReadings('hl7', lab, dated, unmapped);
+};
+
+/**
+ * Parses FHIR JSON or an HL7 v2 message. Returns null when the text is
+ * neither, so the caller can fall back to the text parsers.
+ */
+export const parseStructuredImport = (text: string, markers: BloodMarker[]): StructuredImport | null => {
+  const format = detectStructuredFormat(text);
+  if (format === 'hl7') return parseHl7Oru(text, markers);
+  if (format === 'fhir') {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch {
+      return null;
+    }
+    return parseFhirImport(raw, markers);
+  }
+  return null;
+};
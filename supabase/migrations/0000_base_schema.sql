@@ -0,0 +1,248 @@
+-- Base schema: the tables the app has always used, with keys, constraints and
+-- RLS, plus the Swedish marker catalog. Later migrations add columns and seed
+-- data on top (codes, reference ranges, limits and advice are matched on the
+-- marker names seeded here), so on a new database run this first and then the
+-- rest in order.
+-- schema_version: every migration records itself at the end; the app compares
+-- it with the list in schemaVersion.ts and names the files that are missing.
+-- On an existing database the tables are left as they are (create if not
+-- exists) and the catalog is only seeded into an empty blood_markers table.
+-- Safe to run multiple times
+
+create table if not exists public.schema_version (
+  version text primary key,
+  name text not null,
+  applied_at timestamptz not null default now()
+);
+
+alter table public.schema_version enable row level security;
+
+drop policy if exists "schema_version_select_all" on public.schema_version;
+create policy "schema_version_select_all"
+on public.schema_version for select
+using (true);
+
+-- Marker catalog (shared rows); private markers and formulas come with 0007/0008
+create table if not exists public.blood_markers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  short_name text,
+  unit text not null,
+  min_ref numeric,
+  max_ref numeric,
+  display_min numeric,
+  display_max numeric,
+  category text,
+  description text,
+  recommendation_low text,
+  recommendation_high text,
+  risk_low text,
+  risk_high text,
+  constraint blood_markers_ref_range check (min_ref is null or max_ref is null or min_ref <= max_ref)
+);
+
+create table if not exists public.measurements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- restrict: the app asks for a marker's measurements to be removed before the marker
+  marker_id uuid not null references public.blood_markers (id) on delete restrict,
+  value numeric not null,
+  measured_at date not null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.marker_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  marker_id uuid not null references public.blood_markers (id) on delete cascade,
+  note text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.journal_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  is_pinned boolean not null default false,
+  start_date date,
+  target_date date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint journal_entries_dates check (start_date is null or target_date is null or start_date <= target_date)
+);
+
+create table if not exists public.journal_entry_markers (
+  journal_id uuid not null references public.journal_entries (id) on delete cascade,
+  marker_id uuid not null references public.blood_markers (id) on delete cascade,
+  primary key (journal_id, marker_id)
+);
+
+create table if not exists public.journal_goals (
+  id uuid primary key default gen_random_uuid(),
+  journal_id uuid not null references public.journal_entries (id) on delete cascade,
+  marker_id uuid not null references public.blood_markers (id) on delete cascade,
+  direction text not null check (direction in ('higher', 'lower', 'range')),
+  target_value numeric not null,
+  target_value_upper numeric,
+  constraint journal_goals_range check (
+    direction <> 'range' or (target_value_upper is not null and target_value <= target_value_upper)
+  )
+);
+
+-- measurement_id is the old single-measurement link; newer todos use marker_ids
+create table if not exists public.measurement_todos (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  measurement_id uuid references public.measurements (id) on delete set null,
+  marker_ids uuid[] not null default '{}',
+  task text not null default '',
+  is_done boolean not null default false,
+  due_date date,
+  linked_journal_id uuid references public.journal_entries (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.user_marker_settings (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  marker_id uuid not null references public.blood_markers (id) on delete cascade,
+  is_ignored boolean not null default false,
+  primary key (user_id, marker_id)
+);
+
+-- One health score per user and month (log_date is the first of the month)
+create table if not exists public.user_stats_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  log_date date not null,
+  score numeric not null check (score between 0 and 100),
+  total_markers integer not null default 0 check (total_markers >= 0),
+  created_at timestamptz not null default now(),
+  constraint user_stats_history_user_month unique (user_id, log_date)
+);
+
+-- RLS: the catalog is readable by everyone (0007 narrows it once private
+-- markers exist, so the open policy is only created while there is none)
+alter table public.blood_markers enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'blood_markers' and cmd in ('SELECT', 'ALL')
+  ) then
+    create policy "blood_markers_select_all" on public.blood_markers for select using (true);
+  end if;
+end $$;
+
+-- Tables with a user_id column: each user reads and writes only their own rows
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'measurements', 'marker_notes', 'journal_entries', 'measurement_todos',
+    'user_marker_settings', 'user_stats_history'
+  ] loop
+    execute format('alter table public.%I enable row level security', t);
+
+    execute format('drop policy if exists %I on public.%I', t || '_select_own', t);
+    execute format('create policy %I on public.%I for select using (auth.uid() = user_id)', t || '_select_own', t);
+
+    execute format('drop policy if exists %I on public.%I', t || '_insert_own', t);
+    execute format('create policy %I on public.%I for insert with check (auth.uid() = user_id)', t || '_insert_own', t);
+
+    execute format('drop policy if exists %I on public.%I', t || '_update_own', t);
+    execute format(
+      'create policy %I on public.%I for update using (auth.uid() = user_id) with check (auth.uid() = user_id)',
+      t || '_update_own', t
+    );
+
+    execute format('drop policy if exists %I on public.%I', t || '_delete_own', t);
+    execute format('create policy %I on public.%I for delete using (auth.uid() = user_id)', t || '_delete_own', t);
+  end loop;
+end $$;
+
+-- Plan links and goals belong to whoever owns the plan
+alter table public.journal_entry_markers enable row level security;
+
+drop policy if exists "journal_entry_markers_own_plan" on public.journal_entry_markers;
+create policy "journal_entry_markers_own_plan"
+on public.journal_entry_markers for all
+using (exists (select 1 from public.journal_entries j where j.id = journal_id and j.user_id = auth.uid()))
+with check (exists (select 1 from public.journal_entries j where j.id = journal_id and j.user_id = auth.uid()));
+
+alter table public.journal_goals enable row level security;
+
+drop policy if exists "journal_goals_own_plan" on public.journal_goals;
+create policy "journal_goals_own_plan"
+on public.journal_goals for all
+using (exists (select 1 from public.journal_entries j where j.id = journal_id and j.user_id = auth.uid()))
+with check (exists (select 1 from public.journal_entries j where j.id = journal_id and j.user_id = auth.uid()));
+
+-- Seed: Swedish catalog with adult reference intervals as most Swedish labs
+-- print them. Sex- and age-specific intervals are added by 0003, codes and
+-- synonyms by 0006, alert limits by 0010.
+insert into public.blood_markers (name, short_name, unit, min_ref, max_ref, category, description)
+select v.name, v.short_name, v.unit, v.min_ref, v.max_ref, v.category, v.description
+from (values
+  ('Hemoglobin',         'Hb',     'g/L',      117::numeric, 170::numeric, 'Blodstatus',   'Syrebärande protein i de röda blodkropparna.'),
+  ('Leukocyter',         'LPK',    '10^9/L',   3.5,   8.8,   'Blodstatus',   'Vita blodkroppar, en del av immunförsvaret.'),
+  ('Erytrocyter',        'EPK',    '10^12/L',  3.9,   5.7,   'Blodstatus',   'Antalet röda blodkroppar.'),
+  ('Trombocyter',        'TPK',    '10^9/L',   145,   387,   'Blodstatus',   'Blodplättar, behövs för att blodet ska levra sig.'),
+  ('EVF',                'EVF',    '%',        35,    50,    'Blodstatus',   'Andelen av blodets volym som består av röda blodkroppar.'),
+  ('MCV',                'MCV',    'fL',       82,    98,    'Blodstatus',   'De röda blodkropparnas medelvolym.'),
+  ('MCH',                'MCH',    'pg',       27,    33,    'Blodstatus',   'Mängden hemoglobin per röd blodkropp.'),
+  ('MCHC',               'MCHC',   'g/L',      317,   357,   'Blodstatus',   'Hemoglobinkoncentrationen i de röda blodkropparna.'),
+  ('Ferritin',           'Ferr',   'µg/L',     30,    300,   'Järn',         'Speglar kroppens järndepåer.'),
+  ('Järn',               'Fe',     'µmol/L',   9,     34,    'Järn',         'Järn i blodet. Varierar mycket över dygnet.'),
+  ('Transferrin',        'Transf', 'g/L',      1.9,   3.3,   'Järn',         'Protein som transporterar järn. Stiger vid järnbrist.'),
+  ('Transferrinmättnad', 'TSAT',   '%',        15,    50,    'Järn',         'Hur stor del av transferrinet som bär järn.'),
+  ('Glukos',             'Glu',    'mmol/L',   4.0,   6.0,   'Metabolism',   'Blodsocker, fastevärde.'),
+  ('HbA1c',              'A1c',    'mmol/mol', 27,    42,    'Metabolism',   'Långtidsblodsocker, speglar de senaste 2–3 månaderna.'),
+  ('Insulin',            'Ins',    'mIU/L',    2,     25,    'Metabolism',   'Fasteinsulin. Högt värde talar för insulinresistens.'),
+  ('Kolesterol',         'TC',     'mmol/L',   0,     5.0,   'Lipider',      'Totalkolesterol.'),
+  ('LDL',                'LDL',    'mmol/L',   0,     3.0,   'Lipider',      'Kolesterol i LDL-partiklar.'),
+  ('HDL',                'HDL',    'mmol/L',   1.0,   2.7,   'Lipider',      'Kolesterol i HDL-partiklar.'),
+  ('Triglycerider',      'TG',     'mmol/L',   0.45,  2.6,   'Lipider',      'Blodfetter från maten och levern, fastevärde.'),
+  ('ApoB',               'ApoB',   'g/L',      0.5,   1.2,   'Lipider',      'Ett ApoB per LDL-, VLDL- och IDL-partikel: antalet aterogena partiklar.'),
+  ('ApoA1',              'ApoA1',  'g/L',      1.1,   2.0,   'Lipider',      'Huvudproteinet i HDL-partiklarna.'),
+  ('CRP',                'CRP',    'mg/L',     0,     5,     'Inflammation', 'Stiger vid inflammation och infektion.'),
+  ('hs-CRP',             'hsCRP',  'mg/L',     0,     1,     'Inflammation', 'Högkänslig CRP för låggradig inflammation.'),
+  ('ALAT',               'ALAT',   'µkat/L',   0.1,   1.1,   'Lever',        'Leverenzym som stiger vid påverkan på levercellerna.'),
+  ('ASAT',               'ASAT',   'µkat/L',   0.25,  0.75,  'Lever',        'Enzym i lever och muskler.'),
+  ('GT',                 'GT',     'µkat/L',   0.15,  1.9,   'Lever',        'Leverenzym som bland annat stiger av alkohol.'),
+  ('ALP',                'ALP',    'µkat/L',   0.6,   1.8,   'Lever',        'Enzym från lever och skelett.'),
+  ('Bilirubin',          'Bil',    'µmol/L',   5,     25,    'Lever',        'Nedbrytningsprodukt av hemoglobin som utsöndras via levern.'),
+  ('Albumin',            'Alb',    'g/L',      36,    48,    'Lever',        'Det vanligaste proteinet i blodet, bildas i levern.'),
+  ('Kreatinin',          'Krea',   'µmol/L',   45,    105,   'Njurar',       'Restprodukt från musklerna, speglar njurfunktionen.'),
+  ('Cystatin C',         'CysC',   'mg/L',     0.7,   1.2,   'Njurar',       'Mått på njurfunktionen som inte beror på muskelmassa.'),
+  ('Urat',               'Urat',   'µmol/L',   155,   480,   'Njurar',       'Urinsyra. Högt värde ökar risken för gikt.'),
+  ('Natrium',            'Na',     'mmol/L',   137,   145,   'Elektrolyter', 'Styr kroppens vätskebalans.'),
+  ('Kalium',             'K',      'mmol/L',   3.5,   4.4,   'Elektrolyter', 'Viktigt för hjärtats och musklernas funktion.'),
+  ('Kalcium',            'Ca',     'mmol/L',   2.15,  2.50,  'Elektrolyter', 'Totalt kalcium, viktigt för skelett, nerver och muskler.'),
+  ('Magnesium',          'Mg',     'mmol/L',   0.7,   0.95,  'Elektrolyter', 'Mineral för muskler, nerver och energiomsättning.'),
+  ('Fosfat',             'P',      'mmol/L',   0.8,   1.5,   'Elektrolyter', 'Mineral för skelett och energiomsättning.'),
+  ('TSH',                'TSH',    'mIE/L',    0.4,   4.0,   'Sköldkörtel',  'Styrhormon för sköldkörteln.'),
+  ('Fritt T4',           'fT4',    'pmol/L',   12,    22,    'Sköldkörtel',  'Fritt tyroxin, sköldkörtelns huvudhormon.'),
+  ('Fritt T3',           'fT3',    'pmol/L',   3.1,   6.8,   'Sköldkörtel',  'Fritt trijodtyronin, det aktiva sköldkörtelhormonet.'),
+  ('Testosteron',        'Testo',  'nmol/L',   8.6,   29,    'Hormoner',     'Totalt testosteron, morgonvärde.'),
+  ('SHBG',               'SHBG',   'nmol/L',   18,    54,    'Hormoner',     'Binder könshormoner i blodet.'),
+  ('Östradiol',          'E2',     'pmol/L',   40,    160,   'Hormoner',     'Det viktigaste östrogenet. Hos kvinnor varierar det över cykeln.'),
+  ('Prolaktin',          'PRL',    'µg/L',     4,     20,    'Hormoner',     'Hormon från hypofysen.'),
+  ('Kortisol',           'Kort',   'nmol/L',   140,   690,   'Hormoner',     'Stresshormon, morgonvärde.'),
+  ('DHEA-S',             'DHEAS',  'µmol/L',   2,     10,    'Hormoner',     'Förstadium till könshormoner från binjurarna.'),
+  ('LH',                 'LH',     'IE/L',     1.7,   8.6,   'Hormoner',     'Hypofyshormon som styr könskörtlarna.'),
+  ('FSH',                'FSH',    'IE/L',     1.5,   12.4,  'Hormoner',     'Hypofyshormon som styr könskörtlarna.'),
+  ('PSA',                'PSA',    'µg/L',     0,     3,     'Hormoner',     'Prostataspecifikt antigen.'),
+  ('Vitamin D',          'D-vit',  'nmol/L',   50,    250,   'Vitaminer',    '25-OH vitamin D.'),
+  ('Vitamin B12',        'B12',    'pmol/L',   150,   650,   'Vitaminer',    'Behövs för blodbildning och nervsystemet.'),
+  ('Folat',              'Fol',    'nmol/L',   7,     45,    'Vitaminer',    'B-vitamin som behövs för blodbildning och celldelning.'),
+  ('Homocystein',        'Hcy',    'µmol/L',   5,     15,    'Vitaminer',    'Stiger vid brist på B12, folat eller B6.')
+) as v (name, short_name, unit, min_ref, max_ref, category, description)
+where not exists (select 1 from public.blood_markers);
+
+insert into public.schema_version (version, name) values ('0000', 'base_schema')
+on conflict (version) do nothing;
@@ -24,3 +24,6 @@ create index if not exists user_marker_settings_user_id_idx
 
 create index if not exists user_stats_history_user_id_log_date_idx
   on public.user_stats_history (user_id, log_date);
+
+insert into public.schema_version (version, name) values ('0001', 'indexes')
+on conflict (version) do nothing;
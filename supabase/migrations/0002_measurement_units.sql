@@ -0,0 +1,16 @@
+-- Unit-aware measurements
+-- measurements.value is always stored in blood_markers.unit; the lab's own
+-- value/unit is kept alongside when a conversion was applied on save.
+-- Safe to run multiple times
+
+alter table public.measurements
+  add column if not exists original_value numeric,
+  add column if not exists original_unit text;
+
+-- Optional per-marker molar mass (g/mol) used for mass <-> molar conversion.
+-- When null the app falls back to its built-in conversion table.
+alter table public.blood_markers
+  add column if not exists molar_mass numeric;
+
+insert into public.schema_version (version, name) values ('0002', 'measurement_units')
+on conflict (version) do nothing;
@@ -0,0 +1,76 @@
+-- Sex- and age-specific reference ranges + user profile
+-- blood_markers.min_ref/max_ref stay the default; a matching row here wins.
+-- Age bands are [age_min, age_max) in whole years; null means unbounded.
+-- Safe to run multiple times
+
+create table if not exists public.marker_reference_ranges (
+  id uuid primary key default gen_random_uuid(),
+  marker_id uuid not null references public.blood_markers (id) on delete cascade,
+  sex text check (sex in ('male', 'female')),
+  age_min integer check (age_min >= 0),
+  age_max integer check (age_max > 0),
+  min_ref numeric not null,
+  max_ref numeric not null,
+  created_at timestamptz not null default now(),
+  constraint marker_reference_ranges_age_band check (age_min is null or age_max is null or age_min < age_max),
+  constraint marker_reference_ranges_unique unique nulls not distinct (marker_id, sex, age_min, age_max)
+);
+
+create index if not exists marker_reference_ranges_marker_id_idx
+  on public.marker_reference_ranges (marker_id);
+
+alter table public.marker_reference_ranges enable row level security;
+
+drop policy if exists "marker_reference_ranges_select_all" on public.marker_reference_ranges;
+create policy "marker_reference_ranges_select_all"
+on public.marker_reference_ranges for select
+using (true);
+
+create table if not exists public.user_profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  birth_date date,
+  sex text check (sex in ('male', 'female')),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_profiles enable row level security;
+
+drop policy if exists "user_profiles_select_own" on public.user_profiles;
+create policy "user_profiles_select_own"
+on public.user_profiles for select
+using (auth.uid() = user_id);
+
+drop policy if exists "user_profiles_insert_own" on public.user_profiles;
+create policy "user_profiles_insert_own"
+on public.user_profiles for insert
+with check (auth.uid() = user_id);
+
+drop policy if exists "user_profiles_update_own" on public.user_profiles;
+create policy "user_profiles_update_own"
+on public.user_profiles for update
+using (auth.uid() = user_id);
+
+-- Seed: common sex/age-dependent intervals (adult, Swedish lab practice).
+-- Only applied when the marker exists with the expected unit.
+insert into public.marker_reference_ranges (marker_id, sex, age_min, age_max, min_ref, max_ref)
+select m.id, v.sex, v.age_min, v.age_max, v.min_ref, v.max_ref
+from public.blood_markers m
+join (values
+  ('hemoglobin', 'g/L',    'male',   18,   null::integer, 134,   170),
+  ('hemoglobin', 'g/L',    'female', 18,   null,          117,   153),
+  ('ferritin',   'µg/L',   'male',   18,   null,          30,    400),
+  ('ferritin',   'µg/L',   'female', 18,   50,            13,    150),
+  ('ferritin',   'µg/L',   'female', 50,   null,          30,    400),
+  ('kreatinin',  'µmol/L', 'male',   18,   null,          60,    105),
+  ('kreatinin',  'µmol/L', 'female', 18,   null,          45,    90),
+  ('testosteron','nmol/L', 'male',   18,   50,            8.6,   29),
+  ('testosteron','nmol/L', 'male',   50,   null,          6.7,   26),
+  ('testosteron','nmol/L', 'female', 18,   null,          0.29,  1.67),
+  ('urat',       'µmol/L', 'male',   18,   null,          230,   480),
+  ('urat',       'µmol/L', 'female', 18,   null,          155,   350)
+) as v (name, unit, sex, age_min, age_max, min_ref, max_ref)
+  on lower(m.name) = v.name and m.unit = v.unit
+on conflict on constraint marker_reference_ranges_unique do nothing;
+
+insert into public.schema_version (version, name) values ('0003', 'reference_ranges')
+on conflict (version) do nothing;
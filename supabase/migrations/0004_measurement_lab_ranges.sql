@@ -0,0 +1,12 @@
+-- Reference interval printed on the lab report, per measurement
+-- Stored in blood_markers.unit (converted together with the value on save).
+-- When present it is used instead of the marker/profile range for that reading.
+-- Safe to run multiple times
+
+alter table public.measurements
+  add column if not exists lab_min_ref numeric,
+  add column if not exists lab_max_ref numeric,
+  add column if not exists lab_name text;
+
+insert into public.schema_version (version, name) values ('0004', 'measurement_lab_ranges')
+on conflict (version) do nothing;
@@ -0,0 +1,27 @@
+-- One row per call to /api/ai-import, used for per-user rate limiting.
+-- The route runs as the calling user, so RLS only needs own-row access.
+-- Safe to run multiple times
+
+create table if not exists public.ai_import_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_import_requests_user_created_idx
+  on public.ai_import_requests (user_id, created_at desc);
+
+alter table public.ai_import_requests enable row level security;
+
+drop policy if exists "ai_import_requests_select_own" on public.ai_import_requests;
+create policy "ai_import_requests_select_own"
+on public.ai_import_requests for select
+using (auth.uid() = user_id);
+
+drop policy if exists "ai_import_requests_insert_own" on public.ai_import_requests;
+create policy "ai_import_requests_insert_own"
+on public.ai_import_requests for insert
+with check (auth.uid() = user_id);
+
+insert into public.schema_version (version, name) values ('0005', 'ai_import_requests')
+on conflict (version) do nothing;
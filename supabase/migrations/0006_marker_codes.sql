@@ -0,0 +1,125 @@
+-- Terminology codes and synonyms per marker
+-- loinc_code: LOINC code of the property the marker is stored in (e.g. 718-7 for B-Hb g/L)
+-- npu_code: NPU code Swedish labs report with ("NPU" + digits); seeded by
+--   0015_marker_catalog_codes.sql
+-- synonyms: extra names and abbreviations used by the import parsers and the search
+-- Safe to run multiple times
+
+alter table public.blood_markers
+  add column if not exists loinc_code text,
+  add column if not exists npu_code text,
+  add column if not exists synonyms text[] not null default '{}';
+
+create index if not exists blood_markers_loinc_code_idx
+  on public.blood_markers (loinc_code);
+
+create index if not exists blood_markers_npu_code_idx
+  on public.blood_markers (npu_code);
+
+-- Seed: LOINC codes for common markers, matched on name. Existing codes are kept.
+update public.blood_markers m
+set loinc_code = v.code
+from (values
+  ('hemoglobin',           '718-7'),
+  ('hba1c',                '59261-8'),
+  ('glukos',               '14749-6'),
+  ('ferritin',             '2276-4'),
+  ('järn',                 '14798-3'),
+  ('transferrin',          '3034-6'),
+  ('transferrinmättnad',   '2502-3'),
+  ('leukocyter',           '6690-2'),
+  ('erytrocyter',          '789-8'),
+  ('trombocyter',          '777-3'),
+  ('evf',                  '4544-3'),
+  ('mcv',                  '787-2'),
+  ('mch',                  '785-6'),
+  ('mchc',                 '786-4'),
+  ('kolesterol',           '14647-2'),
+  ('ldl',                  '22748-8'),
+  ('ldl-kolesterol',       '22748-8'),
+  ('hdl',                  '14646-4'),
+  ('hdl-kolesterol',       '14646-4'),
+  ('triglycerider',        '14927-8'),
+  ('apob',                 '1884-6'),
+  ('apoa1',                '1869-7'),
+  ('crp',                  '1988-5'),
+  ('hs-crp',               '30522-7'),
+  ('alat',                 '1742-6'),
+  ('asat',                 '1920-8'),
+  ('gt',                   '2324-2'),
+  ('alp',                  '6768-6'),
+  ('bilirubin',            '14631-6'),
+  ('albumin',              '1751-7'),
+  ('kreatinin',            '14682-9'),
+  ('cystatin c',           '33863-2'),
+  ('urat',                 '14933-6'),
+  ('natrium',              '2951-2'),
+  ('kalium',               '2823-3'),
+  ('kalcium',              '2000-8'),
+  ('magnesium',            '2601-3'),
+  ('fosfat',               '14879-1'),
+  ('tsh',                  '3016-3'),
+  ('fritt t4',             '14920-3'),
+  ('fritt t3',             '14928-6'),
+  ('testosteron',          '14913-8'),
+  ('shbg',                 '13967-5'),
+  ('östradiol',            '14715-7'),
+  ('progesteron',          '14890-8'),
+  ('prolaktin',            '2842-3'),
+  ('kortisol',             '14675-3'),
+  ('dhea-s',               '14687-8'),
+  ('lh',                   '10501-5'),
+  ('fsh',                  '15067-2'),
+  ('psa',                  '2857-1'),
+  ('insulin',              '20448-7'),
+  ('homocystein',          '13965-9'),
+  ('vitamin b12',          '14685-2'),
+  ('folat',                '14732-2')
+) as v (name, code)
+where lower(m.name) = v.name
+  and m.loinc_code is null;
+
+-- Seed: synonyms, only where none are set yet
+update public.blood_markers m
+set synonyms = v.synonyms
+from (values
+  ('hemoglobin',         array['Hb', 'Haemoglobin', 'Hgb']),
+  ('hba1c',              array['HbA1c', 'Glykerat hemoglobin', 'Långtidssocker']),
+  ('glukos',             array['Glucose', 'Fasteglukos', 'Blodsocker']),
+  ('järn',               array['Fe', 'Iron']),
+  ('transferrinmättnad', array['Järnmättnad', 'Transferrin saturation']),
+  ('leukocyter',         array['LPK', 'WBC', 'Vita blodkroppar']),
+  ('erytrocyter',        array['EPK', 'RBC', 'Röda blodkroppar']),
+  ('trombocyter',        array['TPK', 'PLT', 'Blodplättar']),
+  ('evf',                array['Hematokrit', 'Hct']),
+  ('kolesterol',         array['Totalkolesterol', 'Cholesterol']),
+  ('triglycerider',      array['TG', 'Triglyceride', 'Triglycerides']),
+  ('apob',               array['Apo B', 'Apolipoprotein B']),
+  ('apoa1',              array['Apo A1', 'Apolipoprotein A1']),
+  ('crp',                array['C-reaktivt protein']),
+  ('hs-crp',             array['Högkänslig CRP']),
+  ('alat',               array['ALT', 'Alaninaminotransferas']),
+  ('asat',               array['AST', 'Aspartataminotransferas']),
+  ('gt',                 array['GGT', 'Gamma-GT']),
+  ('alp',                array['Alkaliska fosfataser']),
+  ('kreatinin',          array['Krea', 'Creatinine']),
+  ('urat',               array['Urinsyra', 'Uric acid']),
+  ('natrium',            array['Na', 'Sodium']),
+  ('kalium',             array['K', 'Potassium']),
+  ('kalcium',            array['Ca', 'Calcium']),
+  ('tsh',                array['Tyreoideastimulerande hormon']),
+  ('fritt t4',           array['FT4', 'Free T4']),
+  ('fritt t3',           array['FT3', 'Free T3']),
+  ('testosteron',        array['Testosterone']),
+  ('östradiol',          array['Estradiol', 'E2']),
+  ('kortisol',           array['Cortisol']),
+  ('psa',                array['Prostataspecifikt antigen']),
+  ('vitamin d',          array['D-vitamin', '25-OH vitamin D', '25(OH)D']),
+  ('vitamin b12',        array['B12', 'Kobalamin', 'Cobalamin']),
+  ('folat',              array['Folsyra', 'Folate'])
+) as v (name, synonyms)
+where lower(m.name) = v.name
+  and m.synonyms = '{}';
+
+insert into public.schema_version (version, name) values ('0006', 'marker_codes')
+on conflict (version) do nothing;
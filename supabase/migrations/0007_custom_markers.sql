@@ -0,0 +1,98 @@
+-- User-defined markers
+-- blood_markers.owner_id is null for the shared catalog and set for a user's
+-- private marker. Private markers are only visible to their owner (and to
+-- admins, who can promote them to the catalog by clearing owner_id).
+-- Safe to run multiple times
+
+alter table public.blood_markers
+  add column if not exists owner_id uuid references auth.users (id) on delete cascade,
+  add column if not exists created_at timestamptz not null default now();
+
+create index if not exists blood_markers_owner_id_idx
+  on public.blood_markers (owner_id);
+
+-- Admins are listed here by hand (insert from the SQL editor)
+create table if not exists public.app_admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.app_admins enable row level security;
+
+drop policy if exists "app_admins_select_own" on public.app_admins;
+create policy "app_admins_select_own"
+on public.app_admins for select
+using (auth.uid() = user_id);
+
+-- security definer so policies can call it without exposing app_admins
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.app_admins where user_id = auth.uid());
+$$;
+
+alter table public.blood_markers enable row level security;
+
+-- A catalog-wide "select using (true)" policy would leak private markers; replace it
+drop policy if exists "blood_markers_select_all" on public.blood_markers;
+drop policy if exists "Enable read access for all users" on public.blood_markers;
+
+drop policy if exists "blood_markers_select_catalog_or_own" on public.blood_markers;
+create policy "blood_markers_select_catalog_or_own"
+on public.blood_markers for select
+using (owner_id is null or owner_id = auth.uid() or public.is_admin());
+
+drop policy if exists "blood_markers_insert_own" on public.blood_markers;
+create policy "blood_markers_insert_own"
+on public.blood_markers for insert
+with check (owner_id = auth.uid());
+
+drop policy if exists "blood_markers_update_own" on public.blood_markers;
+create policy "blood_markers_update_own"
+on public.blood_markers for update
+using (owner_id = auth.uid())
+with check (owner_id = auth.uid());
+
+drop policy if exists "blood_markers_delete_own" on public.blood_markers;
+create policy "blood_markers_delete_own"
+on public.blood_markers for delete
+using (owner_id = auth.uid());
+
+drop policy if exists "blood_markers_admin_all" on public.blood_markers;
+create policy "blood_markers_admin_all"
+on public.blood_markers for all
+using (public.is_admin())
+with check (public.is_admin());
+
+-- Moves a private marker into the shared catalog. The id is kept, so the
+-- owner's measurements, notes and goals keep pointing at it.
+create or replace function public.promote_marker(p_marker_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can promote markers' using errcode = '42501';
+  end if;
+
+  update public.blood_markers
+  set owner_id = null
+  where id = p_marker_id and owner_id is not null;
+
+  if not found then
+    raise exception 'Marker % is not a private marker', p_marker_id using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+revoke all on function public.promote_marker(uuid) from public;
+grant execute on function public.promote_marker(uuid) to authenticated;
+
+insert into public.schema_version (version, name) values ('0007', 'custom_markers')
+on conflict (version) do nothing;
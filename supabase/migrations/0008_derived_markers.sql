@@ -0,0 +1,77 @@
+-- Calculated markers
+-- formula: expression over the input variables, e.g. 'tc - hdl' (syntax in derivedMarkers.ts)
+-- formula_inputs: variable -> input marker, by LOINC code or name, with the unit
+--   the expression expects: {"tc": {"marker": "14647-2", "unit": "mmol/L"}}
+-- Values are computed in the app for every day all inputs were sampled; no
+-- measurements are stored for these markers.
+-- Safe to run multiple times
+
+alter table public.blood_markers
+  add column if not exists formula text,
+  add column if not exists formula_inputs jsonb;
+
+alter table public.blood_markers
+  drop constraint if exists blood_markers_formula_inputs;
+alter table public.blood_markers
+  add constraint blood_markers_formula_inputs
+  check (formula is null or jsonb_typeof(formula_inputs) = 'object');
+
+-- Seed: common calculated markers. The category is copied from the first input
+-- marker so they are listed next to it. Existing rows (same name) are kept.
+insert into public.blood_markers
+  (name, short_name, unit, min_ref, max_ref, display_min, display_max, category, description, formula, formula_inputs)
+select v.name, v.short_name, v.unit, v.min_ref, v.max_ref, v.display_min, v.display_max,
+       coalesce((select c.category from public.blood_markers c
+                 where c.loinc_code = v.category_from and c.owner_id is null
+                 limit 1), 'Övrigt'),
+       v.description, v.formula, v.formula_inputs::jsonb
+from (values
+  ('Non-HDL-kolesterol (beräknad)', 'non-HDL', 'mmol/L', 0, 3.8, 0, 7,
+   '14647-2',
+   'Totalkolesterol minus HDL: allt kolesterol i aterogena partiklar (LDL, VLDL, IDL, Lp(a)).',
+   'tc - hdl',
+   '{"tc": {"marker": "14647-2", "unit": "mmol/L"}, "hdl": {"marker": "14646-4", "unit": "mmol/L"}}'),
+  ('TG/HDL-kvot', 'TG/HDL', 'kvot', 0, 0.9, 0, 3,
+   '14927-8',
+   'Triglycerider delat med HDL (båda i mmol/L). En hög kvot talar för insulinresistens och små, täta LDL-partiklar.',
+   'tg / hdl',
+   '{"tg": {"marker": "14927-8", "unit": "mmol/L"}, "hdl": {"marker": "14646-4", "unit": "mmol/L"}}'),
+  ('HOMA-IR', 'HOMA-IR', 'index', 0, 2, 0, 6,
+   '14749-6',
+   'Insulinresistens uppskattad från fasteglukos och fasteinsulin (glukos × insulin / 22,5). Kräver fasteprover.',
+   'glu * ins / 22.5',
+   '{"glu": {"marker": "14749-6", "unit": "mmol/L"}, "ins": {"marker": "20448-7", "unit": "mIU/L"}}'),
+  ('eGFR (beräknad)', 'eGFR', 'mL/min/1,73 m²', 90, 200, 30, 150,
+   '14682-9',
+   'Uppskattad filtrationshastighet enligt CKD-EPI 2021 från kreatinin, ålder och kön. Kräver födelsedatum och kön i profilen.',
+   'ckd_epi(krea, age, female)',
+   '{"krea": {"marker": "14682-9", "unit": "µmol/L"}}'),
+  ('Fritt testosteron (beräknat)', 'fT (ber.)', 'pmol/L', 170, 680, 50, 1000,
+   '14913-8',
+   'Fritt testosteron enligt Vermeulen från totalt testosteron, SHBG och albumin.',
+   'free_testosterone(tt, shbg, alb)',
+   '{"tt": {"marker": "14913-8", "unit": "nmol/L"}, "shbg": {"marker": "13967-5", "unit": "nmol/L"}, "alb": {"marker": "1751-7", "unit": "g/L"}}'),
+  ('Transferrinmättnad (beräknad)', 'TSAT', '%', 15, 50, 0, 80,
+   '3034-6',
+   'Järn i förhållande till transferrinets bindningskapacitet (1 g/L transferrin binder 25,1 µmol/L järn).',
+   'fe / (tf * 25.1) * 100',
+   '{"fe": {"marker": "14798-3", "unit": "µmol/L"}, "tf": {"marker": "3034-6", "unit": "g/L"}}')
+) as v (name, short_name, unit, min_ref, max_ref, display_min, display_max, category_from, description, formula, formula_inputs)
+where not exists (
+  select 1 from public.blood_markers m where lower(m.name) = lower(v.name)
+);
+
+-- Sex-specific intervals for the calculated markers
+insert into public.marker_reference_ranges (marker_id, sex, age_min, age_max, min_ref, max_ref)
+select m.id, v.sex, v.age_min, v.age_max, v.min_ref, v.max_ref
+from public.blood_markers m
+join (values
+  ('fritt testosteron (beräknat)',  'male',   18, null::integer, 170, 680),
+  ('fritt testosteron (beräknat)',  'female', 18, null,          2,   30),
+  ('transferrinmättnad (beräknad)', 'female', 18, null,          10,  50)
+) as v (name, sex, age_min, age_max, min_ref, max_ref)
+  on lower(m.name) = v.name and m.formula is not null
+on conflict on constraint marker_reference_ranges_unique do nothing;
+
+insert into public.schema_version (version, name) values ('0008', 'derived_markers')
+on conflict (version) do nothing;
@@ -0,0 +1,20 @@
+-- Personal target ranges
+-- A user's own optimal range per marker, in the marker's unit, shown next to
+-- (not instead of) the reference range. Both bounds are set or neither.
+-- Safe to run multiple times
+
+alter table public.user_marker_settings
+  add column if not exists target_min numeric,
+  add column if not exists target_max numeric;
+
+alter table public.user_marker_settings
+  drop constraint if exists user_marker_settings_target_range;
+alter table public.user_marker_settings
+  add constraint user_marker_settings_target_range
+  check (
+    (target_min is null and target_max is null)
+    or (target_min is not null and target_max is not null and target_min < target_max)
+  );
+
+insert into public.schema_version (version, name) values ('0009', 'personal_targets')
+on conflict (version) do nothing;
@@ -0,0 +1,37 @@
+-- Graded severity
+-- critical_low / critical_high: alert limits in the marker's unit. A value
+-- beyond them is shown as critical. Markers without limits fall back to a
+-- relative deviation from the reference range (see getSeverity in utils.ts).
+-- Safe to run multiple times
+
+alter table public.blood_markers
+  add column if not exists critical_low numeric,
+  add column if not exists critical_high numeric;
+
+alter table public.blood_markers
+  drop constraint if exists blood_markers_critical_range;
+alter table public.blood_markers
+  add constraint blood_markers_critical_range
+  check (critical_low is null or critical_high is null or critical_low < critical_high);
+
+-- Seed: commonly used laboratory alert limits for adults. Only markers in the
+-- matching unit are touched, and limits already set by hand are kept.
+update public.blood_markers m
+set critical_low  = coalesce(m.critical_low, v.critical_low),
+    critical_high = coalesce(m.critical_high, v.critical_high)
+from (values
+  ('kalium',      'mmol/L',  2.8::numeric, 6.2::numeric),
+  ('natrium',     'mmol/L',  120,          160),
+  ('glukos',      'mmol/L',  2.5,          25),
+  ('hemoglobin',  'g/L',     70,           200),
+  ('trombocyter', '10^9/L',  20,           1000),
+  ('kalcium',     'mmol/L',  1.6,          3.5),
+  ('kreatinin',   'µmol/L',  null,         500),
+  ('leukocyter',  '10^9/L',  1.0,          30)
+) as v (name, unit, critical_low, critical_high)
+where lower(m.name) = v.name
+  and replace(lower(m.unit), ' ', '') = lower(v.unit)
+  and (m.critical_low is null or m.critical_high is null);
+
+insert into public.schema_version (version, name) values ('0010', 'marker_severity')
+on conflict (version) do nothing;
@@ -0,0 +1,17 @@
+-- Health score per focus area
+-- area_scores: focus area id -> sub-score 0–100 for the month, e.g.
+--   {"cardiovascular": 62, "metabolic": 100}. Computed in healthScore.ts;
+-- rows written before this migration keep only the total.
+-- Safe to run multiple times
+
+alter table public.user_stats_history
+  add column if not exists area_scores jsonb;
+
+alter table public.user_stats_history
+  drop constraint if exists user_stats_history_area_scores;
+alter table public.user_stats_history
+  add constraint user_stats_history_area_scores
+  check (area_scores is null or jsonb_typeof(area_scores) = 'object');
+
+insert into public.schema_version (version, name) values ('0011', 'focus_area_scores')
+on conflict (version) do nothing;
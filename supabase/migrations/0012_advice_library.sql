@@ -0,0 +1,99 @@
+-- Advice library
+-- One row per piece of advice. It targets a focus area (ids as in FOCUS_AREAS
+-- in utils.ts), a marker, or both; direction null means low and high values.
+-- sources: [{"label": "...", "url": "https://..."}]
+-- Everyone signed in can read, admins (app_admins, 0007) can write.
+-- Safe to run multiple times
+
+create table if not exists public.advice (
+  id uuid primary key default gen_random_uuid(),
+  focus_area text,
+  marker_id uuid references public.blood_markers (id) on delete cascade,
+  direction text,
+  title text not null,
+  description text not null,
+  evidence_level text not null default 'expert',
+  sources jsonb not null default '[]'::jsonb,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.advice drop constraint if exists advice_target;
+alter table public.advice
+  add constraint advice_target check (focus_area is not null or marker_id is not null);
+
+alter table public.advice drop constraint if exists advice_focus_area;
+alter table public.advice
+  add constraint advice_focus_area check (
+    focus_area is null or focus_area in (
+      'cardiovascular', 'metabolic', 'liver', 'kidney', 'thyroid', 'inflammation',
+      'blood', 'hormones', 'micronutrients', 'electrolytes', 'other'
+    )
+  );
+
+alter table public.advice drop constraint if exists advice_direction;
+alter table public.advice
+  add constraint advice_direction check (direction is null or direction in ('low', 'high'));
+
+alter table public.advice drop constraint if exists advice_evidence_level;
+alter table public.advice
+  add constraint advice_evidence_level check (evidence_level in ('strong', 'moderate', 'limited', 'expert'));
+
+alter table public.advice drop constraint if exists advice_sources;
+alter table public.advice
+  add constraint advice_sources check (jsonb_typeof(sources) = 'array');
+
+create index if not exists advice_marker_id_idx on public.advice (marker_id);
+create index if not exists advice_focus_area_idx on public.advice (focus_area);
+
+alter table public.advice enable row level security;
+
+drop policy if exists "advice_select_authenticated" on public.advice;
+create policy "advice_select_authenticated"
+on public.advice for select
+using (auth.role() = 'authenticated');
+
+drop policy if exists "advice_admin_all" on public.advice;
+create policy "advice_admin_all"
+on public.advice for all
+using (public.is_admin())
+with check (public.is_admin());
+
+-- Seed: the advice cards that used to be hard-coded, one per focus area
+insert into public.advice (focus_area, title, description, evidence_level)
+select v.focus_area, v.title, v.description, v.evidence_level
+from (values
+  ('cardiovascular', 'Optimera blodfetter',    'Öka zon 2-träning och minska mättat fett.',                        'strong'),
+  ('metabolic',      'Stabilisera blodsocker', 'Promenera 10 minuter efter varje måltid.',                         'moderate'),
+  ('liver',          'Minska leverbelastning', 'Undvik alkohol och fruktos i 4 veckor.',                           'moderate'),
+  ('inflammation',   'Sänk inflammation',      'Öka Omega-3 och prioritera återhämtning.',                         'limited'),
+  ('hormones',       'Optimera dygnsrytm',     'Få dagsljus direkt på morgonen och sov 8h.',                       'limited'),
+  ('kidney',         'Stöd njurfunktion',      'Säkerställ vätskeintag och kolla blodtryck.',                      'moderate'),
+  ('thyroid',        'Stöd sköldkörteln',      'Minska stress och ät selenrika livsmedel.',                        'limited'),
+  ('blood',          'Öka järnupptag',         'Kombinera järnrik mat med C-vitamin. Undvik kaffe till maten.',    'moderate'),
+  ('micronutrients', 'Justera intag',          'Riktad kost eller tillskott för specifika brister.',               'expert'),
+  ('electrolytes',   'Balansera mineraler',    'Öka intag av kalium via grönsaker.',                               'expert'),
+  ('other',          'Utred vidare',           'Boka tid för djupare analys.',                                     'expert')
+) as v (focus_area, title, description, evidence_level)
+where not exists (
+  select 1 from public.advice a where a.focus_area = v.focus_area and a.marker_id is null
+);
+
+-- Seed: the per-marker recommendations from blood_markers.recommendation_low/high.
+-- The columns are kept for older clients but no longer read by the app.
+insert into public.advice (marker_id, focus_area, direction, title, description, evidence_level)
+select m.id, null, v.direction, 'Rekommendation', v.description, 'expert'
+from public.blood_markers m
+cross join lateral (values
+  ('low',  m.recommendation_low),
+  ('high', m.recommendation_high)
+) as v (direction, description)
+where m.owner_id is null
+  and nullif(trim(v.description), '') is not null
+  and not exists (
+    select 1 from public.advice a where a.marker_id = m.id and a.direction = v.direction
+  );
+
+insert into public.schema_version (version, name) values ('0012', 'advice_library')
+on conflict (version) do nothing;
@@ -0,0 +1,42 @@
+-- Realtime for every user table
+-- The app applies each change event to its state instead of reloading
+-- (supabaseRepository.ts, subscribe). Replica identity full makes update
+-- events carry the old row. Under RLS a delete event's old record still only
+-- has the primary key, which is enough: ids for most tables, (journal_id,
+-- marker_id) for plan links and (user_id, marker_id) for marker settings.
+-- Safe to run multiple times
+
+alter table public.measurements replica identity full;
+alter table public.marker_notes replica identity full;
+alter table public.measurement_todos replica identity full;
+alter table public.journal_entries replica identity full;
+alter table public.journal_entry_markers replica identity full;
+alter table public.journal_goals replica identity full;
+alter table public.user_marker_settings replica identity full;
+alter table public.user_stats_history replica identity full;
+alter table public.user_profiles replica identity full;
+
+do $$
+declare
+  t text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+
+  foreach t in array array[
+    'measurements', 'marker_notes', 'measurement_todos',
+    'journal_entries', 'journal_entry_markers', 'journal_goals',
+    'user_marker_settings', 'user_stats_history', 'user_profiles'
+  ] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end $$;
+
+insert into public.schema_version (version, name) values ('0013', 'realtime_sync')
+on conflict (version) do nothing;
@@ -0,0 +1,103 @@
+-- Atomic plan save
+-- Saves a journal entry with its linked markers and goals in one transaction
+-- and returns the saved plan:
+--   {"entry": {...journal_entries row}, "markers": [...], "goals": [...]}
+-- p_goals: [{"id"?, "marker_id", "direction", "target_value", "target_value_upper"}]
+-- p_expected_updated_at is the updated_at the edit started from. When it no
+-- longer matches (saved from another tab or device) the call fails with
+-- errcode PT409 (PostgREST answers 409) and nothing is written; a plan that
+-- has been deleted fails with P0002. Pass null to save unconditionally.
+-- Runs as the caller, so the RLS policies on the three tables apply.
+-- Safe to run multiple times
+
+create or replace function public.save_journal_plan(
+  p_id uuid,
+  p_title text,
+  p_content text,
+  p_start_date date,
+  p_target_date date,
+  p_marker_ids uuid[],
+  p_goals jsonb,
+  p_expected_updated_at timestamptz default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_entry public.journal_entries;
+begin
+  if v_user is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  if p_id is not null then
+    -- Row lock: a concurrent save of the same plan waits and then sees the new updated_at
+    select * into v_entry
+    from public.journal_entries
+    where id = p_id and user_id = v_user
+    for update;
+
+    if v_entry.id is null and p_expected_updated_at is not null then
+      raise exception 'Plan % no longer exists', p_id using errcode = 'P0002';
+    end if;
+
+    if v_entry.id is not null and p_expected_updated_at is not null
+       and v_entry.updated_at is distinct from p_expected_updated_at then
+      raise exception 'Plan % was changed after it was opened', p_id
+        using errcode = 'PT409', detail = v_entry.updated_at::text;
+    end if;
+  end if;
+
+  if v_entry.id is null then
+    insert into public.journal_entries (id, user_id, title, content, start_date, target_date, updated_at)
+    values (coalesce(p_id, gen_random_uuid()), v_user, p_title, p_content, p_start_date, p_target_date, now())
+    returning * into v_entry;
+  else
+    update public.journal_entries
+    set title = p_title,
+        content = p_content,
+        start_date = p_start_date,
+        target_date = p_target_date,
+        updated_at = now()
+    where id = v_entry.id
+    returning * into v_entry;
+  end if;
+
+  delete from public.journal_entry_markers where journal_id = v_entry.id;
+  insert into public.journal_entry_markers (journal_id, marker_id)
+  select distinct v_entry.id, m
+  from unnest(coalesce(p_marker_ids, '{}'::uuid[])) as m;
+
+  delete from public.journal_goals where journal_id = v_entry.id;
+  insert into public.journal_goals (id, journal_id, marker_id, direction, target_value, target_value_upper)
+  select
+    coalesce((g ->> 'id')::uuid, gen_random_uuid()),
+    v_entry.id,
+    (g ->> 'marker_id')::uuid,
+    g ->> 'direction',
+    (g ->> 'target_value')::numeric,
+    (g ->> 'target_value_upper')::numeric
+  from jsonb_array_elements(coalesce(p_goals, '[]'::jsonb)) as g;
+
+  return jsonb_build_object(
+    'entry', to_jsonb(v_entry),
+    'markers', coalesce(
+      (select jsonb_agg(to_jsonb(jm)) from public.journal_entry_markers jm where jm.journal_id = v_entry.id),
+      '[]'::jsonb
+    ),
+    'goals', coalesce(
+      (select jsonb_agg(to_jsonb(jg)) from public.journal_goals jg where jg.journal_id = v_entry.id),
+      '[]'::jsonb
+    )
+  );
+end;
+$$;
+
+revoke all on function public.save_journal_plan(uuid, text, text, date, date, uuid[], jsonb, timestamptz) from public;
+grant execute on function public.save_journal_plan(uuid, text, text, date, date, uuid[], jsonb, timestamptz) to authenticated;
+
+insert into public.schema_version (version, name) values ('0014', 'save_journal_plan')
+on conflict (version) do nothing;
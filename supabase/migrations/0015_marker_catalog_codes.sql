@@ -0,0 +1,78 @@
+-- Catalog codes and synonyms, completed
+-- npu_code: seeded for the catalog markers whose NPU property Swedish labs
+--   agree on (values in the unit the marker is stored in). Markers where labs
+--   report different properties (e.g. glucose, vitamin D) are left empty.
+-- synonyms: the aliases the import parsers used to keep in code
+--   (labParser.ts), merged into the stored ones, so the catalog is the source
+--   and the tables in code only cover markers without stored data.
+-- Only shared catalog rows (owner_id is null) are touched; existing codes are kept.
+-- Safe to run multiple times
+
+update public.blood_markers m
+set npu_code = v.code
+from (values
+  ('hemoglobin',     'NPU28309'),
+  ('hba1c',          'NPU27300'),
+  ('leukocyter',     'NPU02593'),
+  ('erytrocyter',    'NPU01960'),
+  ('trombocyter',    'NPU03568'),
+  ('evf',            'NPU01961'),
+  ('mcv',            'NPU01944'),
+  ('mch',            'NPU02320'),
+  ('mchc',           'NPU02321'),
+  ('ferritin',       'NPU19763'),
+  ('järn',           'NPU02508'),
+  ('kolesterol',     'NPU01566'),
+  ('hdl',            'NPU01567'),
+  ('hdl-kolesterol', 'NPU01567'),
+  ('ldl',            'NPU01568'),
+  ('ldl-kolesterol', 'NPU01568'),
+  ('triglycerider',  'NPU04094'),
+  ('crp',            'NPU19748'),
+  ('alat',           'NPU19651'),
+  ('asat',           'NPU19654'),
+  ('gt',             'NPU19657'),
+  ('bilirubin',      'NPU01370'),
+  ('albumin',        'NPU19673'),
+  ('kreatinin',      'NPU18016'),
+  ('urat',           'NPU03688'),
+  ('natrium',        'NPU03429'),
+  ('kalium',         'NPU03230'),
+  ('kalcium',        'NPU01443'),
+  ('magnesium',      'NPU02647'),
+  ('tsh',            'NPU03577'),
+  ('fritt t4',       'NPU03579')
+) as v (name, code)
+where lower(m.name) = v.name
+  and m.owner_id is null
+  and m.npu_code is null;
+
+-- Union with what is stored, so names added by hand survive a re-run
+update public.blood_markers m
+set synonyms = array(
+  select distinct s from unnest(m.synonyms || v.synonyms) as s order by s
+)
+from (values
+  ('hba1c',              array['Hb A1c']),
+  ('kolesterol',         array['Total kolesterol']),
+  ('ldl',                array['LDL-kolesterol', 'Kolesterol LDL']),
+  ('hdl',                array['HDL-kolesterol', 'Kolesterol HDL']),
+  ('transferrinmättnad', array['Järnmättnad', 'Transferrin saturation']),
+  ('hs-crp',             array['hsCRP']),
+  ('alp',                array['Alkaliska fosfataser', 'Alkaliskt fosfatas']),
+  ('cystatin c',         array['Cystatin']),
+  ('magnesium',          array['Mg']),
+  ('fosfat',             array['Phosphate']),
+  ('fritt t4',           array['FT4', 'Free T4', 'T4 fritt']),
+  ('fritt t3',           array['FT3', 'Free T3', 'T3 fritt']),
+  ('prolaktin',          array['Prolactin']),
+  ('dhea-s',             array['DHEAS', 'DHEA-sulfat']),
+  ('homocystein',        array['Homocysteine']),
+  ('vitamin d',          array['D-vitamin', '25-OH vitamin D', '25-OH-D', '25(OH)D', 'Vitamin D (25-OH)'])
+) as v (name, synonyms)
+where lower(m.name) = v.name
+  and m.owner_id is null
+  and not m.synonyms @> v.synonyms;
+
+insert into public.schema_version (version, name) values ('0015', 'marker_catalog_codes')
+on conflict (version) do nothing;
@@ -1,7 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 
 // Helper to retrieve environment variables safely across different bundlers (Vite vs CRA)
-const getEnv = (key: string) => {
+export const getEnv = (key: string) => {
   // Check import.meta.env (Vite standard)
   // We cast to any because TypeScript might not have vite/client types loaded
   if (typeof import.meta !== 'undefined' && (import.meta as any).env && (import.meta as any).env[key]) {
@@ -19,8 +19,12 @@ const getEnv = (key: string) => {
 const supabaseUrl = getEnv('VITE_SUPABASE_URL');
 const supabaseAnonKey = getEnv('VITE_SUPABASE_ANON_KEY');
 
-if (!supabaseUrl || !supabaseAnonKey) {
+// VITE_DATA_BACKEND=local runs against localRepository.ts and needs no Supabase project
+export const isLocalBackend = getEnv('VITE_DATA_BACKEND') === 'local';
+
+if (!isLocalBackend && (!supabaseUrl || !supabaseAnonKey)) {
   throw new Error('Missing Supabase configuration. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// backend.ts imports the client with the local backend too, so it gets placeholders there
+export const supabase = createClient(supabaseUrl || 'http://localhost:54321', supabaseAnonKey || 'local');
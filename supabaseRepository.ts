@@ -0,0 +1,790 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  BloodMarker,
+  JournalGoal,
+  JournalPlan,
+  MarkerGoal,
+  MarkerNote,
+  Measurement,
+  MeasurementTodo,
+  ReferenceRange,
+  UserProfile,
+} from './types';
+import { safeFloat } from './utils';
+import { parseFormulaInputs } from './derivedMarkers';
+import { mapAdviceRow, toAdviceRow } from './advice';
+import { findMissingMigrations } from './schemaVersion';
+import {
+  DataChange,
+  MeasurementPatch,
+  MeasurementReplacement,
+  NewMeasurement,
+  PlanRow,
+  Repository,
+  RepositoryError,
+  TodoPatch,
+  displayRangeFor,
+} from './repository';
+
+// Wraps PostgREST/Postgres errors so callers only deal with RepositoryError
+const toRepositoryError = (err: any) =>
+  err instanceof RepositoryError
+    ? err
+    : new RepositoryError((err?.message || err?.hint || String(err || '')).toString(), err?.code);
+
+const check = (error: any) => {
+  if (error) throw toRepositoryError(error);
+};
+
+// --- Row mapping ---
+
+export const mapMarkerRow = (m: any): BloodMarker => {
+  const minRef = safeFloat(m.min_ref);
+  const maxRef = safeFloat(m.max_ref);
+  const displayMinRaw = safeFloat(m.display_min);
+  const displayMaxRaw = safeFloat(m.display_max);
+
+  const displayMin = displayMinRaw > 0
+     ? displayMinRaw
+     : (minRef > 0 ? minRef * 0.5 : maxRef > 0 ? maxRef * 0.1 : 0);
+
+  const displayMax = displayMaxRaw > 0
+     ? displayMaxRaw
+     : (maxRef > 0 ? maxRef * 1.5 : (minRef > 0 ? minRef * 2 : 100));
+
+  return {
+    id: m.id,
+    name: m.name,
+    shortName: m.short_name || String(m.name ?? '').substring(0, 3),
+    unit: m.unit,
+    minRef,
+    maxRef,
+    category: m.category || 'Övrigt',
+    description: m.description || 'Ingen beskrivning tillgänglig.',
+    displayMin,
+    displayMax,
+    recommendationLow: m.recommendation_low ?? undefined,
+    recommendationHigh: m.recommendation_high ?? undefined,
+    riskLow: m.risk_low ?? undefined,
+    riskHigh: m.risk_high ?? undefined,
+    molarMass: m.molar_mass != null ? safeFloat(m.molar_mass) : undefined,
+    loincCode: m.loinc_code || undefined,
+    npuCode: m.npu_code || undefined,
+    synonyms: Array.isArray(m.synonyms) ? m.synonyms.filter((s: unknown) => typeof s === 'string' && s.trim()) : [],
+    ownerId: m.owner_id ?? null,
+    formula: m.formula ? { expression: m.formula, inputs: parseFormulaInputs(m.formula_inputs) } : undefined,
+    criticalLow: m.critical_low != null ? safeFloat(m.critical_low) : undefined,
+    criticalHigh: m.critical_high != null ? safeFloat(m.critical_high) : undefined,
+  };
+};
+
+export const mapMeasurementRow = (item: any): Measurement => ({
+  id: item.id,
+  markerId: item.marker_id,
+  value: safeFloat(item.value),
+  date: item.measured_at,
+  note: item.note ?? null,
+  originalValue: item.original_value != null ? safeFloat(item.original_value) : null,
+  originalUnit: item.original_unit ?? null,
+  labMinRef: item.lab_min_ref != null ? safeFloat(item.lab_min_ref) : null,
+  labMaxRef: item.lab_max_ref != null ? safeFloat(item.lab_max_ref) : null,
+  labName: item.lab_name ?? null,
+});
+
+export const mapNoteRow = (n: any): MarkerNote => ({
+  id: n.id,
+  markerId: n.marker_id,
+  note: n.note ?? '',
+  date: n.created_at,
+});
+
+// Old todos point at a measurement instead of carrying marker ids
+export const mapTodoRow = (t: any, measurements: Measurement[]): MeasurementTodo => {
+  let ids: string[] = [];
+  if (Array.isArray(t.marker_ids)) {
+      ids = t.marker_ids;
+  } else if (t.measurement_id) {
+     const m = measurements.find(meas => meas.id === t.measurement_id);
+     if (m) ids = [m.markerId];
+  }
+
+  return {
+    id: t.id,
+    measurementId: t.measurement_id,
+    markerIds: ids,
+    task: t.task ?? '',
+    done: Boolean(t.is_done),
+    dueDate: t.due_date,
+    linkedJournalId: t.linked_journal_id,
+    createdAt: t.created_at,
+    updatedAt: t.updated_at,
+  };
+};
+
+export const mapGoalRow = (g: any): JournalGoal & { id: string } => ({
+  id: g.id,
+  markerId: g.marker_id,
+  direction: g.direction,
+  targetValue: g.target_value,
+  targetValueUpper: g.target_value_upper,
+});
+
+export const mapPlanFields = (j: any): PlanRow => ({
+  id: j.id,
+  title: j.title || '',
+  content: j.content || '',
+  isPinned: j.is_pinned,
+  createdAt: j.created_at,
+  updatedAt: j.updated_at,
+  startDate: j.start_date,
+  targetDate: j.target_date,
+});
+
+export const mapPlanRow = (j: any, markerLinks: any[], goalRows: any[]): JournalPlan => ({
+  ...mapPlanFields(j),
+  linkedMarkerIds: markerLinks.filter((jm) => jm.journal_id === j.id).map((jm) => jm.marker_id),
+  goals: goalRows.filter((g) => g.journal_id === j.id).map(mapGoalRow),
+});
+
+export const mapReferenceRangeRow = (r: any): ReferenceRange => ({
+  id: r.id,
+  markerId: r.marker_id,
+  sex: r.sex === 'male' || r.sex === 'female' ? r.sex : null,
+  ageMin: r.age_min != null ? safeFloat(r.age_min) : null,
+  ageMax: r.age_max != null ? safeFloat(r.age_max) : null,
+  minRef: safeFloat(r.min_ref),
+  maxRef: safeFloat(r.max_ref),
+});
+
+// user_marker_settings: a target needs both bounds
+export const mapSettingsGoal = (s: any): MarkerGoal | null =>
+  s.target_min != null && s.target_max != null ? { targetMin: safeFloat(s.target_min), targetMax: safeFloat(s.target_max) } : null;
+
+export const mapProfileRow = (p: any): UserProfile | null =>
+  p
+    ? {
+        birthDate: p.birth_date ?? null,
+        sex: p.sex === 'male' || p.sex === 'female' ? p.sex : null,
+      }
+    : null;
+
+const toMeasurementRow = (m: MeasurementPatch & { id?: string }) => {
+  const row: Record<string, unknown> = {};
+  if (m.id) row.id = m.id;
+  if (m.value !== undefined) row.value = m.value;
+  if (m.date !== undefined) row.measured_at = m.date;
+  if (m.note !== undefined) row.note = m.note;
+  if (m.originalValue !== undefined) row.original_value = m.originalValue;
+  if (m.originalUnit !== undefined) row.original_unit = m.originalUnit;
+  if (m.labMinRef !== undefined) row.lab_min_ref = m.labMinRef;
+  if (m.labMaxRef !== undefined) row.lab_max_ref = m.labMaxRef;
+  if (m.labName !== undefined) row.lab_name = m.labName;
+  return row;
+};
+
+type RealtimePayload = { eventType: 'INSERT' | 'UPDATE' | 'DELETE'; new: any; old: any };
+
+/**
+ * Maps a postgres_changes payload. Under RLS a delete only carries the primary
+ * key, even with replica identity full, and delete events cannot be filtered,
+ * so they arrive for other users' rows too. Deletes by id are harmless (an id
+ * that is not in the local state changes nothing); settings deletes are keyed
+ * on (user_id, marker_id) and are checked against the user.
+ */
+const toDataChange = (table: string, payload: RealtimePayload, userId: string): DataChange | null => {
+  const deleted = payload.eventType === 'DELETE';
+  const row = deleted ? payload.old ?? {} : payload.new ?? {};
+
+  switch (table) {
+    case 'measurements':
+      return deleted ? { table: 'measurements', type: 'delete', id: row.id } : { table: 'measurements', type: 'upsert', row: mapMeasurementRow(row) };
+    case 'marker_notes':
+      return deleted ? { table: 'notes', type: 'delete', id: row.id } : { table: 'notes', type: 'upsert', row: mapNoteRow(row) };
+    case 'measurement_todos':
+      return deleted ? { table: 'todos', type: 'delete', id: row.id } : { table: 'todos', type: 'upsert', row: mapTodoRow(row, []) };
+    case 'journal_entries':
+      return deleted ? { table: 'plans', type: 'delete', id: row.id } : { table: 'plans', type: 'upsert', row: mapPlanFields(row) };
+    case 'journal_entry_markers':
+      if (!row.journal_id || !row.marker_id) return null;
+      return { table: 'planMarkers', type: deleted ? 'delete' : 'upsert', journalId: row.journal_id, markerId: row.marker_id };
+    case 'journal_goals':
+      return deleted
+        ? { table: 'planGoals', type: 'delete', id: row.id }
+        : { table: 'planGoals', type: 'upsert', journalId: row.journal_id, row: mapGoalRow(row) };
+    case 'user_marker_settings':
+      if (!row.marker_id || (deleted && row.user_id !== userId)) return null;
+      return deleted
+        ? { table: 'markerSettings', type: 'delete', markerId: row.marker_id }
+        : { table: 'markerSettings', type: 'upsert', markerId: row.marker_id, isIgnored: Boolean(row.is_ignored), goal: mapSettingsGoal(row) };
+    case 'user_stats_history':
+      return deleted ? null : { table: 'statsHistory', type: 'upsert', row };
+    case 'user_profiles': {
+      const profile = deleted ? null : mapProfileRow(row);
+      return profile ? { table: 'profile', type: 'upsert', row: profile } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Tables with a user_id column are filtered server-side for inserts and updates; the journal
+// relations rely on RLS. Deletes are always subscribed to unfiltered (see toDataChange).
+const REALTIME_TABLES: Array<{ table: string; filtered: boolean }> = [
+  { table: 'measurements', filtered: true },
+  { table: 'marker_notes', filtered: true },
+  { table: 'measurement_todos', filtered: true },
+  { table: 'journal_entries', filtered: true },
+  { table: 'journal_entry_markers', filtered: false },
+  { table: 'journal_goals', filtered: false },
+  { table: 'user_marker_settings', filtered: true },
+  { table: 'user_stats_history', filtered: true },
+  { table: 'user_profiles', filtered: true },
+];
+
+const toTodoRow = (patch: TodoPatch) => {
+  const row: Record<string, unknown> = {};
+  if (patch.task !== undefined) row.task = patch.task;
+  if (patch.done !== undefined) row.is_done = patch.done;
+  if (patch.dueDate !== undefined) row.due_date = patch.dueDate;
+  if (patch.markerIds !== undefined) row.marker_ids = patch.markerIds;
+  return row;
+};
+
+export const createSupabaseRepository = (supabase: SupabaseClient): Repository => ({
+  async getSession() {
+    const { data, error } = await supabase.auth.getSession();
+    check(error);
+    return data.session ?? null;
+  },
+
+  onAuthStateChange(callback) {
+    const { data } = supabase.auth.onAuthStateChange((_event, s) => callback(s));
+    return () => data.subscription.unsubscribe();
+  },
+
+  async signInWithPassword(email, password) {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    check(error);
+  },
+
+  async signInWithMagicLink(email, redirectTo) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: redirectTo ? { emailRedirectTo: redirectTo } : undefined,
+    });
+    check(error);
+  },
+
+  async signUp(email, password) {
+    const { data, error } = await supabase.auth.signUp({ email, password });
+    check(error);
+    return { needsConfirmation: Boolean(data.user && !data.session) };
+  },
+
+  async updatePassword(password) {
+    const { error } = await supabase.auth.updateUser({ password });
+    check(error);
+  },
+
+  async signOut() {
+    await supabase.auth.signOut();
+  },
+
+  async getAccessToken() {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token ?? null;
+  },
+
+  async loadUserData(userId) {
+    const missing: string[] = [];
+
+    const [
+        markersRes,
+        measurementsRes,
+        notesRes,
+        todosRes,
+        journalRes,
+        settingsRes,
+        historyRes,
+        rangesRes,
+        profileRes,
+        adminRes,
+        adviceRes
+    ] = await Promise.all([
+      supabase.from('blood_markers').select('*'),
+      supabase.from('measurements').select('*').eq('user_id', userId).order('measured_at', { ascending: false }),
+      supabase.from('marker_notes').select('*').eq('user_id', userId).order('created_at', { ascending: false }),
+      supabase.from('measurement_todos').select('*').eq('user_id', userId).order('created_at', { ascending: true }),
+      // Ordered by updated_at so the first plan is the "active" one
+      supabase.from('journal_entries').select('*').eq('user_id', userId).order('updated_at', { ascending: false }),
+      supabase.from('user_marker_settings').select('*').eq('user_id', userId),
+      supabase.from('user_stats_history').select('*').eq('user_id', userId).order('log_date', { ascending: true }),
+      supabase.from('marker_reference_ranges').select('*'),
+      supabase.from('user_profiles').select('*').eq('user_id', userId).maybeSingle(),
+      supabase.from('app_admins').select('user_id').eq('user_id', userId).maybeSingle(),
+      supabase.from('advice').select('*').order('sort_order', { ascending: true })
+    ]);
+
+    check(markersRes.error);
+    check(measurementsRes.error);
+
+    if (notesRes.error) missing.push(`marker_notes (${notesRes.error.message})`);
+    if (todosRes.error) missing.push(`measurement_todos (${todosRes.error.message})`);
+    if (journalRes.error) {
+      console.warn("Journal table missing:", journalRes.error.message);
+      missing.push(`journal_entries (${journalRes.error.message})`);
+    }
+    if (historyRes.error) console.warn("History table missing:", historyRes.error.message);
+    // Without these tables the app falls back to each marker's default range
+    if (rangesRes.error) console.warn("Reference range table missing:", rangesRes.error.message);
+    if (profileRes.error) console.warn("Profile table missing:", profileRes.error.message);
+    // Without it the marker page shows blood_markers.recommendation_low/high and the dashboard has no advice cards
+    if (adviceRes.error) console.warn("Advice table missing:", adviceRes.error.message);
+
+    const measurements = (measurementsRes.data ?? []).map(mapMeasurementRow);
+    const journalData = !journalRes.error ? (journalRes.data ?? []) : null;
+
+    // Journal relations, only for the user's plans
+    let markerLinks: any[] = [];
+    let goalRows: any[] = [];
+    const journalIds = (journalData ?? []).map((j: any) => j.id).filter(Boolean);
+    if (journalIds.length > 0) {
+      const [journalMarkersRes, goalsRes] = await Promise.all([
+        supabase.from('journal_entry_markers').select('*').in('journal_id', journalIds),
+        supabase.from('journal_goals').select('*').in('journal_id', journalIds),
+      ]);
+      if (journalMarkersRes.error) missing.push(`journal_entry_markers (${journalMarkersRes.error.message})`);
+      if (goalsRes.error) missing.push(`journal_goals (${goalsRes.error.message})`);
+      markerLinks = journalMarkersRes.data ?? [];
+      goalRows = goalsRes.data ?? [];
+    }
+
+    const ignoredMarkerIds: string[] = [];
+    const markerGoals: Record<string, MarkerGoal> = {};
+    (!settingsRes.error ? (settingsRes.data ?? []) : []).forEach((s: any) => {
+        if (s.is_ignored) ignoredMarkerIds.push(s.marker_id);
+        const goal = mapSettingsGoal(s);
+        if (goal) markerGoals[s.marker_id] = goal;
+    });
+
+    return {
+      markers: (markersRes.data ?? []).map(mapMarkerRow),
+      measurements,
+      notes: !notesRes.error ? (notesRes.data ?? []).map(mapNoteRow) : null,
+      todos: !todosRes.error ? (todosRes.data ?? []).map((t: any) => mapTodoRow(t, measurements)) : null,
+      plans: journalData ? journalData.map((j: any) => mapPlanRow(j, markerLinks, goalRows)) : null,
+      ignoredMarkerIds,
+      markerGoals,
+      statsHistory: !historyRes.error ? (historyRes.data ?? []) : [],
+      referenceRanges: !rangesRes.error ? (rangesRes.data ?? []).map(mapReferenceRangeRow) : [],
+      profile: !profileRes.error ? mapProfileRow(profileRes.data) : null,
+      isAdmin: !adminRes.error && Boolean(adminRes.data),
+      advice: !adviceRes.error ? (adviceRes.data ?? []).map(mapAdviceRow) : null,
+      missing,
+    };
+  },
+
+  async missingMigrations() {
+    const { data, error } = await supabase.from('schema_version').select('version');
+    // No table yet (before 0000_base_schema.sql): nothing is recorded
+    if (error && error.code !== '42P01' && error.code !== 'PGRST205') check(error);
+    return findMissingMigrations(error ? [] : (data ?? []).map((r: any) => r.version));
+  },
+
+  subscribe(userId, onChange) {
+    const channel = supabase.channel(`hj:realtime:${userId}`);
+    const listen = (table: string, event: string, filter?: string) =>
+      channel.on(
+        'postgres_changes' as any,
+        { event, schema: 'public', table, ...(filter ? { filter } : {}) },
+        (payload: RealtimePayload) => {
+          const change = toDataChange(table, payload, userId);
+          if (change) onChange(change);
+        },
+      );
+    REALTIME_TABLES.forEach(({ table, filtered }) => {
+      if (!filtered) {
+        listen(table, '*');
+        return;
+      }
+      // A filtered subscription never receives deletes
+      listen(table, 'INSERT', `user_id=eq.${userId}`);
+      listen(table, 'UPDATE', `user_id=eq.${userId}`);
+      listen(table, 'DELETE');
+    });
+
+    // Events sent while the socket was down are lost, so a reconnect asks for a full load
+    let interrupted = false;
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        if (interrupted) onChange({ table: '*', type: 'reload' });
+        interrupted = false;
+      } else {
+        interrupted = true;
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  async createMarker(userId, input) {
+    const { displayMin, displayMax } = displayRangeFor(input);
+    const { data, error } = await supabase
+      .from('blood_markers')
+      .insert([{
+        owner_id: userId,
+        name: input.name,
+        short_name: input.shortName,
+        unit: input.unit,
+        min_ref: input.minRef,
+        max_ref: input.maxRef,
+        category: input.category,
+        display_min: displayMin,
+        display_max: displayMax,
+        description: input.description ?? null,
+      }])
+      .select()
+      .single();
+    check(error);
+    return mapMarkerRow(data);
+  },
+
+  async deleteMarker(userId, markerId) {
+    const { error } = await supabase
+      .from('blood_markers')
+      .delete()
+      .eq('id', markerId)
+      .eq('owner_id', userId);
+    check(error);
+  },
+
+  async promoteMarker(markerId) {
+    const { error } = await supabase.rpc('promote_marker', { p_marker_id: markerId });
+    check(error);
+  },
+
+  async addMeasurements(userId, rows: NewMeasurement[]) {
+    if (rows.length === 0) return [];
+    const { data, error } = await supabase
+      .from('measurements')
+      .insert(rows.map((m) => ({ user_id: userId, marker_id: m.markerId, ...toMeasurementRow(m) })))
+      .select();
+    check(error);
+    return (data ?? []).map(mapMeasurementRow);
+  },
+
+  async updateMeasurement(userId, measurementId, patch) {
+    const { data, error } = await supabase
+      .from('measurements')
+      .update(toMeasurementRow(patch))
+      .eq('id', measurementId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    check(error);
+    return mapMeasurementRow(data);
+  },
+
+  // One upsert on id is one statement, so a failure leaves every row as it was
+  async replaceMeasurements(userId, rows: MeasurementReplacement[]) {
+    if (rows.length === 0) return [];
+    const { data, error } = await supabase
+      .from('measurements')
+      .upsert(rows.map((m) => ({ user_id: userId, marker_id: m.markerId, ...toMeasurementRow(m) })), { onConflict: 'id' })
+      .select();
+    check(error);
+    return (data ?? []).map(mapMeasurementRow);
+  },
+
+  async deleteMeasurement(userId, measurementId) {
+    const { error } = await supabase
+      .from('measurements')
+      .delete()
+      .eq('id', measurementId)
+      .eq('user_id', userId);
+    check(error);
+  },
+
+  async addNote(userId, markerId, note, noteId) {
+    const { data, error } = await supabase
+      .from('marker_notes')
+      .insert([{ ...(noteId ? { id: noteId } : {}), user_id: userId, marker_id: markerId, note }])
+      .select()
+      .single();
+    check(error);
+    return mapNoteRow(data);
+  },
+
+  async updateNote(userId, noteId, note) {
+    const { data, error } = await supabase
+      .from('marker_notes')
+      .update({ note })
+      .eq('id', noteId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    check(error);
+    return mapNoteRow(data);
+  },
+
+  async deleteNote(userId, noteId) {
+    const { error } = await supabase
+      .from('marker_notes')
+      .delete()
+      .eq('id', noteId)
+      .eq('user_id', userId);
+    check(error);
+  },
+
+  async addTodo(userId, todo) {
+    const row: Record<string, unknown> = { user_id: userId, task: todo.task, marker_ids: todo.markerIds };
+    if (todo.id) row.id = todo.id;
+    if (todo.linkedJournalId) row.linked_journal_id = todo.linkedJournalId;
+    const { data, error } = await supabase.from('measurement_todos').insert([row]).select().single();
+    check(error);
+    return mapTodoRow(data, []);
+  },
+
+  async updateTodo(userId, todoId, patch) {
+    const { data, error } = await supabase
+      .from('measurement_todos')
+      .update(toTodoRow(patch))
+      .eq('id', todoId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    check(error);
+    return mapTodoRow(data, []);
+  },
+
+  async deleteTodo(userId, todoId) {
+    const { error } = await supabase
+      .from('measurement_todos')
+      .delete()
+      .eq('id', todoId)
+      .eq('user_id', userId);
+    check(error);
+  },
+
+  async savePlan(_userId, plan) {
+    // save_journal_plan (0014): one transaction, checks expectedUpdatedAt, user from auth.uid()
+    const { data, error } = await supabase.rpc('save_journal_plan', {
+      p_id: plan.id ?? null,
+      p_title: plan.title,
+      p_content: plan.content,
+      p_start_date: plan.startDate || null,
+      p_target_date: plan.targetDate || null,
+      p_marker_ids: plan.markerIds,
+      p_goals: plan.goals.map((g) => ({
+        id: g.id ?? null,
+        marker_id: g.markerId,
+        direction: g.direction,
+        target_value: g.targetValue,
+        target_value_upper: g.targetValueUpper ?? null,
+      })),
+      p_expected_updated_at: plan.expectedUpdatedAt ?? null,
+    });
+    check(error);
+    const saved = data as { entry: any; markers: any[]; goals: any[] };
+    return mapPlanRow(saved.entry, saved.markers, saved.goals);
+  },
+
+  async deletePlan(userId, planId) {
+    const { error } = await supabase.from('journal_entries').delete().eq('id', planId).eq('user_id', userId);
+    check(error);
+  },
+
+  async saveMarkerSettings(userId, markerId, patch) {
+    const row: Record<string, unknown> = { user_id: userId, marker_id: markerId };
+    if (patch.isIgnored !== undefined) row.is_ignored = patch.isIgnored;
+    if (patch.goal !== undefined) {
+      row.target_min = patch.goal?.targetMin ?? null;
+      row.target_max = patch.goal?.targetMax ?? null;
+    }
+    const { error } = await supabase.from('user_marker_settings').upsert(row, { onConflict: 'user_id, marker_id' });
+    check(error);
+  },
+
+  async saveProfile(userId, profile) {
+    const { error } = await supabase.from('user_profiles').upsert(
+      {
+        user_id: userId,
+        birth_date: profile.birthDate || null,
+        sex: profile.sex || null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' },
+    );
+    check(error);
+  },
+
+  async saveStatsHistory(userId, entry) {
+    const row: Record<string, unknown> = {
+      user_id: userId,
+      log_date: entry.log_date,
+      score: entry.score,
+      total_markers: entry.total_markers,
+    };
+    if (entry.area_scores) row.area_scores = entry.area_scores;
+    const { error } = await supabase.from('user_stats_history').upsert(row, { onConflict: 'user_id, log_date' });
+    check(error);
+
+    const { data, error: readError } = await supabase
+      .from('user_stats_history')
+      .select('*')
+      .eq('user_id', userId)
+      .order('log_date', { ascending: true });
+    check(readError);
+    return data ?? [];
+  },
+
+  async saveAdvice(input, adviceId) {
+    const row = toAdviceRow(input);
+    const { data, error } = adviceId
+      ? await supabase.from('advice').update({ ...row, updated_at: new Date().toISOString() }).eq('id', adviceId).select().single()
+      : await supabase.from('advice').insert([row]).select().single();
+    check(error);
+    return mapAdviceRow(data);
+  },
+
+  async deleteAdvice(adviceId) {
+    const { error } = await supabase.from('advice').delete().eq('id', adviceId);
+    check(error);
+  },
+
+  // Every row keeps its exported id and is written with ignoreDuplicates, so a second run is a no-op
+  async restore(userId, plan, capabilities) {
+    const upsert = async (table: string, rows: any[], onConflict: string = 'id') => {
+      for (let i = 0; i < rows.length; i += 500) {
+        const { error } = await supabase
+          .from(table)
+          .upsert(rows.slice(i, i + 500), { onConflict, ignoreDuplicates: true });
+        check(error);
+      }
+    };
+
+    // Parents first: todos point at plans and measurements
+    if (capabilities.journal) {
+      await upsert('journal_entries', plan.plans.map((p) => ({
+        id: p.id,
+        user_id: userId,
+        title: p.title,
+        content: p.content,
+        is_pinned: p.isPinned,
+        start_date: p.startDate || null,
+        target_date: p.targetDate || null,
+        created_at: p.createdAt,
+        updated_at: p.updatedAt,
+      })));
+      await upsert(
+        'journal_entry_markers',
+        plan.planLinks.map((l) => ({ journal_id: l.journalId, marker_id: l.markerId })),
+        'journal_id,marker_id',
+      );
+      const goals = plan.goals.map((g) => ({
+        ...(g.id ? { id: g.id } : {}),
+        journal_id: g.journalId,
+        marker_id: g.markerId,
+        direction: g.direction,
+        target_value: g.targetValue,
+        target_value_upper: g.targetValueUpper ?? null,
+      }));
+      await upsert('journal_goals', goals.filter((g) => g.id));
+      const unkeyed = goals.filter((g) => !g.id);
+      if (unkeyed.length > 0) {
+        const { error } = await supabase.from('journal_goals').insert(unkeyed);
+        check(error);
+      }
+    }
+
+    await upsert('measurements', plan.measurements.map((m) => ({
+      id: m.id,
+      user_id: userId,
+      marker_id: m.markerId,
+      value: m.value,
+      measured_at: m.date,
+      note: m.note ?? null,
+      original_value: m.originalValue ?? null,
+      original_unit: m.originalUnit ?? null,
+      lab_min_ref: m.labMinRef ?? null,
+      lab_max_ref: m.labMaxRef ?? null,
+      lab_name: m.labName ?? null,
+    })));
+
+    if (capabilities.markerNotes) {
+      await upsert('marker_notes', plan.notes.map((n) => ({
+        id: n.id,
+        user_id: userId,
+        marker_id: n.markerId,
+        note: n.note,
+        created_at: n.date,
+      })));
+    }
+
+    if (capabilities.todos) {
+      await upsert('measurement_todos', plan.todos.map((t) => ({
+        id: t.id,
+        user_id: userId,
+        measurement_id: t.measurementId ?? null,
+        marker_ids: t.markerIds,
+        task: t.task,
+        is_done: t.done,
+        due_date: t.dueDate ?? null,
+        linked_journal_id: capabilities.journal ? t.linkedJournalId ?? null : null,
+        created_at: t.createdAt,
+        updated_at: t.updatedAt,
+      })));
+    }
+
+    // Optional tables: a missing one should not fail the whole restore
+    const optional = async (label: string, run: () => Promise<void>) => {
+      try {
+        await run();
+      } catch (err) {
+        console.warn(`Restore skipped ${label}:`, err);
+      }
+    };
+    await optional('user_marker_settings', () =>
+      upsert(
+        'user_marker_settings',
+        plan.ignoredMarkerIds.map((mid) => ({ user_id: userId, marker_id: mid, is_ignored: true })),
+        'user_id, marker_id',
+      ),
+    );
+    // The settings row may already exist (e.g. ignored marker), so targets are merged into it
+    // rather than skipped as duplicates; planRestore leaves out markers that already have a target
+    await optional('user_marker_settings targets', async () => {
+      if (plan.markerGoals.length === 0) return;
+      const { error } = await supabase.from('user_marker_settings').upsert(
+        plan.markerGoals.map((g) => ({ user_id: userId, marker_id: g.markerId, target_min: g.targetMin, target_max: g.targetMax })),
+        { onConflict: 'user_id, marker_id' },
+      );
+      check(error);
+    });
+    await optional('user_stats_history', () =>
+      upsert(
+        'user_stats_history',
+        plan.statsHistory.map((h) => ({
+          user_id: userId,
+          log_date: h.log_date,
+          score: h.score,
+          total_markers: h.total_markers,
+          ...(h.area_scores ? { area_scores: h.area_scores } : {}),
+        })),
+        'user_id, log_date',
+      ),
+    );
+    if (plan.profile) {
+      const restoredProfile = plan.profile;
+      await optional('user_profiles', () =>
+        upsert(
+          'user_profiles',
+          [{ user_id: userId, birth_date: restoredProfile.birthDate, sex: restoredProfile.sex }],
+          'user_id',
+        ),
+      );
+    }
+  },
+});
@@ -23,24 +23,98 @@ export interface BloodMarker {
   description: string;
   displayMin: number;
   displayMax: number;
-  goal?: {
-    targetMin: number;
-    targetMax: number;
-  };
+  goal?: MarkerGoal; // the user's personal target range (user_marker_settings), in BloodMarker.unit
   recommendationLow?: string;
   recommendationHigh?: string;
   riskLow?: string;
   riskHigh?: string;
+  molarMass?: number; // g/mol, enables mass <-> molar unit conversion (blood_markers.molar_mass)
+  loincCode?: string; // blood_markers.loinc_code, e.g. "718-7"
+  npuCode?: string; // blood_markers.npu_code, the code Swedish labs report with ("NPU" + digits)
+  synonyms?: string[]; // blood_markers.synonyms: Swedish/English names and abbreviations
+  ownerId?: string | null; // blood_markers.owner_id: set for a user's private marker, null in the shared catalog
+  formula?: DerivedFormula; // blood_markers.formula + formula_inputs: set for calculated markers
+  criticalLow?: number; // blood_markers.critical_low: at or below this the value is critical
+  criticalHigh?: number; // blood_markers.critical_high: at or above this the value is critical
+}
+
+// Personal optimal range, separate from the lab reference range
+export interface MarkerGoal {
+  targetMin: number;
+  targetMax: number;
+}
+
+// Input of a calculated marker: another marker, referenced by LOINC code or name
+export interface DerivedInput {
+  marker: string;
+  unit?: string; // unit the expression expects; the stored value is converted into it
+}
+
+// A calculated marker is computed from other markers sampled on the same day
+export interface DerivedFormula {
+  expression: string; // e.g. "tc - hdl"; see derivedMarkers.ts for the syntax
+  inputs: Record<string, DerivedInput>; // variable name -> input marker
+}
+
+// Fields a user fills in for a private marker; display range defaults like catalog markers
+export interface CustomMarkerInput {
+  name: string;
+  shortName: string;
+  unit: string;
+  minRef: number;
+  maxRef: number;
+  category: string;
+  displayMin?: number;
+  displayMax?: number;
+  description?: string;
 }
 
 export type HealthStatus = 'low' | 'normal' | 'high';
 
+// How far outside the range a value is; the direction is in HealthStatus
+export type Severity = 'normal' | 'borderline' | 'out_of_range' | 'critical';
+
+export type Sex = 'male' | 'female';
+
+// Local rule parser, AI proxy, or a coded FHIR/HL7 file
+export type ImportSource = 'rule' | 'ai' | 'fhir' | 'hl7';
+
+export interface UserProfile {
+  birthDate?: string | null; // YYYY-MM-DD
+  sex?: Sex | null;
+}
+
+// Sex- and/or age-specific reference interval for a marker (marker_reference_ranges)
+export interface ReferenceRange {
+  id: string;
+  markerId: string;
+  sex: Sex | null; // null = applies to both
+  ageMin: number | null; // inclusive, years
+  ageMax: number | null; // exclusive, years
+  minRef: number;
+  maxRef: number;
+}
+
+// The interval a single value is judged against
+export interface ResolvedRange {
+  minRef: number;
+  maxRef: number;
+  label?: string; // e.g. "Kvinnor 18–50 år"; undefined for the marker's default range
+  fromLab?: boolean; // true when the interval was printed on the lab report itself
+}
+
 export interface Measurement {
   id: string;
   markerId: string;
   value: number;
   date: string;
   note?: string | null; // anteckning per mätning (measurements.note)
+  originalValue?: number | null; // value as reported by the lab, before unit conversion
+  originalUnit?: string | null; // unit as reported by the lab (value is always in BloodMarker.unit)
+  labMinRef?: number | null; // reference interval printed on the lab report, in BloodMarker.unit
+  labMaxRef?: number | null;
+  labName?: string | null; // e.g. "Werlabs", "Karolinska"
+  derived?: boolean; // computed from other measurements (calculated marker); never stored
 }
 
 export interface MarkerNote {
@@ -88,6 +162,9 @@ export interface MarkerHistory extends BloodMarker {
   notes: MarkerNote[];
   latestMeasurement: Measurement | undefined;
   status: HealthStatus;
+  severity: Severity;
+  measurementRanges?: Record<string, ResolvedRange>; // Range per measurement id, resolved for the user at that date
+  rangeLabel?: string; // Which specific range minRef/maxRef (latest measurement) came from
   isIgnored?: boolean; // New: If true, user wants to ignore this marker's deviation
   hasActivePlan?: boolean; // New: If true, marker is linked to the currently active plan
 }
@@ -109,9 +186,33 @@ export interface ActionableTodo {
   systemEmoji: string;
   actionTitle: string; 
   actionDescription: string;
-  triggeredBy: string[]; 
+  triggeredBy: string[]; // ids of the deviating markers behind the advice
+}
+
+export type AdviceDirection = 'low' | 'high';
+export type EvidenceLevel = 'strong' | 'moderate' | 'limited' | 'expert';
+
+export interface AdviceSource {
+  label: string;
+  url: string;
+}
+
+// A row in the advice library (public.advice). Targets a focus area, a marker
+// or both; direction null means the advice applies to both low and high values.
+export interface Advice {
+  id: string;
+  focusArea: FocusAreaId | null;
+  markerId: string | null;
+  direction: AdviceDirection | null;
+  title: string;
+  description: string;
+  evidenceLevel: EvidenceLevel;
+  sources: AdviceSource[];
+  sortOrder: number;
 }
 
+export type AdviceInput = Omit<Advice, 'id'>;
+
 export interface JournalEntry {
   id: string;
   content: string;
@@ -125,4 +226,8 @@ export interface StatsHistoryEntry {
   log_date: string;
   score: number;
   total_markers: number;
-}
\ No newline at end of file
+  area_scores?: AreaScores | null; // sub-score per focus area (0011_focus_area_scores.sql)
+}
+
+// Focus area -> sub-score 0–100, see healthScore.ts
+export type AreaScores = Partial<Record<FocusAreaId, number>>;
\ No newline at end of file
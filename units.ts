@@ -0,0 +1,213 @@
+import { BloodMarker } from './types';
+
+/**
+ * Unit handling for lab values.
+ * Every measurement is stored in the marker's own unit (BloodMarker.unit);
+ * values reported in another unit system are converted at save time.
+ */
+
+type UnitKind = 'mass' | 'molar';
+
+interface ParsedUnit {
+  kind: UnitKind;
+  // Multiplier that takes one of this unit to the base (g/L or mol/L)
+  toBase: number;
+}
+
+const PREFIX: Record<string, number> = {
+  '': 1,
+  d: 1e-1,
+  m: 1e-3,
+  'µ': 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+};
+
+const VOLUME: Record<string, number> = {
+  l: 1,
+  dl: 1e-1,
+  ml: 1e-3,
+};
+
+/**
+ * Per-marker conversion table.
+ * `match` is compared against the normalized name and shortName of a marker.
+ * `molarMass` (g/mol) links mass and molar units, `extraUnits` lists units
+ * that are not SI-derived together with their value in g/L.
+ */
+interface MarkerConversion {
+  match: string[];
+  molarMass?: number;
+  extraUnits?: Record<string, number>;
+}
+
+const CONVERSIONS: MarkerConversion[] = [
+  { match: ['glukos', 'glucose', 'p-glukos', 'fp-glukos'], molarMass: 180.16 },
+  { match: ['kolesterol', 'cholesterol', 'ldl', 'hdl', 'non-hdl', 'ldl-kolesterol', 'hdl-kolesterol'], molarMass: 386.65 },
+  { match: ['triglycerider', 'triglyceride', 'triglycerides', 'tg'], molarMass: 885.7 },
+  { match: ['kreatinin', 'creatinine', 'krea'], molarMass: 113.12 },
+  { match: ['urea', 'karbamid'], molarMass: 60.06 },
+  { match: ['urat', 'urinsyra', 'uric acid'], molarMass: 168.11 },
+  { match: ['testosteron', 'testosterone', 'testo'], molarMass: 288.42 },
+  { match: ['fritt testosteron', 'free testosterone'], molarMass: 288.42 },
+  { match: ['ostradiol', 'estradiol', 'e2'], molarMass: 272.38 },
+  { match: ['progesteron', 'progesterone'], molarMass: 314.46 },
+  { match: ['kortisol', 'cortisol'], molarMass: 362.46 },
+  { match: ['dhea-s', 'dhea-sulfat', 'dheas'], molarMass: 368.5 },
+  { match: ['vitamin d', '25-oh vitamin d', '25-oh-d', 'd-vitamin'], molarMass: 400.64 },
+  { match: ['vitamin b12', 'b12', 'kobalamin', 'cobalamin'], molarMass: 1355.37 },
+  { match: ['folat', 'folate', 'folsyra'], molarMass: 441.4 },
+  { match: ['jarn', 'iron', 'fe'], molarMass: 55.845 },
+  { match: ['kalcium', 'calcium', 'ca'], molarMass: 40.078 },
+  { match: ['magnesium', 'mg'], molarMass: 24.305 },
+  { match: ['fosfat', 'phosphate'], molarMass: 30.974 },
+  { match: ['natrium', 'sodium', 'na'], molarMass: 22.99 },
+  { match: ['kalium', 'potassium', 'k'], molarMass: 39.098 },
+  { match: ['zink', 'zinc', 'zn'], molarMass: 65.38 },
+  { match: ['bilirubin'], molarMass: 584.66 },
+  // Prolactin: 1 µg/L = 21.2 mIU/L
+  { match: ['prolaktin', 'prolactin'], extraUnits: { 'mIU/L': 1e-6 / 21.2 } },
+];
+
+const norm = (s: string) =>
+  (s ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim();
+
+/**
+ * Normalizes spelling variants so "umol/l", "μmol/L" and "µmol/L" compare equal.
+ */
+export const normalizeUnit = (unit: string | null | undefined): string => {
+  return (unit ?? '')
+    .trim()
+    .replace(/\s+/g, '')
+    .replace(/μ/g, 'µ') // greek mu -> micro sign
+    .replace(/^mcg/i, 'µg')
+    .replace(/^u(?=(g|mol)\/)/i, 'µ');
+};
+
+// Swedish labs write international units as "E" or "IE" ("mIE/L"), others as "U" or "IU"
+const unitKey = (unit: string | null | undefined) =>
+  normalizeUnit(unit)
+    .toLowerCase()
+    .replace(/^(m|µ)?(?:ie|iu|e|u)(?=\/)/, '$1iu');
+
+export const isSameUnit = (a: string | null | undefined, b: string | null | undefined) => unitKey(a) === unitKey(b);
+
+const parseUnit = (unit: string): ParsedUnit | null => {
+  const u = normalizeUnit(unit);
+  const m = /^(d|m|µ|n|p)?(g|mol)\/(l|dl|ml)$/i.exec(u);
+  if (!m) return null;
+
+  // Only lowercase SI prefixes are valid ("M" would be mega, not milli)
+  const prefix = m[1] ?? '';
+  if (prefix && PREFIX[prefix] === undefined) return null;
+
+  const kind: UnitKind = m[2].toLowerCase() === 'g' ? 'mass' : 'molar';
+  const volume = VOLUME[m[3].toLowerCase()];
+  return { kind, toBase: PREFIX[prefix] / volume };
+};
+
+export const getMarkerConversion = (
+  marker: Pick<BloodMarker, 'name' | 'shortName'> & { molarMass?: number },
+): MarkerConversion | null => {
+  const keys = [norm(marker.name), norm(marker.shortName)].filter(Boolean);
+  const found = CONVERSIONS.find((c) => c.match.some((k) => keys.includes(k))) ?? null;
+
+  // A molar mass stored on the marker row wins over the built-in table
+  if (marker.molarMass && marker.molarMass > 0) {
+    return { match: found?.match ?? [], extraUnits: found?.extraUnits, molarMass: marker.molarMass };
+  }
+  return found;
+};
+
+const toBase = (value: number, unit: string, conv: MarkerConversion | null) => {
+  const extra = conv?.extraUnits
+    ? Object.entries(conv.extraUnits).find(([u]) => isSameUnit(u, unit))
+    : undefined;
+  if (extra) return { kind: 'mass' as UnitKind, amount: value * extra[1] };
+
+  const parsed = parseUnit(unit);
+  if (!parsed) return null;
+  return { kind: parsed.kind, amount: value * parsed.toBase };
+};
+
+/**
+ * Converts a value between two units for the given marker.
+ * Returns null when the conversion is unknown (e.g. mass <-> molar without a molar mass).
+ */
+export const convertValue = (
+  value: number,
+  fromUnit: string,
+  toUnit: string,
+  marker: Pick<BloodMarker, 'name' | 'shortName'> & { molarMass?: number },
+): number | null => {
+  if (!Number.isFinite(value)) return null;
+  if (isSameUnit(fromUnit, toUnit)) return value;
+
+  const conv = getMarkerConversion(marker);
+  const from = toBase(value, fromUnit, conv);
+  if (!from) return null;
+
+  // Target expressed in base units per one target unit
+  const target = toBase(1, toUnit, conv);
+  if (!target) return null;
+
+  let amount = from.amount;
+  if (from.kind !== target.kind) {
+    const mm = conv?.molarMass;
+    if (!mm) return null;
+    amount = from.kind === 'molar' ? amount * mm : amount / mm;
+  }
+
+  const out = amount / target.amount;
+  return Number.isFinite(out) ? out : null;
+};
+
+const MASS_UNITS = ['g/L', 'mg/dL', 'mg/L', 'µg/L', 'µg/dL', 'ng/mL', 'ng/dL', 'pg/mL'];
+const MOLAR_UNITS = ['mmol/L', 'µmol/L', 'nmol/L', 'pmol/L'];
+
+/**
+ * Units the user can pick for a marker: its own unit first, then every unit
+ * we know how to convert into it.
+ */
+export const getUnitOptions = (marker: BloodMarker): string[] => {
+  const out = [marker.unit];
+  const conv = getMarkerConversion(marker);
+  const candidates = [...MASS_UNITS, ...MOLAR_UNITS, ...Object.keys(conv?.extraUnits ?? {})];
+
+  for (const u of candidates) {
+    if (out.some((o) => isSameUnit(o, u))) continue;
+    if (convertValue(1, u, marker.unit, marker) !== null) out.push(u);
+  }
+  return out;
+};
+
+/**
+ * Rounds a converted value to a sensible number of significant digits so
+ * conversion noise (e.g. 5.000000001) never reaches the database.
+ */
+export const roundConverted = (value: number, significant: number = 4) => {
+  if (!Number.isFinite(value) || value === 0) return value;
+  return Number(value.toPrecision(significant));
+};
+
+/**
+ * Prepares a reading for storage: converts it into the marker's unit and keeps
+ * the lab's original value/unit when they differ. Returns null if the unit
+ * cannot be converted for this marker.
+ */
+export const toMarkerUnit = (
+  value: number,
+  unit: string | null | undefined,
+  marker: BloodMarker,
+): { value: number; originalValue: number | null; originalUnit: string | null } | null => {
+  if (!unit || isSameUnit(unit, marker.unit)) {
+    return { value, originalValue: null, originalUnit: null };
+  }
+  const converted = convertValue(value, unit, marker.unit, marker);
+  if (converted === null) return null;
+  return { value: roundConverted(converted), originalValue: value, originalUnit: normalizeUnit(unit) };
+};
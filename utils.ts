@@ -1,5 +1,5 @@
 
-import { BloodMarker, HealthStatus, FocusAreaId, Measurement } from './types';
+import { BloodMarker, HealthStatus, FocusAreaId, MarkerGoal, Measurement, MarkerHistory, ResolvedRange, Severity } from './types';
 
 // Robust parsing for numbers that might come as strings with commas (Swedish format)
 export const safeFloat = (value: any): number => {
@@ -24,14 +24,95 @@ export const getStatus = (value: number, min: number, max: number): HealthStatus
   return 'normal';
 };
 
+// The range a specific measurement is judged against (falls back to the marker's current range)
+export const getMeasurementRange = (
+  marker: Pick<MarkerHistory, 'minRef' | 'maxRef' | 'measurementRanges'>,
+  measurement: Pick<Measurement, 'id'>,
+): ResolvedRange => {
+  return marker.measurementRanges?.[measurement.id] ?? { minRef: marker.minRef, maxRef: marker.maxRef };
+};
+
+export const getMeasurementStatus = (
+  marker: Pick<MarkerHistory, 'minRef' | 'maxRef' | 'measurementRanges'>,
+  measurement: Pick<Measurement, 'id' | 'value'>,
+): HealthStatus => {
+  const range = getMeasurementRange(marker, measurement);
+  return getStatus(measurement.value, range.minRef, range.maxRef);
+};
+
 export const isWithinRange = (value: number, min: number, max: number) => value >= min && value <= max;
 
+// Personal target range (BloodMarker.goal); false when the marker has none
+export const isOutsideGoal = (value: number, goal: MarkerGoal | undefined) =>
+  goal ? !isWithinRange(value, goal.targetMin, goal.targetMax) : false;
+
 export const distanceToRange = (value: number, min: number, max: number) => {
   if (value < min) return min - value;
   if (value > max) return value - max;
   return 0;
 };
 
+// Distance outside the range relative to the limit that was crossed: 0 inside, 0.2 = 20 % beyond it
+export const relativeDeviation = (value: number, min: number, max: number) => {
+  const d = distanceToRange(value, min, max);
+  if (d === 0 || !Number.isFinite(d)) return 0;
+  const bound = Math.abs(value < min ? min : max);
+  return d / (bound > 0 ? bound : Math.abs(max - min) || 1);
+};
+
+// Up to 10 % beyond a limit counts as borderline
+export const BORDERLINE_DEVIATION = 0.1;
+// Without per-marker limits: critical below half the lower limit or above three times the upper one
+const CRITICAL_DEVIATION_LOW = 0.5;
+const CRITICAL_DEVIATION_HIGH = 2;
+
+/**
+ * Grades a value outside its range. Per-marker critical limits
+ * (blood_markers.critical_low/critical_high) win over the relative fallback.
+ */
+export const getSeverity = (
+  value: number,
+  min: number,
+  max: number,
+  limits?: Pick<BloodMarker, 'criticalLow' | 'criticalHigh'>,
+): Severity => {
+  const status = getStatus(value, min, max);
+  if (status === 'normal') return 'normal';
+
+  const criticalLimit = status === 'low' ? limits?.criticalLow : limits?.criticalHigh;
+  const deviation = relativeDeviation(value, min, max);
+  if (criticalLimit != null) {
+    if (status === 'low' ? value <= criticalLimit : value >= criticalLimit) return 'critical';
+  } else if (deviation >= (status === 'low' ? CRITICAL_DEVIATION_LOW : CRITICAL_DEVIATION_HIGH)) {
+    return 'critical';
+  }
+  return deviation <= BORDERLINE_DEVIATION ? 'borderline' : 'out_of_range';
+};
+
+export const getMeasurementSeverity = (
+  marker: Pick<MarkerHistory, 'minRef' | 'maxRef' | 'measurementRanges' | 'criticalLow' | 'criticalHigh'>,
+  measurement: Pick<Measurement, 'id' | 'value'>,
+): Severity => {
+  const range = getMeasurementRange(marker, measurement);
+  return getSeverity(measurement.value, range.minRef, range.maxRef, marker);
+};
+
+// Lower sorts first
+export const severityRank = (severity: Severity | undefined) => {
+  switch (severity) {
+    case 'critical':
+      return 0;
+    case 'out_of_range':
+      return 1;
+    case 'borderline':
+      return 2;
+    case 'normal':
+      return 4;
+    default:
+      return 3;
+  }
+};
+
 export const clamp = (value: number, min: number, max: number) => {
   return Math.min(Math.max(value, min), max);
 };
@@ -91,7 +172,9 @@ export const formatDateTime = (dateString: string): string => {
   });
 };
 
-export const getStatusColor = (status: HealthStatus) => {
+export const getStatusColor = (status: HealthStatus, severity?: Severity) => {
+  if (status !== 'normal' && severity === 'borderline') return 'bg-amber-50 text-amber-800 border-amber-200';
+  if (status !== 'normal' && severity === 'critical') return 'bg-red-100 text-red-900 border-red-300';
   switch (status) {
     case 'low':
       return 'bg-rose-50 text-rose-800 border-rose-200';
@@ -104,7 +187,9 @@ export const getStatusColor = (status: HealthStatus) => {
   }
 };
 
-export const getStatusTextColor = (status: HealthStatus) => {
+export const getStatusTextColor = (status: HealthStatus, severity?: Severity) => {
+  if (status !== 'normal' && severity === 'borderline') return 'text-amber-700';
+  if (status !== 'normal' && severity === 'critical') return 'text-red-700';
   switch (status) {
     case 'low':
       return 'text-rose-700';
@@ -117,6 +202,19 @@ export const getStatusTextColor = (status: HealthStatus) => {
   }
 };
 
+export const getSeverityText = (severity: Severity) => {
+  switch (severity) {
+    case 'borderline':
+      return 'Gränsvärde';
+    case 'out_of_range':
+      return 'Utanför ref';
+    case 'critical':
+      return 'Kritiskt';
+    case 'normal':
+      return 'Inom ref';
+  }
+};
+
 export const getStatusText = (status: HealthStatus) => {
   switch (status) {
     case 'low':
@@ -427,67 +525,3 @@ export const getFocusAreasForMarker = (marker: Pick<BloodMarker, 'name' | 'categ
   const uniq = Array.from(new Set(out));
   return uniq.length ? uniq : ['other'];
 };
-
-/**
- * Returns a high-impact actionable advice for a specific organ system.
- * ideally this fetches from a DB in the future.
- */
-export const getActionableAdvice = (system: FocusAreaId): { title: string; desc: string } => {
-  switch (system) {
-    case 'cardiovascular':
-      return { 
-        title: "Optimera blodfetter", 
-        desc: "Öka zon 2-träning och minska mättat fett." 
-      };
-    case 'metabolic':
-      return { 
-        title: "Stabilisera blodsocker", 
-        desc: "Promenera 10 minuter efter varje måltid." 
-      };
-    case 'liver':
-      return { 
-        title: "Minska leverbelastning", 
-        desc: "Undvik alkohol och fruktos i 4 veckor." 
-      };
-    case 'inflammation':
-      return { 
-        title: "Sänk inflammation", 
-        desc: "Öka Omega-3 och prioritera återhämtning." 
-      };
-    case 'hormones':
-      return { 
-        title: "Optimera dygnsrytm", 
-        desc: "Få dagsljus direkt på morgonen och sov 8h." 
-      };
-    case 'kidney':
-      return { 
-        title: "Stöd njurfunktion", 
-        desc: "Säkerställ vätskeintag och kolla blodtryck." 
-      };
-    case 'thyroid':
-      return { 
-        title: "Stöd sköldkörteln", 
-        desc: "Minska stress och ät selenrika livsmedel." 
-      };
-    case 'blood':
-      return { 
-        title: "Öka järnupptag", 
-        desc: "Kombinera järnrik mat med C-vitamin. Undvik kaffe till maten." 
-      };
-    case 'micronutrients':
-      return { 
-        title: "Justera intag", 
-        desc: "Riktad kost eller tillskott för specifika brister." 
-      };
-    case 'electrolytes':
-      return { 
-        title: "Balansera mineraler", 
-        desc: "Öka intag av kalium via grönsaker." 
-      };
-    default:
-      return { 
-        title: "Utred vidare", 
-        desc: "Boka tid för djupare analys." 
-      };
-  }
-};